@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  BUDGET_AGENT_TYPES,
+  getBudgetPolicy,
+  getBudgetLedger,
+  getBudgetStatus,
+  updateBudgetPolicy,
+  BudgetStatus,
+} from '@/lib/llm/budget';
+import type { AgentType } from '@/lib/llm/agent-router';
+import { validateJsonSchema, formatSchemaErrors, JSONSchema } from '@/lib/utils/json-schema';
+
+const LIMIT_SCHEMA: JSONSchema = { type: ['number', 'null'], minimum: 0 };
+
+const POLICY_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    monthlyLimit: LIMIT_SCHEMA,
+    agentLimits: {
+      type: 'object',
+      properties: Object.fromEntries(BUDGET_AGENT_TYPES.map((agentType) => [agentType, LIMIT_SCHEMA])),
+      additionalProperties: false,
+    },
+    downgradeAt: { type: 'number', minimum: 0, maximum: 1 },
+    criticalAt: { type: 'number', minimum: 0, maximum: 1 },
+  },
+  additionalProperties: false,
+};
+
+async function getBudgetOverview() {
+  const statuses = {} as Record<AgentType, BudgetStatus>;
+  for (const agentType of BUDGET_AGENT_TYPES) {
+    statuses[agentType] = await getBudgetStatus(agentType);
+  }
+  return {
+    policy: await getBudgetPolicy(),
+    ledger: await getBudgetLedger(),
+    statuses,
+  };
+}
+
+/**
+ * API endpoint for the monthly budget
+ * GET returns policy, this month's spend and the level per agent type
+ */
+export async function GET(req: NextRequest) {
+  try {
+    return NextResponse.json(await getBudgetOverview());
+  } catch (error) {
+    console.error('Budget API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT updates the budget policy (null removes a limit)
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const validation = validateJsonSchema(POLICY_SCHEMA, body);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid budget policy', details: formatSchemaErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    // A partial update is checked against the current thresholds
+    const current = await getBudgetPolicy();
+    const downgradeAt = validation.value.downgradeAt ?? current.downgradeAt;
+    const criticalAt = validation.value.criticalAt ?? current.criticalAt;
+    if (downgradeAt > criticalAt) {
+      return NextResponse.json(
+        {
+          error: 'Invalid budget policy',
+          details: `downgradeAt (${downgradeAt}) must not be greater than criticalAt (${criticalAt})`,
+        },
+        { status: 400 }
+      );
+    }
+
+    await updateBudgetPolicy(validation.value);
+    return NextResponse.json(await getBudgetOverview());
+  } catch (error) {
+    console.error('Budget API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CACHE_AGENT_TYPES, clearResponseCache, getCacheStats } from '@/lib/llm/response-cache';
+import type { AgentType } from '@/lib/llm/agent-router';
+
+/**
+ * API endpoint for the response cache
+ * GET returns enabled agent types, stored entries and hit/miss metrics
+ */
+export async function GET(req: NextRequest) {
+  try {
+    return NextResponse.json(await getCacheStats());
+  } catch (error) {
+    console.error('Cache API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE clears the cache, or one agent type's entries with ?agent=extract
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const agent = req.nextUrl.searchParams.get('agent');
+    if (agent && !CACHE_AGENT_TYPES.includes(agent as AgentType)) {
+      return NextResponse.json(
+        { error: 'Invalid agent type', details: `Expected one of ${CACHE_AGENT_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const removed = await clearResponseCache((agent as AgentType) || undefined);
+    return NextResponse.json({ removed, ...(await getCacheStats()) });
+  } catch (error) {
+    console.error('Cache API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseLastEventId, stopGeneration, streamGeneration } from '@/lib/llm/generations';
+
+/**
+ * API endpoint for an in-flight chat generation
+ * GET resumes its event stream after the Last-Event-ID header (or ?lastEventId=)
+ */
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  const afterSeq = parseLastEventId(req.headers.get('last-event-id') ?? req.nextUrl.searchParams.get('lastEventId'));
+  const stream = await streamGeneration(params.id, afterSeq);
+  if (!stream) {
+    return NextResponse.json(
+      { error: 'Generation not found', details: 'It finished more than a few minutes ago or never existed' },
+      { status: 404 }
+    );
+  }
+
+  return new Response(stream, {
+    headers: {
+      'X-Generation-Id': params.id,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
+
+/**
+ * DELETE stops the generation (stop button); its partial reply stays readable
+ */
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  return NextResponse.json({ stopped: stopGeneration(params.id) });
+}
@@ -2,15 +2,53 @@ import { NextRequest, NextResponse } from 'next/server';
 import { routeRequest } from '@/lib/llm/router';
 import { providers } from '@/lib/llm/providers';
 import { getAvailableProviders } from '@/lib/llm/key-checker';
-import { detectRequiredTools, executeTools } from '@/lib/tools';
-import { Message } from '@/lib/llm/types';
-import { searchRelevantChunks } from '@/lib/utils/search';
+import { getToolDefinitions, executeToolCall, toModelToolResult, ToolContext } from '@/lib/tools';
+import { Message, ToolCall, LLMResponse } from '@/lib/llm/types';
+import { formatSourceHeading, getDocumentSources, numberWebResults, CitationSource } from '@/lib/utils/citations';
+import { rerankChunks } from '@/lib/llm/reranker';
 import { getCodingPrompt } from '@/lib/prompts/coding-mode';
 import { buildOptimizedContext, ConversationMessage } from '@/lib/utils/conversation-manager';
 // Quality assessment removed - OpenRouter handles model selection
-import type { ChatRequestBody, RAGChunk, FileData, ToolResult } from '@/lib/types/api';
-import { routeAgentToOptimalLLM, estimateCodingComplexity } from '@/lib/llm/agent-router';
+import type { ChatRequestBody, RAGChunk, FileData } from '@/lib/types/api';
+import { routeAgentToOptimalLLM, estimateCodingComplexity, getAgentTypeForMode, getAgentFallbackChain } from '@/lib/llm/agent-router';
+import { getBudgetStatus, recordSpend, getBudgetErrorBody } from '@/lib/llm/budget';
+import {
+  classifyLLMError,
+  isRetryableError,
+  withIdleTimeout,
+  prioritizeHealthyModels,
+  ATTEMPT_IDLE_TIMEOUT_MS,
+} from '@/lib/llm/fallback';
+import { recordSuccess, recordFailure } from '@/lib/llm/health';
+import { BudgetExceededError, EmptyResponseError } from '@/lib/llm/errors';
+import { startGeneration, streamGeneration } from '@/lib/llm/generations';
+import { supportsTools } from '@/lib/llm/model-catalog';
 import { getChatAgentPrompt } from '@/lib/prompts/agent-prompts';
+import type { LLMProvider } from '@/lib/llm/providers';
+import type { ModelConfig } from '@/lib/llm/router';
+
+/**
+ * Maximum number of tool-calling rounds before the model must answer
+ */
+const MAX_TOOL_STEPS = 5;
+
+/**
+ * Document chunks added to the prompt when RAG is on
+ */
+const RAG_CHUNKS = 5;
+const MAX_RAG_CANDIDATES = 50; // Upper bound on client-sent candidates
+
+/**
+ * RAG candidates from the request body, dropping malformed entries
+ */
+function readRAGContext(chunks: unknown): RAGChunk[] {
+  if (!Array.isArray(chunks)) return [];
+  return chunks
+    .filter((chunk): chunk is RAGChunk =>
+      !!chunk && typeof chunk.text === 'string' && typeof chunk.documentName === 'string'
+    )
+    .slice(0, MAX_RAG_CANDIDATES);
+}
 
 /**
  * Enhanced system prompt based on task type and mode
@@ -46,7 +84,7 @@ function getSystemPrompt(
   if (ragContext && ragContext.length > 0) {
     basePrompt += '\n\nRelevant context from uploaded documents:\n';
     ragContext.forEach((chunk: any, index: number) => {
-      basePrompt += `\n[Document ${index + 1}: ${chunk.documentName}]\n${chunk.text}\n`;
+      basePrompt += `\n${formatSourceHeading(chunk, index)}\n${chunk.text}\n`;
     });
   }
 
@@ -193,7 +231,56 @@ function detectStudyTechnique(taskType: string, userMessage?: string): {
   return {};
 }
 
+type TurnUsage = Partial<NonNullable<LLMResponse['usage']>>;
+
+/**
+ * Sum token usage across the model turns of a tool loop
+ */
+function addUsage(total: TurnUsage | null, usage: LLMResponse['usage']): TurnUsage | null {
+  if (!usage) return total;
+  const cacheReadTokens = (total?.cacheReadTokens || 0) + (usage.cacheReadTokens || 0);
+  const cacheWriteTokens = (total?.cacheWriteTokens || 0) + (usage.cacheWriteTokens || 0);
+  return {
+    promptTokens: (total?.promptTokens || 0) + (usage.promptTokens || 0),
+    completionTokens: (total?.completionTokens || 0) + (usage.completionTokens || 0),
+    totalTokens: (total?.totalTokens || 0) + (usage.totalTokens || 0),
+    ...(cacheReadTokens > 0 && { cacheReadTokens }),
+    ...(cacheWriteTokens > 0 && { cacheWriteTokens }),
+  };
+}
+
+/**
+ * Split a system prompt into sections for prompt caching, given builds of it
+ * with growing context where each build extends the previous one. Falls back
+ * to a single section when a build doesn't (the context was placed mid-prompt).
+ */
+function splitPromptSections(builds: string[]): string[] {
+  const sections: string[] = [];
+  let previous = '';
+  for (const build of builds) {
+    if (!build.startsWith(previous)) return [builds[builds.length - 1]];
+    const section = build.slice(previous.length).trim();
+    if (section) sections.push(section);
+    previous = build;
+  }
+  return sections;
+}
+
+/**
+ * Rough token counts (~4 characters per token) when the provider reports no usage
+ */
+function estimateUsage(messages: Message[], completionChars: number) {
+  const promptChars = messages.reduce(
+    (sum, m) => sum + (typeof m.content === 'string' ? m.content.length : 0),
+    0
+  );
+  const promptTokens = Math.ceil(promptChars / 4);
+  const completionTokens = Math.ceil(completionChars / 4);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
 export async function POST(req: NextRequest) {
+  const requestStartedAt = Date.now();
   try {
     const body: ChatRequestBody = await req.json();
     const {
@@ -205,6 +292,7 @@ export async function POST(req: NextRequest) {
       deepWebSearch = false,
       personalInfoContext,
       memoryContext,
+      budgetOverride = false,
     } = body;
 
     // Extract text content from last message (handle multimodal)
@@ -220,38 +308,24 @@ export async function POST(req: NextRequest) {
       }
     }
 
-    // Step 1: Detect required tools
-    const requiredTools = await detectRequiredTools(lastMessage, files);
-
-    // Step 2: Execute tools if needed
-    let toolResults: ToolResult = {};
-    if (requiredTools.length > 0) {
-      // Prepare file data for tools
-      const fileData: FileData[] = files.map((f) => ({
-        ...f,
-        data: f.data || f.content, // Support both formats
-      }));
-
-      toolResults = await executeTools(requiredTools, {
-        userMessage: lastMessage,
-        files: fileData,
-      });
-    }
+    // Step 1: Prepare tool context - the model decides which tools to call
+    // Images are sent to vision models directly, so only documents are exposed to tools
+    const toolContext: ToolContext = {
+      files: files
+        .filter((f) => !f.type?.startsWith('image/'))
+        // Only the upload itself: a client-sent server path is never read
+        .map((f): FileData => ({
+          type: f.type,
+          name: f.name,
+          data: f.data || f.content, // Support both formats
+          url: f.url,
+        })),
+    };
+    const toolDefinitions = getToolDefinitions(toolContext);
 
-    // Step 3: Get RAG context if enabled
-    let ragContext: RAGChunk[] = [];
-    if (useRAG) {
-      try {
-        const relevantChunks = await searchRelevantChunks(lastMessage, 5, 0.5);
-        ragContext = relevantChunks.map((chunk) => ({
-          documentName: chunk.documentName,
-          text: chunk.text,
-        }));
-      } catch (error) {
-        // Continue without RAG if it fails
-        // Error logged silently to avoid cluttering logs
-      }
-    }
+    // Step 3: RAG context, retrieved by the client (keyword + vector search over
+    // IndexedDB, which the server can't reach) and reranked below
+    let ragContext: RAGChunk[] = useRAG ? readRAGContext(body.ragContext) : [];
 
     // personalInfoContext and memoryContext are already extracted from body above
 
@@ -280,40 +354,46 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Step 4: Classify task type first
-    const { taskType: classifiedTaskType } = await routeRequest(messages, {
+    // Monthly budget for this mode: routers step down to cheaper models near the
+    // limit and refuse paid models at the hard cap unless overridden
+    const agentType = getAgentTypeForMode(mode);
+    const budget = await getBudgetStatus(agentType, budgetOverride);
+
+    // Step 4: Classify task type first (model classifier, then embeddings, then rules)
+    const route = await routeRequest(messages, {
       hasImages,
       hasCode: /```/.test(lastMessage),
       fileCount,
       userOverride,
       mode,
       deepWebSearch,
+      budget,
     });
     
-    // Step 4.5: Use agent-specific routing for chat agent
-    // This ensures we use Perplexity Pro for research or Claude Sonnet 4.5 for reasoning
-    const taskType = classifiedTaskType;
+    // Step 4.5: Use the routing policy of the mode's agent (chat, code or study)
+    // e.g. Perplexity for research, Claude for reasoning, Opus for complex code
+    const taskType = route.taskType;
     const codingComplexity = mode === 'coding' 
       ? estimateCodingComplexity(lastMessage, /```/.test(lastMessage), fileCount)
       : undefined;
     
-    const agentConfig = routeAgentToOptimalLLM('chat', {
+    const agentContext = {
       taskType,
       hasImages,
       hasCode: /```/.test(lastMessage),
       fileCount,
+      complexity: codingComplexity,
       deepWebSearch,
-    });
+      mode,
+      budget,
+    };
+    const agentConfig = routeAgentToOptimalLLM(agentType, agentContext);
     
     // Use agent config, but allow user override
-    const config = userOverride ? (await routeRequest(messages, {
-      hasImages,
-      hasCode: /```/.test(lastMessage),
-      fileCount,
-      userOverride,
-      mode,
-      deepWebSearch,
-    })).config : agentConfig;
+    const config = userOverride ? route.config : agentConfig;
+
+    // Step 4.6: Rerank the retrieved chunks (RAG_RERANKER) and keep the best
+    ragContext = await rerankChunks(lastMessage, ragContext, RAG_CHUNKS, budget);
 
     // Step 5: Optimize conversation context (hot-warm-cold)
     const conversationMessages: ConversationMessage[] = messages.map((m: any) => ({
@@ -351,7 +431,9 @@ export async function POST(req: NextRequest) {
     const errorLog = mode === 'study' ? undefined : undefined;
     
     // Use agent-specific prompts (optimized for each LLM)
-    let systemPrompt: string;
+    // Built with growing context - the base prompt, then personal info and memory,
+    // then RAG - so providers with prompt caching can cache the stable prefix
+    let buildPrompt: (context: { personal?: boolean; rag?: boolean }) => string;
     if (mode === 'study') {
       // Study mode uses EELC prompts
       const { getStudyPrompt } = require('@/lib/prompts/study-mode');
@@ -370,10 +452,10 @@ export async function POST(req: NextRequest) {
             autoGenerateInstructions: true
           }
         : undefined;
-      systemPrompt = getStudyPrompt(
+      buildPrompt = ({ rag }) => getStudyPrompt(
         taskType, 
         studyInfo.technique, 
-        ragContext, 
+        rag ? ragContext : undefined, 
         studyProgress, 
         errorLog,
         studyPlanInfo
@@ -381,12 +463,28 @@ export async function POST(req: NextRequest) {
     } else if (mode === 'coding') {
       // Coding mode uses optimized coding prompts
       const { getCodingModePrompt } = require('@/lib/prompts/agent-prompts');
-      systemPrompt = getCodingModePrompt(taskType, ragContext, toolResults);
+      buildPrompt = ({ rag }) => getCodingModePrompt(taskType, rag ? ragContext : undefined);
     } else {
       // Primary mode: Use optimized chat agent prompt
-      systemPrompt = getChatAgentPrompt(taskType, ragContext, toolResults, personalInfoContext, memoryContext);
+      buildPrompt = ({ personal, rag }) => getChatAgentPrompt(
+        taskType,
+        rag ? ragContext : undefined,
+        undefined,
+        personal ? personalInfoContext : undefined,
+        personal ? memoryContext : undefined
+      );
+    }
+    const promptBuilds = [buildPrompt({}), buildPrompt({ personal: true })];
+    let systemPrompt = buildPrompt({ personal: true, rag: true });
+
+    // List attachments so the model can reference them in parse_file / analyze_csv calls
+    if (toolContext.files.length > 0) {
+      systemPrompt += '\n\n[Attached files - read them with the parse_file tool]:\n';
+      systemPrompt += toolContext.files.map((f) => `- ${f.name} (${f.type})`).join('\n');
     }
     
+    const fullSystemPrompt = systemPrompt;
+
     // Truncate system prompt if it's too large (especially with images)
     // Claude handles large images well, so we can keep more context
     if (hasImages) {
@@ -424,8 +522,13 @@ export async function POST(req: NextRequest) {
       }
     }
     
+    // Each section ends a cacheable prefix; a truncated prompt is sent as one
+    const systemSections = systemPrompt === fullSystemPrompt
+      ? splitPromptSections([...promptBuilds, systemPrompt])
+      : [systemPrompt];
+
     const enhancedMessages: Message[] = [
-      { role: 'system', content: systemPrompt },
+      ...systemSections.map((content): Message => ({ role: 'system', content, cacheBreakpoint: true })),
       ...finalMessages
         .map((m: any): Message | null => {
           // Skip compressed messages that are just placeholders
@@ -497,11 +600,14 @@ export async function POST(req: NextRequest) {
         .filter((m): m is Message => m !== null), // Remove null entries with type guard
     ];
 
+    // Cache the conversation too; the next turn and each tool round extend it
+    const lastTurn = enhancedMessages[enhancedMessages.length - 1];
+    if (lastTurn && lastTurn.role !== 'system') lastTurn.cacheBreakpoint = true;
+
     // Step 7: Use the provider from router (always OpenRouter now)
     // Quality-based fallback removed - OpenRouter handles model selection
     const finalConfig = config;
     const finalProvider = providers[config.provider];
-    const usedFallback = false; // No fallback needed with OpenRouter
 
     // Validate final provider
     if (!finalProvider) {
@@ -524,181 +630,253 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Create readable stream
-    const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          const encoder = new TextEncoder();
-          
-          // Send tool execution info immediately if tools are being used
-          // This allows the UI to show tool execution indicators before the response
-          if (requiredTools.length > 0) {
-            const toolExecutionInfo = {
-              type: 'tool_execution',
-              tools: requiredTools,
-              status: 'executing',
-            };
-            controller.enqueue(
-              encoder.encode(`data: ${JSON.stringify(toolExecutionInfo)}\n\n`)
-            );
-          }
-          
-          // Send metadata first
-          const metadata = {
-            type: 'metadata',
-            taskType,
-            model: finalConfig.model,
-            provider: finalConfig.provider,
-            providerName: finalProvider.name,
-            toolsUsed: requiredTools,
-            costPer1M: finalConfig.costPer1M,
-            usedFallback: false, // OpenRouter handles routing, no fallback needed
-            fallbackReason: undefined,
-          };
-          controller.enqueue(
-            encoder.encode(`data: ${JSON.stringify(metadata)}\n\n`)
-          );
-
-          // Stream the response from OpenRouter
-          let usageData: { promptTokens?: number; completionTokens?: number; totalTokens?: number } | null = null;
-          
-          // Send tool execution completion when response starts
-          if (requiredTools.length > 0) {
-            const toolExecutionComplete = {
-              type: 'tool_execution',
-              tools: requiredTools,
-              status: 'complete',
-            };
-            controller.enqueue(
-              encoder.encode(`data: ${JSON.stringify(toolExecutionComplete)}\n\n`)
-            );
-          }
-          
-          // Try to stream with the primary provider, with automatic fallback for token limit errors
-          let streamSuccess = false;
-          let fallbackConfig = finalConfig;
-          let fallbackProvider = finalProvider;
-          
-          try {
-            for await (const chunk of finalProvider.streamCall(enhancedMessages, {
-              model: finalConfig.model,
-              temperature: finalConfig.temperature,
-              maxTokens: finalConfig.maxTokens,
+    // Models to try in order: the routed model, then the agent's fallback chain
+    // Models whose circuit is open are tried last
+    const attemptChain = prioritizeHealthyModels([
+      finalConfig,
+      ...getAgentFallbackChain(agentType, agentContext),
+    ]).filter((c) => providers[c.provider]?.isAvailable());
+
+    // The generation runs on its own and logs its events; the response only tails
+    // the log, so a client whose connection drops can reconnect and resume.
+    // Its signal is aborted by the stop button or when no client is left.
+    const generation = await startGeneration();
+
+    const runGeneration = async () => {
+      let activeConfig = attemptChain[0];
+      let usageData: TurnUsage | null = null;
+      let completionChars = 0;
+      const send = (event: any) => generation.send(JSON.stringify(event));
+      try {
+        
+        // Send metadata first (re-sent when a fallback model takes over)
+        const metadata = {
+          type: 'metadata',
+          taskType,
+          taskConfidence: route.confidence,
+          classifier: route.classifier, // 'llm', 'embedding' or 'rules'
+          model: activeConfig.model,
+          provider: activeConfig.provider,
+          providerName: providers[activeConfig.provider].name,
+          toolsUsed: [] as string[], // Filled in by tool_result events as the model calls tools
+          costPer1M: activeConfig.costPer1M,
+          usedFallback: false,
+          fallbackReason: undefined as string | undefined,
+          budgetLevel: budget.level, // Anything but 'ok' means the model may have been downgraded
+        };
+        send(metadata);
+
+        // Stream the response from OpenRouter
+        let streamedContent = false;
+        let firstTokenAt: number | null = null;
+
+        /**
+         * Multi-step tool loop: stream a model turn, run any tool calls it made,
+         * feed the results back and let the model continue until it answers
+         */
+        const runToolLoop = async (provider: LLMProvider, modelConfig: ModelConfig) => {
+          // Some models (e.g. Perplexity, which searches natively) reject tool schemas
+          const tools = provider.supportsTools && supportsTools(modelConfig.model)
+            ? toolDefinitions
+            : [];
+          const conversation: Message[] = [...enhancedMessages];
+          // Numbered sources the model can cite: the RAG chunks, then web results as
+          // they come in. Models that search natively (no tools) number their own
+          // results, which we never see, so their markers get no footnotes. Until
+          // there is a source, null leaves "[1, 2, 3]" in ordinary prose unflagged.
+          const sources: CitationSource[] = getDocumentSources(ragContext);
+          const citable = supportsTools(modelConfig.model);
+          send({ type: 'sources', sources: citable && sources.length > 0 ? sources : null });
+
+          for (let step = 0; step <= MAX_TOOL_STEPS; step++) {
+            let turnContent = '';
+            let toolCalls: ToolCall[] = [];
+
+            const turn = provider.streamCall(conversation, {
+              model: modelConfig.model,
+              temperature: modelConfig.temperature,
+              maxTokens: modelConfig.maxTokens,
               stream: true,
-            })) {
-              streamSuccess = true;
-              // Check if chunk contains usage data (some providers send it)
-              if (chunk && typeof chunk === 'object' && 'usage' in chunk) {
-                usageData = (chunk as any).usage;
-                continue; // Skip usage data chunks, they're not content
+              // Final step withholds tools so the model has to answer
+              tools: step < MAX_TOOL_STEPS && tools.length > 0 ? tools : undefined,
+              signal: generation.signal,
+            });
+
+            for await (const chunk of withIdleTimeout(turn, ATTEMPT_IDLE_TIMEOUT_MS, modelConfig.model)) {
+              if (typeof chunk === 'string') {
+                streamedContent = true;
+                firstTokenAt = firstTokenAt ?? Date.now();
+                turnContent += chunk;
+                completionChars += chunk.length;
+                send({ type: 'content', content: chunk });
+              } else if ('usage' in chunk) {
+                usageData = addUsage(usageData, chunk.usage);
+              } else if ('toolCalls' in chunk) {
+                toolCalls = chunk.toolCalls;
               }
-              
-              controller.enqueue(
-                encoder.encode(
-                  `data: ${JSON.stringify({ type: 'content', content: chunk })}\n\n`
-                )
-              );
             }
-          } catch (error: any) {
-            // Check if it's a token limit error (413 or "request too large")
-            const isTokenLimitError = error?.isTokenLimitError || 
-              error?.statusCode === 413 ||
-              (error?.message && (
-                error.message.toLowerCase().includes('request too large') ||
-                error.message.toLowerCase().includes('tokens per minute') ||
-                error.message.toLowerCase().includes('tpm') ||
-                error.message.toLowerCase().includes('413')
-              ));
-            
-            if (isTokenLimitError && !streamSuccess) {
-              // Automatically switch to a model with higher token limits
-              // Use OpenRouter with Claude or GPT-4o which have much higher limits
-              const available = getAvailableProviders();
-              
-              if (available.openrouter) {
-                // Switch to Claude Sonnet via OpenRouter (200K context, higher TPM limits)
-                fallbackConfig = {
-                  provider: 'openrouter',
-                  model: 'anthropic/claude-3.5-sonnet',
-                  maxTokens: finalConfig.maxTokens,
-                  temperature: finalConfig.temperature,
-                  costPer1M: 3, // Claude Sonnet pricing
-                };
-                fallbackProvider = providers.openrouter;
-                
-                // Update metadata to show fallback
-                const fallbackMetadata = {
-                  type: 'metadata',
-                  taskType,
-                  model: fallbackConfig.model,
-                  provider: fallbackConfig.provider,
-                  providerName: 'Claude 3.5 Sonnet (via OpenRouter)',
-                  toolsUsed: requiredTools,
-                  costPer1M: fallbackConfig.costPer1M,
-                  usedFallback: true,
-                  fallbackReason: 'Request too large for Groq - switched to Claude for higher token limits',
-                };
-                controller.enqueue(
-                  encoder.encode(`data: ${JSON.stringify(fallbackMetadata)}\n\n`)
-                );
-                
-                // Retry with fallback model
-                for await (const chunk of fallbackProvider.streamCall(enhancedMessages, {
-                  model: fallbackConfig.model,
-                  temperature: fallbackConfig.temperature,
-                  maxTokens: fallbackConfig.maxTokens,
-                  stream: true,
-                })) {
-                  // Check if chunk contains usage data
-                  if (chunk && typeof chunk === 'object' && 'usage' in chunk) {
-                    usageData = (chunk as any).usage;
-                    continue;
-                  }
-                  
-                  controller.enqueue(
-                    encoder.encode(
-                      `data: ${JSON.stringify({ type: 'content', content: chunk })}\n\n`
-                    )
-                  );
+
+            if (toolCalls.length === 0 || generation.signal.aborted) {
+              return;
+            }
+
+            conversation.push({ role: 'assistant', content: turnContent, toolCalls });
+
+            for (const call of toolCalls) {
+              let args: any = call.arguments;
+              try {
+                args = JSON.parse(call.arguments);
+              } catch {
+                // Send raw arguments; executeToolCall reports the parse error
+              }
+              send({ type: 'tool_call', id: call.id, name: call.name, arguments: args });
+
+              const result = await executeToolCall(call, toolContext);
+              const isError = !!(result && typeof result === 'object' && 'error' in result && result.error);
+              send({ type: 'tool_result', id: call.id, name: call.name, result, isError });
+
+              let modelResult = result;
+              if (call.name === 'web_search') {
+                const numbered = numberWebResults(result, sources);
+                modelResult = numbered.result;
+                if (numbered.added.length > 0) {
+                  sources.push(...numbered.added);
+                  send({ type: 'sources', sources });
                 }
-                streamSuccess = true;
-              } else {
-                // If OpenRouter not available, throw the original error
-                throw error;
               }
-            } else {
-              // Not a token limit error, throw it
-              throw error;
+
+              if (!metadata.toolsUsed.includes(call.name)) {
+                metadata.toolsUsed.push(call.name);
+              }
+              conversation.push({
+                role: 'tool',
+                toolCallId: call.id,
+                content: JSON.stringify(toModelToolResult(call.name, modelResult) ?? null),
+              });
             }
           }
+        };
+
+        // Walk the fallback chain on rate limits, 5xx, timeouts, outages and empty
+        // responses. Once content has streamed the reply can't be restarted.
+        let lastError: any = null;
+        for (let i = 0; i < attemptChain.length; i++) {
+          const attemptConfig = attemptChain[i];
+          const attemptProvider = providers[attemptConfig.provider];
+          const attemptStartedAt = Date.now();
+          activeConfig = attemptConfig;
+
+          if (i > 0) {
+            const failedModel = attemptChain[i - 1].model;
+            Object.assign(metadata, {
+              model: attemptConfig.model,
+              provider: attemptConfig.provider,
+              providerName: attemptProvider.name,
+              costPer1M: attemptConfig.costPer1M,
+              usedFallback: true,
+              fallbackReason: `${failedModel} failed (${classifyLLMError(lastError).replace('_', ' ')}) - switched to ${attemptConfig.model}`,
+            });
+            send(metadata);
+          }
+          send({ type: 'attempt', attempt: i + 1, model: attemptConfig.model, provider: attemptConfig.provider, status: 'started' });
+
+          try {
+            await runToolLoop(attemptProvider, attemptConfig);
+            if (!streamedContent) {
+              throw new EmptyResponseError(attemptConfig.model);
+            }
 
-          // Send usage data if available
-          if (usageData) {
-            controller.enqueue(
-              encoder.encode(
-                `data: ${JSON.stringify({ type: 'usage', usage: usageData })}\n\n`
-              )
+            recordSuccess(attemptConfig.provider, attemptConfig.model, Date.now() - attemptStartedAt);
+            send({
+              type: 'attempt',
+              attempt: i + 1,
+              model: attemptConfig.model,
+              provider: attemptConfig.provider,
+              status: 'succeeded',
+              durationMs: Date.now() - attemptStartedAt,
+            });
+            lastError = null;
+            break;
+          } catch (error: any) {
+            // Stopped by the user or abandoned: not a model failure, and nobody is left to answer
+            if (generation.signal.aborted) {
+              throw error;
+            }
+            const errorKind = classifyLLMError(error);
+            recordFailure(
+              attemptConfig.provider,
+              attemptConfig.model,
+              errorKind,
+              Date.now() - attemptStartedAt,
+              error?.message
             );
+            console.warn(`[Chat] ${attemptConfig.model} failed (${errorKind}): ${error?.message || error}`);
+            send({
+              type: 'attempt',
+              attempt: i + 1,
+              model: attemptConfig.model,
+              provider: attemptConfig.provider,
+              status: 'failed',
+              errorKind,
+              error: error?.message || String(error),
+              durationMs: Date.now() - attemptStartedAt,
+            });
+
+            lastError = error;
+            if (streamedContent || !isRetryableError(errorKind)) {
+              throw error;
+            }
           }
+        }
 
-          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-          controller.close();
-        } catch (error: any) {
-          // Streaming error handled
-          // Send error to client before closing
-          const errorMessage = error?.message || String(error);
-          controller.enqueue(
-            new TextEncoder().encode(
-              `data: ${JSON.stringify({ type: 'error', error: errorMessage })}\n\n`
-            )
-          );
-          controller.close();
+        if (lastError) {
+          throw lastError;
         }
-      },
-    });
 
-    return new Response(stream, {
+        // Charge the turn to this mode's monthly budget
+        await recordSpend(
+          agentType,
+          activeConfig.model,
+          usageData ?? estimateUsage(enhancedMessages, completionChars)
+        );
+
+        // Send usage and timing so the client can record cost per turn
+        // usage is null when the provider did not report token counts
+        send({
+          type: 'usage',
+          usage: usageData,
+          model: activeConfig.model,
+          provider: activeConfig.provider,
+          latencyMs: Date.now() - requestStartedAt,
+          timeToFirstTokenMs: firstTokenAt ? firstTokenAt - requestStartedAt : null,
+        });
+
+        generation.send('[DONE]');
+      } catch (error: any) {
+        if (generation.signal.aborted) {
+          // Charge what was generated before the stop; the provider sent no usage
+          await recordSpend(
+            agentType,
+            activeConfig.model,
+            usageData ?? estimateUsage(enhancedMessages, completionChars)
+          ).catch(() => {});
+          console.warn(`[Chat] ${activeConfig.model} stopped after ${completionChars} characters`);
+          send({ type: 'stopped' });
+          return;
+        }
+
+        // Streaming error handled
+        // Send error to client before closing
+        send({ type: 'error', error: error?.message || String(error) });
+      } finally {
+        await generation.finish();
+      }
+    };
+    runGeneration();
+
+    return new Response(await streamGeneration(generation.id), {
       headers: {
+        'X-Generation-Id': generation.id,
         'Content-Type': 'text/event-stream',
         'Cache-Control': 'no-cache, no-transform',
         'Connection': 'keep-alive',
@@ -706,6 +884,9 @@ export async function POST(req: NextRequest) {
       },
     });
   } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json(getBudgetErrorBody(error), { status: 402 });
+    }
     // Chat API error handled
     return NextResponse.json(
       { error: 'Internal server error', details: String(error) },
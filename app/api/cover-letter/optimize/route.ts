@@ -1,12 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { providers } from '@/lib/llm/providers';
 import { Message } from '@/lib/llm/types';
-import { routeAgentToOptimalLLM, getAgentFallbackChain } from '@/lib/llm/agent-router';
+import { runStructuredAgent, getStructuredAgentErrorResponse } from '@/lib/llm/structured-agent';
 import { getCoverLetterOptimizationPrompt } from '@/lib/prompts/agent-prompts';
+import { JSONSchema } from '@/lib/utils/json-schema';
+
+/**
+ * The optimized cover letter comes back as plain text
+ */
+const COVER_LETTER_SCHEMA: JSONSchema = {
+  type: 'object',
+  required: ['coverLetter'],
+  properties: {
+    coverLetter: {
+      type: 'string',
+      description: 'The complete optimized cover letter as plain text, without markdown',
+      minLength: 1,
+    },
+  },
+};
 
 export async function POST(req: NextRequest) {
   try {
-    const { coverLetterTemplate, jobPosting, personalInfoContext, customPrompt } = await req.json();
+    const { coverLetterTemplate, jobPosting, personalInfoContext, customPrompt, budgetOverride, bypassCache } = await req.json();
 
     if (!coverLetterTemplate || !coverLetterTemplate.trim()) {
       return NextResponse.json(
@@ -29,11 +45,6 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Use agent-specific routing for cover letter optimization
-    // Optimal: Claude Sonnet 4.5 (nuanced writing, tone adaptation)
-    const config = routeAgentToOptimalLLM('cover-letter', {});
-    const fallbackChain = getAgentFallbackChain('cover-letter');
-
     // Check if OpenRouter is available
     const openRouterProvider = providers.openrouter;
     if (!openRouterProvider || !openRouterProvider.isAvailable()) {
@@ -57,106 +68,24 @@ export async function POST(req: NextRequest) {
       },
     ];
 
-    // Try models via OpenRouter with automatic fallback using agent fallback chain
-    let response;
-    let lastError: Error | null = null;
-    const triedModels: string[] = [];
-
-    // Use agent config and fallback chain
-    const modelsToTry = [config, ...fallbackChain].map(c => c.model);
-
-    for (const model of modelsToTry) {
-      if (triedModels.includes(model)) continue;
-
-      try {
-        triedModels.push(model);
-        const modelConfig = [config, ...fallbackChain].find(c => c.model === model) || config;
-        response = await openRouterProvider.call(messages, {
-          model,
-          temperature: modelConfig.temperature,
-          maxTokens: modelConfig.maxTokens || 4096,
-          stream: false,
-        });
-        // Success! Break out of loop
-        break;
-      } catch (error: any) {
-        lastError = error;
-        const errorMessage = error?.message || String(error);
-        
-        // If it's an auth error, try next model
-        if (errorMessage.includes('Authentication') || 
-            errorMessage.includes('Invalid Authentication') ||
-            errorMessage.includes('401') || 
-            errorMessage.includes('403') ||
-            errorMessage.includes('API key')) {
-          console.warn(`[Cover Letter Optimize] ${model} auth failed, trying next model...`);
-          continue; // Try next model
-        }
-        
-        // For other errors (rate limit, quota, etc.), also try next model
-        if (errorMessage.includes('rate limit') || 
-            errorMessage.includes('429') ||
-            errorMessage.includes('quota') ||
-            errorMessage.includes('funding')) {
-          console.warn(`[Cover Letter Optimize] ${model} failed (${errorMessage}), trying next model...`);
-          continue;
-        }
-        
-        // For unexpected errors, still try next model but log it
-        console.warn(`[Cover Letter Optimize] ${model} error: ${errorMessage}, trying next model...`);
-        continue;
+    // Agent-specific routing with fallback; optimal: Claude Sonnet 4.5 (nuanced writing, tone adaptation)
+    const { data, cached } = await runStructuredAgent<{ coverLetter: string }>(
+      'cover-letter',
+      messages,
+      { name: 'optimized_cover_letter', schema: COVER_LETTER_SCHEMA },
+      {
+        maxTokens: 4096,
+        budgetOverride: budgetOverride === true,
+        bypassCache: bypassCache === true,
+        logTag: 'Cover Letter Optimize',
       }
-    }
-
-    // If we tried all models and none worked
-    if (!response) {
-      const errorMsg = lastError?.message || 'All models failed';
-      return NextResponse.json(
-        { 
-          error: `Failed to optimize cover letter. Tried models: ${triedModels.join(', ')}. Last error: ${errorMsg}`,
-          triedModels 
-        },
-        { status: 500 }
-      );
-    }
-
-    let optimizedCoverLetter = response.content || '';
-
-    // Clean up response (remove markdown code blocks if present)
-    optimizedCoverLetter = optimizedCoverLetter.replace(/```(?:text|txt)?\n?/g, '').replace(/```\n?/g, '').trim();
+    );
 
-    return NextResponse.json({ optimizedCoverLetter });
+    return NextResponse.json({ optimizedCoverLetter: data.coverLetter.trim(), cached });
 
   } catch (error: any) {
     console.error('Cover letter optimization error:', error);
-    const errorMessage = error?.message || String(error);
-    
-    // Provide more specific error messages
-    if (errorMessage.includes('API key') || errorMessage.includes('401') || errorMessage.includes('403')) {
-      return NextResponse.json(
-        { error: 'API key authentication failed. Please check your API keys in environment variables.' },
-        { status: 401 }
-      );
-    }
-    
-    if (errorMessage.includes('rate limit') || errorMessage.includes('429')) {
-      return NextResponse.json(
-        { error: 'Rate limit exceeded. Please try again in a few moments.' },
-        { status: 429 }
-      );
-    }
-    
-    if (errorMessage.includes('quota') || errorMessage.includes('funding')) {
-      return NextResponse.json(
-        { error: 'Provider quota/funding depleted. Please check your account balance.' },
-        { status: 402 }
-      );
-    }
-    
-    return NextResponse.json(
-      { error: `Failed to optimize cover letter: ${errorMessage}` },
-      { status: 500 }
-    );
+    const { status, body } = getStructuredAgentErrorResponse(error, 'optimize cover letter');
+    return NextResponse.json(body, { status });
   }
 }
-
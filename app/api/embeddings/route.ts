@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getEmbeddingProvider } from '@/lib/utils/embedding-providers';
 
 /**
- * API endpoint for generating embeddings
- * NOTE: OpenRouter does not support embeddings API, so we still use OpenAI directly
- * This is the only route that still requires OPENAI_API_KEY
+ * API endpoint for generating embeddings with the configured embedding provider
+ * (OpenAI, an OpenAI-compatible endpoint, or a local CPU model)
+ * Returns the vectors with the model that produced them, which chunks store
  */
 export async function POST(req: NextRequest) {
   try {
@@ -16,39 +17,18 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const apiKey = process.env.OPENAI_API_KEY || process.env.NEXT_PUBLIC_OPENAI_API_KEY;
-
-    if (!apiKey) {
+    const provider = getEmbeddingProvider();
+    if (!provider.isAvailable()) {
       return NextResponse.json(
-        { error: 'OpenAI API key not configured. Please set OPENAI_API_KEY in your environment variables.' },
+        { error: `The ${provider.name} embedding provider is not configured. Check EMBEDDING_PROVIDER and its settings in your environment variables.` },
         { status: 500 }
       );
     }
 
-    const response = await fetch('https://api.openai.com/v1/embeddings', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'text-embedding-3-small',
-        input: texts,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      return NextResponse.json(
-        { error: `OpenAI API error: ${response.statusText}`, details: error },
-        { status: response.status }
-      );
-    }
+    const embeddings = await provider.embed(texts);
+    const dimension = embeddings.find((embedding) => embedding.length > 0)?.length ?? 0;
 
-    const data = await response.json();
-    const embeddings = data.data.map((item: any) => item.embedding);
-
-    return NextResponse.json({ embeddings });
+    return NextResponse.json({ embeddings, model: dimension > 0 ? provider.model : '', dimension });
   } catch (error) {
     console.error('Embeddings API error:', error);
     return NextResponse.json(
@@ -58,3 +38,10 @@ export async function POST(req: NextRequest) {
   }
 }
 
+/**
+ * The embedding model new chunks are embedded with, so clients can spot chunks to re-embed
+ */
+export async function GET() {
+  const provider = getEmbeddingProvider();
+  return NextResponse.json({ provider: provider.name, model: provider.model, available: provider.isAvailable() });
+}
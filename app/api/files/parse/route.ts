@@ -3,6 +3,7 @@ import pdf from 'pdf-parse';
 import mammoth from 'mammoth';
 import * as XLSX from 'xlsx';
 import Papa from 'papaparse';
+import * as cheerio from 'cheerio';
 
 /**
  * Unified file parsing API - supports multiple file formats
@@ -33,18 +34,28 @@ export async function POST(req: NextRequest) {
 
     let result: {
       text: string;
+      format?: 'markdown' | 'text'; // How the chunker reads headings, tables and code
       pages?: number;
+      pageTexts?: string[]; // PDF text per page, so chunks keep their page numbers
       info?: any;
       metadata?: any;
     };
 
     // Determine file type and parse accordingly
     if (fileType === 'application/pdf' || fileName.endsWith('.pdf')) {
-      // PDF parsing
-      const data = await pdf(buffer);
+      // PDF parsing (pages are rendered in order)
+      const pageTexts: string[] = [];
+      const data = await pdf(buffer, {
+        pagerender: async (pageData: any) => {
+          const text = await renderPdfPage(pageData);
+          pageTexts.push(text);
+          return text;
+        },
+      });
       result = {
         text: data.text,
         pages: data.numpages,
+        pageTexts,
         info: data.info,
       };
     } else if (
@@ -53,11 +64,12 @@ export async function POST(req: NextRequest) {
       fileName.endsWith('.docx') ||
       fileName.endsWith('.doc')
     ) {
-      // DOCX/DOC parsing
+      // DOCX/DOC parsing (as markdown, so headings and tables survive for chunking)
       try {
-        const result_docx = await mammoth.extractRawText({ buffer });
+        const result_docx = await mammoth.convertToHtml({ buffer });
         result = {
-          text: result_docx.value,
+          text: htmlToMarkdown(result_docx.value),
+          format: 'markdown',
           metadata: {
             messages: result_docx.messages,
             warnings: result_docx.messages.filter((m: any) => m.type === 'warning'),
@@ -105,6 +117,7 @@ export async function POST(req: NextRequest) {
       // Plain text / Markdown
       result = {
         text: buffer.toString('utf-8'),
+        format: fileName.endsWith('.md') || fileName.endsWith('.markdown') || fileType === 'text/markdown' ? 'markdown' : 'text',
       };
     } else if (
       fileType === 'text/csv' ||
@@ -228,6 +241,59 @@ export async function POST(req: NextRequest) {
   }
 }
 
+/**
+ * Text of a PDF page, with a line break wherever the baseline moves
+ * (pdf-parse's default page renderer)
+ */
+async function renderPdfPage(pageData: any): Promise<string> {
+  const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+  let lastY: number | undefined;
+  let text = '';
+  for (const item of textContent.items) {
+    text += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+    lastY = item.transform[5];
+  }
+  return text;
+}
+
+/**
+ * Markdown for mammoth's DOCX HTML: headings, paragraphs, lists and tables
+ */
+function htmlToMarkdown(html: string): string {
+  const $ = cheerio.load(html);
+  const cellText = (cell: any) => $(cell).text().replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim();
+  const blocks: string[] = [];
+
+  $('body').children().each((_, element) => {
+    const tag = String($(element).prop('tagName') || '').toLowerCase();
+    const text = $(element).text().trim();
+    if (/^h[1-6]$/.test(tag)) {
+      if (text) blocks.push(`${'#'.repeat(Number(tag[1]))} ${text}`);
+    } else if (tag === 'table') {
+      const rows = $(element)
+        .find('tr')
+        .map((_, row) => `| ${$(row).find('th, td').map((_, cell) => cellText(cell)).get().join(' | ')} |`)
+        .get();
+      if (rows.length > 0) {
+        const columns = $(element).find('tr').first().find('th, td').length;
+        blocks.push([rows[0], `|${' --- |'.repeat(columns)}`, ...rows.slice(1)].join('\n'));
+      }
+    } else if (tag === 'ul' || tag === 'ol') {
+      blocks.push(
+        $(element)
+          .children('li')
+          .map((index, item) => `${tag === 'ol' ? `${index + 1}.` : '-'} ${$(item).text().trim()}`)
+          .get()
+          .join('\n')
+      );
+    } else if (text) {
+      blocks.push(text);
+    }
+  });
+
+  return blocks.join('\n\n');
+}
+
 /**
  * Basic PPTX text extraction from XML
  * This is a simplified implementation - full PPTX parsing would require dedicated libraries
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { refreshModelCatalog, getCatalogModels, getCatalogInfo } from '@/lib/llm/model-catalog';
+
+/**
+ * API endpoint for the model catalog
+ * Used by the UI for the model picker, vision checks and cost estimates
+ * Pass ?refresh=true to reload from OpenRouter immediately
+ */
+export async function GET(req: NextRequest) {
+  try {
+    await refreshModelCatalog(req.nextUrl.searchParams.get('refresh') === 'true');
+    return NextResponse.json({
+      ...getCatalogInfo(),
+      models: getCatalogModels(),
+    });
+  } catch (error) {
+    console.error('Models API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
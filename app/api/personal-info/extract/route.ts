@@ -1,8 +1,83 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { providers } from '@/lib/llm/providers';
 import { Message } from '@/lib/llm/types';
-import { routeAgentToOptimalLLM, getAgentFallbackChain } from '@/lib/llm/agent-router';
+import { runStructuredAgent, getStructuredAgentErrorResponse } from '@/lib/llm/structured-agent';
+import { AllModelsFailedError, StructuredOutputError } from '@/lib/llm/errors';
 import { getExtractionPrompt } from '@/lib/prompts/agent-prompts';
+import { JSONSchema } from '@/lib/utils/json-schema';
+
+const nullableString: JSONSchema = { type: ['string', 'null'] };
+
+/**
+ * Shape of the extracted data (matches the format in getExtractionPrompt)
+ */
+const PERSONAL_INFO_SCHEMA: JSONSchema = {
+  type: 'object',
+  required: ['contact'],
+  properties: {
+    contact: {
+      type: 'object',
+      properties: {
+        name: nullableString,
+        email: nullableString,
+        phone: nullableString,
+        location: nullableString,
+        linkedin: nullableString,
+        github: nullableString,
+        website: nullableString,
+      },
+    },
+    experience: {
+      type: 'array',
+      default: [],
+      items: {
+        type: 'object',
+        required: ['title', 'company'],
+        properties: {
+          title: { type: 'string' },
+          company: { type: 'string' },
+          location: nullableString,
+          startDate: nullableString,
+          endDate: nullableString,
+          description: nullableString,
+        },
+      },
+    },
+    education: {
+      type: 'array',
+      default: [],
+      items: {
+        type: 'object',
+        required: ['degree', 'institution'],
+        properties: {
+          degree: { type: 'string' },
+          institution: { type: 'string' },
+          location: nullableString,
+          graduationDate: nullableString,
+          gpa: nullableString,
+          description: nullableString,
+        },
+      },
+    },
+    skills: { type: 'array', default: [], items: { type: 'string' } },
+    projects: {
+      type: 'array',
+      default: [],
+      items: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string' },
+          description: nullableString,
+          technologies: { type: 'array', items: { type: 'string' } },
+          url: nullableString,
+        },
+      },
+    },
+    achievements: { type: 'array', default: [], items: { type: 'string' } },
+    summary: { ...nullableString, default: null },
+  },
+};
 
 /**
  * Extract structured personal information from uploaded files
@@ -13,6 +88,8 @@ export async function POST(req: NextRequest) {
     const formData = await req.formData();
     const file = formData.get('file') as File;
     const fileType = formData.get('fileType') as string || file.type;
+    const budgetOverride = formData.get('budgetOverride') === 'true';
+    const bypassCache = formData.get('bypassCache') === 'true';
 
     if (!file) {
       return NextResponse.json(
@@ -93,11 +170,6 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Use agent-specific routing for extraction
-    // Optimal: GPT-4o (fast multimodal, excellent structured output)
-    const config = routeAgentToOptimalLLM('extract', {});
-    const fallbackChain = getAgentFallbackChain('extract');
-
     // Use optimized extraction prompt
     const extractionPrompt = getExtractionPrompt(textContent);
 
@@ -123,106 +195,45 @@ export async function POST(req: NextRequest) {
       },
     ];
 
-    // Use agent config (GPT-4o optimal for extraction)
-    const modelsToTry = [config, ...fallbackChain].map(c => c.model);
-    let response;
-    let lastError: Error | null = null;
-    const triedModels: string[] = [];
-
-    for (const model of modelsToTry) {
-      if (triedModels.includes(model)) continue;
-
-      try {
-        triedModels.push(model);
-        const modelConfig = [config, ...fallbackChain].find(c => c.model === model) || config;
-
-        response = await openRouterProvider.call(messages, {
-          model,
-          temperature: modelConfig.temperature,
-          maxTokens: modelConfig.maxTokens || 8192,
-          stream: false,
-        });
-        
-        break;
-      } catch (error: any) {
-        lastError = error;
-        const errorMessage = error?.message || String(error);
-        
-        console.warn(`[Personal Info Extract] ${model} failed: ${errorMessage}`);
-        
-        // Try next model in fallback chain
-        if (modelsToTry.indexOf(model) < modelsToTry.length - 1) {
-          continue;
-        }
-        
-        // If this was the last model, throw the error
-        throw error;
-      }
-    }
-
-    if (!response) {
-      throw lastError || new Error('All models failed for extraction');
-    }
-
-    // Parse the response (LLMResponse has a content field)
-    let extractedData: any;
+    // Agent-specific routing with fallback; optimal: GPT-4o (fast multimodal, excellent structured output)
+    let extraction;
     try {
-      // The response should be an LLMResponse with a content field
-      const responseText = response.content || '';
-
-      if (!responseText) {
-        throw new Error('Empty response from AI');
-      }
-
-      // Remove markdown code blocks if present
-      const jsonMatch = responseText.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/) || 
-                       responseText.match(/(\{[\s\S]*\})/);
-      
-      if (jsonMatch) {
-        extractedData = JSON.parse(jsonMatch[1]);
-      } else {
-        extractedData = JSON.parse(responseText);
+      extraction = await runStructuredAgent('extract', messages, {
+        name: 'personal_info',
+        schema: PERSONAL_INFO_SCHEMA,
+      }, {
+        maxTokens: 8192,
+        budgetOverride,
+        bypassCache,
+        logTag: 'Personal Info Extract',
+      });
+    } catch (error) {
+      // Every model replied, but none with data matching the schema
+      if (error instanceof AllModelsFailedError && error.lastError instanceof StructuredOutputError) {
+        return NextResponse.json(
+          { 
+            error: 'Failed to extract structured data',
+            details: 'AI response did not match the expected format. Please try uploading a different file or manually enter your information.',
+            rawText: textContent.substring(0, 1000) // Return first 1000 chars as fallback
+          },
+          { status: 500 }
+        );
       }
-    } catch (parseError) {
-      console.error('Failed to parse extraction response:', parseError);
-      console.error('Response:', response);
-      return NextResponse.json(
-        { 
-          error: 'Failed to extract structured data',
-          details: 'AI response could not be parsed as JSON. Please try uploading a different file or manually enter your information.',
-          rawText: textContent.substring(0, 1000) // Return first 1000 chars as fallback
-        },
-        { status: 500 }
-      );
+      throw error;
     }
+    const { data: extractedData, cached } = extraction;
 
     return NextResponse.json({
       success: true,
       data: extractedData,
+      cached,
       rawText: textContent.substring(0, 500), // Include first 500 chars for reference
     });
 
     } catch (error: any) {
       console.error('Extraction error:', error);
-      
-      // Check for authentication errors
-      if (error.message?.includes('Invalid Authentication') || error.message?.includes('401') || error.message?.includes('403') || error.message?.includes('Authentication Failed') || error.message?.includes('OPEN_ROUTER_KEY')) {
-        return NextResponse.json(
-          { 
-            error: 'API authentication failed',
-            details: error.message || 'Please check that OPEN_ROUTER_KEY is set correctly in Vercel environment variables and you have redeployed after adding it.'
-          },
-          { status: 401 }
-        );
-      }
-      
-      return NextResponse.json(
-        { 
-          error: 'Failed to extract information',
-          details: error.message || String(error)
-        },
-        { status: 500 }
-      );
+
+      const { status, body } = getStructuredAgentErrorResponse(error, 'extract information');
+      return NextResponse.json(body, { status });
     }
 }
-
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { providers } from '@/lib/llm/providers';
+import { getHealthSnapshot } from '@/lib/llm/health';
 
 /**
  * API endpoint to get available providers
- * Used by the UI to show only available models
+ * Used by the UI to show only available models and grey out unhealthy ones
  */
 export async function GET(req: NextRequest) {
   try {
@@ -18,6 +19,7 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({
       providers: available,
       allAvailable: available.length > 0,
+      health: getHealthSnapshot(),
     });
   } catch (error) {
     console.error('Providers API error:', error);
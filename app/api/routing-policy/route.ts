@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  DEFAULT_ROUTING_POLICY,
+  getRoutingPolicy,
+  updateRoutingPolicy,
+  validateRoutingPolicyChanges,
+} from '@/lib/llm/routing-policy';
+import { refreshModelCatalog, getCatalogModels } from '@/lib/llm/model-catalog';
+import { formatSchemaErrors } from '@/lib/utils/json-schema';
+
+/**
+ * API endpoint for the routing policy
+ * GET returns the effective policy, the defaults and the models it may use
+ */
+export async function GET(req: NextRequest) {
+  try {
+    await refreshModelCatalog();
+    return NextResponse.json({
+      policy: getRoutingPolicy(),
+      defaults: DEFAULT_ROUTING_POLICY,
+      models: getCatalogModels().map((model) => model.id).sort(),
+    });
+  } catch (error) {
+    console.error('Routing policy API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT replaces rule lists per task or agent type (null restores the default)
+ * Models are validated against the model catalog
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const body = await req.json();
+    await refreshModelCatalog();
+    const validation = validateRoutingPolicyChanges(body);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid routing policy', details: formatSchemaErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ policy: await updateRoutingPolicy(validation.value) });
+  } catch (error) {
+    console.error('Routing policy API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
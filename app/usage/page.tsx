@@ -0,0 +1,297 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { BarChart3, DollarSign, Hash, MessageSquare, Loader2 } from 'lucide-react';
+import { UsageRecord } from '@/lib/db';
+import { getAllConversations } from '@/lib/utils/chat-storage';
+import {
+  getUsageRecords,
+  summarizeUsage,
+  getDailyUsage,
+  groupUsage,
+  getTopConversations,
+  UsageDimension,
+  UsageTotals,
+} from '@/lib/utils/usage-records';
+
+const RANGES = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+];
+
+const DIMENSIONS: Array<{ key: UsageDimension; label: string }> = [
+  { key: 'model', label: 'By Model' },
+  { key: 'taskType', label: 'By Task Type' },
+  { key: 'mode', label: 'By Mode' },
+];
+
+type Metric = 'cost' | 'totalTokens';
+
+function formatCost(cost: number): string {
+  return cost >= 1 ? `$${cost.toFixed(2)}` : `$${cost.toFixed(4)}`;
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}K`;
+  return tokens.toString();
+}
+
+function formatMetric(totals: UsageTotals, metric: Metric): string {
+  return metric === 'cost' ? formatCost(totals.cost) : formatTokens(totals.totalTokens);
+}
+
+export default function UsagePage() {
+  const [days, setDays] = useState(30);
+  const [metric, setMetric] = useState<Metric>('cost');
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [titles, setTitles] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  const since = useMemo(() => {
+    const start = new Date();
+    start.setHours(0, 0, 0, 0);
+    start.setDate(start.getDate() - (days - 1));
+    return start.getTime();
+  }, [days]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    Promise.all([getUsageRecords(since), getAllConversations()])
+      .then(([usage, conversations]) => {
+        if (cancelled) return;
+        setRecords(usage);
+        setTitles(Object.fromEntries(conversations.map((c) => [c.conversationId, c.title])));
+      })
+      .catch((error) => {
+        console.error('Failed to load usage records:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [since]);
+
+  const totals = useMemo(() => summarizeUsage(records), [records]);
+  const daily = useMemo(() => getDailyUsage(records, since), [records, since]);
+  const topConversations = useMemo(() => getTopConversations(records), [records]);
+  const estimatedTurns = records.filter((r) => r.estimated).length;
+  const maxDaily = Math.max(...daily.map((d) => d[metric]), 0);
+
+  return (
+    <div className="h-full overflow-y-auto bg-gray-900 text-white">
+      {/* Header */}
+      <div className="bg-gray-800 border-b border-gray-700">
+        <div className="max-w-7xl mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <Link href="/" className="text-xl font-semibold">
+              Shilo Chat
+            </Link>
+            <Link
+              href="/"
+              className="text-sm text-gray-400 hover:text-white transition-colors"
+            >
+              ← Back to Chat
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-6 py-10 space-y-8">
+        {/* Title and controls */}
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2 flex items-center gap-3">
+              <BarChart3 className="w-7 h-7 text-blue-400" />
+              Usage & Cost
+            </h1>
+            <p className="text-gray-400 text-sm">
+              Spend and token volume recorded for each assistant reply on this device.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="flex bg-gray-800 rounded-lg border border-gray-700 p-1">
+              {RANGES.map((range) => (
+                <button
+                  key={range.days}
+                  onClick={() => setDays(range.days)}
+                  className={`px-3 py-1.5 text-xs rounded-md transition-colors ${
+                    days === range.days ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {range.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex bg-gray-800 rounded-lg border border-gray-700 p-1">
+              <button
+                onClick={() => setMetric('cost')}
+                className={`px-3 py-1.5 text-xs rounded-md transition-colors ${
+                  metric === 'cost' ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                Spend
+              </button>
+              <button
+                onClick={() => setMetric('totalTokens')}
+                className={`px-3 py-1.5 text-xs rounded-md transition-colors ${
+                  metric === 'totalTokens' ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                Tokens
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-24 text-gray-400">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : records.length === 0 ? (
+          <div className="bg-gray-800 rounded-lg p-12 border border-gray-700 text-center text-gray-400">
+            No usage recorded in the last {days} days.
+          </div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="bg-gray-800 rounded-lg p-5 border border-gray-700">
+                <div className="text-sm text-gray-400 flex items-center gap-1.5">
+                  <DollarSign className="w-4 h-4" /> Spend
+                </div>
+                <div className="text-2xl font-semibold mt-1">{formatCost(totals.cost)}</div>
+              </div>
+              <div className="bg-gray-800 rounded-lg p-5 border border-gray-700">
+                <div className="text-sm text-gray-400 flex items-center gap-1.5">
+                  <Hash className="w-4 h-4" /> Tokens
+                </div>
+                <div className="text-2xl font-semibold mt-1">{formatTokens(totals.totalTokens)}</div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {formatTokens(totals.promptTokens)} in / {formatTokens(totals.completionTokens)} out
+                </div>
+                {totals.cacheReadTokens + totals.cacheWriteTokens > 0 && (
+                  <div className="text-xs text-gray-500">
+                    {formatTokens(totals.cacheReadTokens)} cache read / {formatTokens(totals.cacheWriteTokens)} written
+                  </div>
+                )}
+              </div>
+              <div className="bg-gray-800 rounded-lg p-5 border border-gray-700">
+                <div className="text-sm text-gray-400 flex items-center gap-1.5">
+                  <MessageSquare className="w-4 h-4" /> Replies
+                </div>
+                <div className="text-2xl font-semibold mt-1">{totals.turns}</div>
+                {estimatedTurns > 0 && (
+                  <div className="text-xs text-gray-500 mt-1">{estimatedTurns} with estimated tokens</div>
+                )}
+              </div>
+              <div className="bg-gray-800 rounded-lg p-5 border border-gray-700">
+                <div className="text-sm text-gray-400">Avg per Reply</div>
+                <div className="text-2xl font-semibold mt-1">{formatCost(totals.cost / totals.turns)}</div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {formatTokens(Math.round(totals.totalTokens / totals.turns))} tokens
+                </div>
+              </div>
+            </div>
+
+            {/* Daily chart */}
+            <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+              <h2 className="text-lg font-semibold mb-4">
+                {metric === 'cost' ? 'Daily Spend' : 'Daily Tokens'}
+              </h2>
+              <div className="flex items-end gap-1 h-48">
+                {daily.map((day) => (
+                  <div
+                    key={day.start}
+                    className="flex-1 h-full flex items-end group"
+                    title={`${new Date(day.start).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}: ${formatCost(day.cost)} · ${formatTokens(day.totalTokens)} tokens · ${day.turns} replies`}
+                  >
+                    <div
+                      className="w-full bg-blue-500/70 group-hover:bg-blue-400 rounded-t transition-colors"
+                      style={{ height: maxDaily > 0 ? `${(day[metric] / maxDaily) * 100}%` : 0 }}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-gray-500 mt-2">
+                <span>{new Date(since).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}</span>
+                <span>Peak: {metric === 'cost' ? formatCost(maxDaily) : formatTokens(maxDaily)}</span>
+                <span>Today</span>
+              </div>
+            </div>
+
+            {/* Breakdowns */}
+            <div className="grid md:grid-cols-3 gap-6">
+              {DIMENSIONS.map((dimension) => {
+                const groups = groupUsage(records, dimension.key);
+                const total = metric === 'cost' ? totals.cost : totals.totalTokens;
+                return (
+                  <div key={dimension.key} className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+                    <h2 className="text-lg font-semibold mb-4">{dimension.label}</h2>
+                    <div className="space-y-3">
+                      {groups.map((group) => (
+                        <div key={group.key}>
+                          <div className="flex items-center justify-between text-sm mb-1">
+                            <span className="text-gray-300 truncate pr-2" title={group.key}>{group.key}</span>
+                            <span className="text-gray-400 flex-shrink-0">{formatMetric(group, metric)}</span>
+                          </div>
+                          <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                            <div
+                              className="h-full bg-purple-500"
+                              style={{ width: total > 0 ? `${(group[metric] / total) * 100}%` : 0 }}
+                            />
+                          </div>
+                          <div className="text-xs text-gray-500 mt-1">{group.turns} replies</div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Most expensive conversations */}
+            <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+              <h2 className="text-lg font-semibold mb-4">Most Expensive Conversations</h2>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-gray-700">
+                    <th className="pb-2 font-medium">Conversation</th>
+                    <th className="pb-2 font-medium text-right">Replies</th>
+                    <th className="pb-2 font-medium text-right">Tokens</th>
+                    <th className="pb-2 font-medium text-right">Spend</th>
+                    <th className="pb-2 font-medium text-right">Last Used</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {topConversations.map((conversation) => (
+                    <tr key={conversation.conversationId} className="border-b border-gray-700/50 last:border-0">
+                      <td className="py-2 pr-4 text-gray-300 truncate max-w-xs">
+                        {titles[conversation.conversationId] || (
+                          <span className="text-gray-500 italic">Deleted conversation</span>
+                        )}
+                      </td>
+                      <td className="py-2 text-right text-gray-400">{conversation.turns}</td>
+                      <td className="py-2 text-right text-gray-400">{formatTokens(conversation.totalTokens)}</td>
+                      <td className="py-2 text-right font-medium">{formatCost(conversation.cost)}</td>
+                      <td className="py-2 text-right text-gray-500">
+                        {new Date(conversation.lastUsed).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
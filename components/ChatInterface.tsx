@@ -1,13 +1,14 @@
 'use client';
 
 import React, { useState, useRef, useEffect, useMemo, useCallback, startTransition } from 'react';
-import { Send, Loader2, FileText, X, Search, Code, Zap, Brain, Sparkles, TrendingUp, Globe, MessageSquare, Plus, Menu, Settings, Image as ImageIcon, Copy, Trash2, RefreshCw, Download, Paperclip, User, Edit2, DollarSign, Calendar, ChevronDown, CheckSquare, Square, ArrowDown, AlertTriangle, BookOpen } from 'lucide-react';
+import { Send, Loader2, FileText, X, Search, Code, Zap, Brain, Sparkles, TrendingUp, Globe, MessageSquare, Plus, Menu, Settings, Image as ImageIcon, Copy, Trash2, RefreshCw, Download, Paperclip, User, Edit2, DollarSign, Calendar, ChevronDown, CheckSquare, Square, ArrowDown, AlertTriangle, BookOpen, BarChart3 } from 'lucide-react';
 import MessageContent from './MessageContent';
 import toast from 'react-hot-toast';
 import PdfUpload from './PdfUpload';
 import PersonalInfoManager from './PersonalInfo';
 import ResumeCustomizer from './ResumeCustomizer';
 import FundingErrorModal from './FundingErrorModal';
+import RoutingPolicyEditor from './RoutingPolicyEditor';
 import { 
   createConversation, 
   saveMessage, 
@@ -19,11 +20,17 @@ import {
 import { normalizeForClipboard, normalizeOnPaste } from '@/lib/utils/text-normalization';
 import { compressImages, estimateImageTokens } from '@/lib/utils/image-compression';
 import { db, Conversation } from '@/lib/db';
+import type { CitationSource } from '@/lib/utils/citations';
+import type { RAGChunk } from '@/lib/types/api';
 import { 
   incrementMessageCount,
   getUsageData 
 } from '@/lib/utils/usage-tracker';
-// import { calculateOpenRouterCost } from '@/lib/llm/openrouter-models';
+import { calculateOpenRouterCost } from '@/lib/llm/openrouter-models';
+import { getPickerModels, loadCatalogModels, supportsVision } from '@/lib/llm/model-catalog';
+import { recordUsage } from '@/lib/utils/usage-records';
+import { fetchWithBudgetOverride } from '@/lib/utils/budget-override';
+import type { ModelHealth } from '@/lib/llm/health';
 
 interface Message {
   id: string;
@@ -31,9 +38,11 @@ interface Message {
   content: string;
   timestamp?: number;
   images?: string[]; // Base64 image data
-  sources?: Array<{ documentName: string; text: string }>;
+  sources?: CitationSource[]; // Numbered sources the reply can cite as [n]
   metadata?: {
     taskType?: string;
+    taskConfidence?: number;
+    classifier?: string; // How taskType was chosen: 'llm', 'embedding' or 'rules'
     model?: string;
     provider?: string;
     providerName?: string;
@@ -41,6 +50,7 @@ interface Message {
     costPer1M?: number;
     usedFallback?: boolean;
     fallbackReason?: string;
+    stopped?: boolean; // Generation was stopped by the user; content is partial
     fallbackUsage?: {
       provider: string;
       usage: {
@@ -54,6 +64,8 @@ interface Message {
       promptTokens?: number;
       completionTokens?: number;
       totalTokens?: number;
+      cacheReadTokens?: number; // Prompt tokens served from the provider's prompt cache
+      cacheWriteTokens?: number;
     };
   };
 }
@@ -64,20 +76,131 @@ interface CostData {
   lastReset: number;
 }
 
+const MAX_RESUME_ATTEMPTS = 3;
+
+/**
+ * Reconnect to an in-flight generation after the connection dropped
+ * Returns a reader for the events after lastEventId, or null if it can't be resumed
+ */
+async function resumeGeneration(
+  generationId: string,
+  lastEventId: string,
+  signal: AbortSignal
+): Promise<ReadableStreamDefaultReader<Uint8Array> | null> {
+  for (let attempt = 1; attempt <= MAX_RESUME_ATTEMPTS; attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 1000 * attempt));
+    if (signal.aborted) return null;
+    try {
+      const response = await fetch(`/api/chat/generations/${generationId}`, {
+        headers: { 'Last-Event-ID': lastEventId },
+        signal,
+      });
+      if (response.status === 404) return null; // Expired
+      if (response.ok && response.body) return response.body.getReader();
+    } catch (error: any) {
+      if (error?.name === 'AbortError') return null;
+      // Still offline - retry
+    }
+  }
+  return null;
+}
+
+/**
+ * Read a generation's events until it finishes, resuming after a dropped connection
+ * Events other than 'stopped' are passed to onEvent
+ * @returns Whether the reply was stopped (here, or server-side from another tab)
+ */
+async function readGenerationStream(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  generationId: string | null,
+  signal: AbortSignal,
+  onEvent: (event: any) => void
+): Promise<{ stopped: boolean }> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let stopped = false;
+  let finished = false; // [DONE], error or stopped event received
+  let lastEventId = '0';
+  let resumes = 0;
+  // Swapped for a resumed reader if the connection drops
+  let streamReader = reader;
+
+  // Resume after a dropped connection; null when it can't be resumed
+  const resume = async () => {
+    if (!generationId || resumes >= MAX_RESUME_ATTEMPTS) return null;
+    resumes++;
+    const resumed = await resumeGeneration(generationId, lastEventId, signal);
+    if (resumed) buffer = '';
+    return resumed;
+  };
+
+  while (true) {
+    let result: ReadableStreamReadResult<Uint8Array>;
+    try {
+      result = await streamReader.read();
+    } catch (error: any) {
+      if (error?.name === 'AbortError' || signal.aborted) {
+        return { stopped: true };
+      }
+      const resumed = await resume();
+      if (!resumed) throw error;
+      streamReader = resumed;
+      continue;
+    }
+    const { done, value } = result;
+    if (done) {
+      // Closed before the reply finished: the connection dropped
+      const resumed = finished ? null : await resume();
+      if (resumed) {
+        streamReader = resumed;
+        continue;
+      }
+      return { stopped };
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (line.startsWith('id: ')) {
+        lastEventId = line.slice(4).trim(); // Resume point if the connection drops
+      } else if (line.startsWith('data: ')) {
+        const data = line.slice(6).trim();
+        if (data === '[DONE]') finished = true;
+        if (data === '[DONE]' || !data) continue;
+
+        let parsed: any;
+        try {
+          parsed = JSON.parse(data);
+        } catch {
+          continue; // Failed to parse SSE data - skipping chunk
+        }
+        if (parsed.type === 'stopped') {
+          // Stopped server-side (stop button in another tab, or abandoned)
+          finished = true;
+          stopped = true;
+        } else {
+          if (parsed.type === 'error') finished = true;
+          onEvent(parsed);
+        }
+      }
+    }
+  }
+}
+
 // Model options will be loaded dynamically based on available providers
-const DEFAULT_MODEL_OPTIONS = [
-  { value: '', label: 'Auto-select (Kimi K2 default)' },
-  { value: 'moonshotai/kimi-k2-turbo-preview', label: 'Kimi K2 (Default)' },
-  { value: 'groq/llama-3.1-8b-instant', label: 'Llama 8B (Fastest)' },
-  { value: 'groq/llama-3.3-70b-versatile', label: 'Llama 70B (Balanced)' },
-  { value: 'google/gemini-2.0-flash-exp:free', label: 'Gemini 2.0 (Vision - Best)' },
-  { value: 'openai/gpt-4o', label: 'GPT-4o (Vision)' },
-  { value: 'anthropic/claude-3.5-sonnet', label: 'Claude 3.5 Sonnet (Vision/Files)' },
-  { value: 'anthropic/claude-3.5-haiku', label: 'Claude 3.5 Haiku (Vision - Cheaper)' },
-  { value: 'perplexity/sonar', label: 'Perplexity Sonar (Search)' },
-  { value: 'perplexity/sonar-pro', label: 'Perplexity Pro (Research)' },
+const AUTO_SELECT_OPTION = { value: '', label: 'Auto-select (Kimi K2 default)' };
+
+// Picker options come from the model catalog's featured models
+const getDefaultModelOptions = () => [
+  AUTO_SELECT_OPTION,
+  ...getPickerModels().map((model) => ({ value: model.id, label: model.label || model.name })),
 ];
 
+// How often the model picker refreshes provider health
+const HEALTH_REFRESH_MS = 60 * 1000;
+
 const PROVIDER_COLORS: Record<string, string> = {
   groq: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
   kimi: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
@@ -126,11 +249,13 @@ export default function ChatInterface() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null); // Stops the in-flight /api/chat request
+  const generationIdRef = useRef<string | null>(null); // Server-side ID of the reply being streamed
   const [useRAG, setUseRAG] = useState(true);
   const [userOverride, setUserOverride] = useState('');
   const [activeTools, setActiveTools] = useState<string[]>([]);
   const [executingTools, setExecutingTools] = useState<string[]>([]);
-  const [modelOptions, setModelOptions] = useState(DEFAULT_MODEL_OPTIONS);
+  const [modelOptions, setModelOptions] = useState(getDefaultModelOptions);
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [showSidebar, setShowSidebar] = useState(true);
@@ -189,6 +314,8 @@ export default function ChatInterface() {
   const [editingMessageContent, setEditingMessageContent] = useState('');
   const [monthlyBudget, setMonthlyBudget] = useState<number | null>(null);
   const [budgetAlertsShown, setBudgetAlertsShown] = useState<Set<number>>(new Set());
+  const [agentBudgets, setAgentBudgets] = useState<Record<string, number | null>>({});
+  const [modelHealth, setModelHealth] = useState<Record<string, ModelHealth>>({});
 
   // Auto-resize textarea based on content (expands up to 1/3 of viewport height)
   useEffect(() => {
@@ -296,6 +423,43 @@ export default function ChatInterface() {
     }
   }, []);
 
+  // Load the server-side budget policy (enforced by the router)
+  useEffect(() => {
+    fetch('/api/budget')
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data.policy) return;
+        setAgentBudgets(data.policy.agentLimits || {});
+        const stored = localStorage.getItem('monthlyBudget');
+        if (data.policy.monthlyLimit) {
+          setMonthlyBudget(data.policy.monthlyLimit);
+          localStorage.setItem('monthlyBudget', data.policy.monthlyLimit.toString());
+        } else if (stored) {
+          // Budget set before enforcement existed - push it to the server
+          saveBudgetPolicy({ monthlyLimit: parseFloat(stored) });
+        }
+      })
+      .catch(() => {
+        // Budget API unavailable - client-side alerts still work
+      });
+  }, []);
+
+  const saveBudgetPolicy = async (changes: {
+    monthlyLimit?: number | null;
+    agentLimits?: Record<string, number | null>;
+  }) => {
+    try {
+      const res = await fetch('/api/budget', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      if (!res.ok) throw new Error((await res.json()).details || 'Failed to save budget');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save budget');
+    }
+  };
+
   // Check budget and show alerts
   useEffect(() => {
     if (monthlyBudget && costData.monthly > 0) {
@@ -332,6 +496,18 @@ export default function ChatInterface() {
   // Load available providers on mount
   useEffect(() => {
     const loadAvailableProviders = async () => {
+      // Load the server's model catalog first so labels, prices and vision flags are current
+      try {
+        const response = await fetch('/api/models');
+        const catalog = await response.json();
+        if (catalog.models) {
+          loadCatalogModels(catalog.models, catalog.source, catalog.updatedAt);
+          setModelOptions(getDefaultModelOptions());
+        }
+      } catch (error) {
+        // Keep the bundled catalog snapshot
+      }
+
       try {
         const response = await fetch('/api/providers');
         const data = await response.json();
@@ -340,7 +516,7 @@ export default function ChatInterface() {
           const availableKeys = new Set(data.providers.map((p: any) => p.key));
           
           // Filter model options to only show available providers
-          const filtered = DEFAULT_MODEL_OPTIONS.filter((opt) => {
+          const filtered = getDefaultModelOptions().filter((opt) => {
             if (opt.value === '') return true; // Always show auto-select
             const provider = opt.value.split('/')[0];
             return availableKeys.has(provider);
@@ -348,6 +524,7 @@ export default function ChatInterface() {
           
           setModelOptions(filtered);
         }
+        storeModelHealth(data.health);
       } catch (error) {
         // Failed to load available providers - using defaults
         // Keep default options if API fails
@@ -374,6 +551,33 @@ export default function ChatInterface() {
       }
   }, []);
 
+  // Refresh model health so the picker reflects open circuits
+  useEffect(() => {
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch('/api/providers');
+        const data = await response.json();
+        storeModelHealth(data.health);
+      } catch (error) {
+        // Keep the last known health
+      }
+    }, HEALTH_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const storeModelHealth = (health?: ModelHealth[]) => {
+    if (!health) return;
+    setModelHealth(Object.fromEntries(health.map((h) => [h.model, h])));
+  };
+
+  // Picker label suffix for models the server reports as unhealthy
+  const getModelHealthLabel = (value: string): string => {
+    const status = modelHealth[value]?.status;
+    if (status === 'down') return ' (unavailable)';
+    if (status === 'degraded') return ' (degraded)';
+    return '';
+  };
+
   // Load conversations list
   const loadConversations = async () => {
     try {
@@ -693,6 +897,85 @@ export default function ChatInterface() {
     return '📎';
   };
 
+  /**
+   * Stop generating: aborts the request, which cancels the upstream model call
+   */
+  const handleStop = () => {
+    // The generation runs server-side independently of this connection, so stop it there too
+    const generationId = generationIdRef.current;
+    if (generationId) {
+      fetch(`/api/chat/generations/${generationId}`, { method: 'DELETE' }).catch(() => {});
+    }
+    abortControllerRef.current?.abort();
+  };
+
+  /**
+   * Add a finished assistant turn to the session cost and the usage records
+   * Uses the usage the provider reported, otherwise an estimate from the prompt and reply
+   */
+  const recordTurnUsage = async (
+    convId: string | null,
+    message: Message,
+    promptText: string,
+    imageCount: number,
+    timing: { latencyMs?: number; timeToFirstTokenMs?: number }
+  ) => {
+    if (!message.metadata?.model) return;
+    const reported = message.metadata.usage;
+    const estimated = !reported?.totalTokens;
+    let promptTokens: number;
+    let completionTokens: number;
+    let cacheReadTokens: number | undefined;
+    let cacheWriteTokens: number | undefined;
+
+    if (!estimated) {
+      promptTokens = reported!.promptTokens || 0;
+      completionTokens = reported!.completionTokens || 0;
+      // Cached prompt tokens are billed at the model's cache prices
+      cacheReadTokens = reported!.cacheReadTokens;
+      cacheWriteTokens = reported!.cacheWriteTokens;
+    } else {
+      // Account for system prompts and context (rough estimate: ~500-1000 tokens)
+      const contextTokens = 750; // Average system prompt + context overhead
+      // Account for images if present (each image adds significant tokens)
+      const imageTokens = imageCount * 170; // ~170 tokens per image (base64 encoded)
+      promptTokens = estimateTokens(promptText) + contextTokens + imageTokens;
+      completionTokens = estimateTokens(message.content);
+    }
+
+    const cost = calculateOpenRouterCost(
+      { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, cacheReadTokens, cacheWriteTokens },
+      message.metadata.model
+    );
+
+    setCostData((prev) => ({
+      ...prev,
+      session: prev.session + cost,
+      monthly: prev.monthly + cost,
+    }));
+
+    if (convId) {
+      try {
+        await recordUsage({
+          conversationId: convId,
+          messageId: message.id,
+          model: message.metadata.model,
+          provider: message.metadata.provider || 'openrouter',
+          taskType: message.metadata.taskType,
+          mode,
+          promptTokens,
+          completionTokens,
+          cacheReadTokens,
+          cacheWriteTokens,
+          estimated,
+          ...timing,
+        });
+      } catch (error) {
+        // Usage logging is non-critical
+      }
+    }
+  };
+
   const handleSend = async () => {
     if ((!input.trim() && selectedImages.length === 0 && attachedFiles.length === 0) || isLoading) return;
 
@@ -751,6 +1034,8 @@ export default function ChatInterface() {
     setIsLoading(true);
     setActiveTools([]);
     setExecutingTools([]);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
     try {
       // Compress images before sending to reduce token usage
@@ -844,8 +1129,20 @@ export default function ChatInterface() {
         // Continue without memory if it fails
       }
 
+      // Retrieve document chunks on client side; the server reranks and numbers them
+      let ragContext: RAGChunk[] = [];
+      if (useRAG) {
+        try {
+          const { getRAGContext } = await import('@/lib/utils/search');
+          ragContext = await getRAGContext(input);
+        } catch (error) {
+          console.error('RAG retrieval error:', error);
+          // Continue without documents if it fails
+        }
+      }
+
       // Call the new intelligent chat API
-      const response = await fetch('/api/chat', {
+      const response = await fetchWithBudgetOverride('/api/chat', (budgetOverride) => ({
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -864,8 +1161,11 @@ export default function ChatInterface() {
           deepWebSearch, // Pass deep web search flag
           personalInfoContext, // Include personal info context
           memoryContext, // Include persistent memory context
+          ragContext, // Document chunks retrieved above
+          budgetOverride, // Set after the user confirms sending past the monthly budget
         }),
-      });
+        signal: abortController.signal,
+      }));
 
       if (!response.ok) {
         const error = await response.json();
@@ -875,7 +1175,8 @@ export default function ChatInterface() {
 
       // Stream response
       const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
+      const generationId = response.headers.get('X-Generation-Id');
+      generationIdRef.current = generationId;
       let assistantMessage: Message = {
         id: (Date.now() + 1).toString(),
         role: 'assistant',
@@ -898,10 +1199,10 @@ export default function ChatInterface() {
       });
 
       if (reader) {
-        let buffer = '';
         let contentBuffer = ''; // Buffer content updates to batch them
         let updateScheduled = false;
-        
+        let turnTiming: { latencyMs?: number; timeToFirstTokenMs?: number } = {};
+
         // Batched update function
         const flushContentUpdate = () => {
           if (contentBuffer) {
@@ -918,156 +1219,149 @@ export default function ChatInterface() {
           updateScheduled = false;
         };
         
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) {
-            flushContentUpdate(); // Flush any remaining content
-            break;
+        const { stopped } = await readGenerationStream(reader, generationId, abortController.signal, (parsed) => {
+          if (parsed.type === 'tool_call') {
+            // Model requested a tool - show it as executing until its result arrives
+            setExecutingTools((prev) => [...prev, parsed.name]);
+            return;
           }
 
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              const data = line.slice(6).trim();
-              if (data === '[DONE]' || !data) continue;
-
-              try {
-                const parsed = JSON.parse(data);
-
-                if (parsed.type === 'tool_execution') {
-                  // Handle tool execution status
-                  if (parsed.status === 'executing') {
-                    setExecutingTools(parsed.tools || []);
-                  } else if (parsed.status === 'complete') {
-                    // Keep tools visible briefly, then clear when response starts
-                    setTimeout(() => setExecutingTools([]), 500);
-                  }
-                  continue;
-                }
-
-                if (parsed.type === 'metadata') {
-                  // Update message with metadata
-                  assistantMessage.metadata = {
-                    taskType: parsed.taskType,
-                    model: parsed.model,
-                    provider: parsed.provider,
-                    providerName: parsed.providerName,
-                    toolsUsed: parsed.toolsUsed || [],
-                    costPer1M: parsed.costPer1M,
-                    usedFallback: parsed.usedFallback,
-                    fallbackReason: parsed.fallbackReason,
-                  };
-                  setActiveTools(parsed.toolsUsed || []);
-                  setExecutingTools([]); // Clear executing tools when response starts
-
-                  // Show notification if fallback was used
-                  if (parsed.usedFallback && parsed.fallbackReason) {
-                    toast.success(`Upgraded to ${parsed.providerName} for better quality`, {
-                      duration: 3000,
-                    });
-                  }
-
-                  // Update UI
-                  startTransition(() => {
-                    setMessages((prev) => {
-                      const updated = [...prev];
-                      updated[updated.length - 1] = { ...assistantMessage };
-                      return updated;
-                    });
-                  });
-                } else if (parsed.type === 'error') {
-                  // Handle error from stream
-                  assistantMessage.content = `❌ Error: ${parsed.error}`;
-                  startTransition(() => {
-                    setMessages((prev) => {
-                      const updated = [...prev];
-                      updated[updated.length - 1] = { ...assistantMessage };
-                      return updated;
-                    });
-                  });
-                  setIsLoading(false);
-                  shouldAutoScrollRef.current = false;
-                  break;
-                } else if (parsed.type === 'content') {
-                  // Buffer content updates and batch them
-                  contentBuffer += parsed.content;
-                  
-                  // Schedule update if not already scheduled (throttle to ~60fps)
-                  if (!updateScheduled) {
-                    updateScheduled = true;
-                    requestAnimationFrame(() => {
-                      flushContentUpdate();
-                    });
-                  }
-                } else if (parsed.type === 'usage' && parsed.usage) {
-                  // Store actual usage data if provided by API
-                  assistantMessage.metadata = {
-                    ...assistantMessage.metadata,
-                    usage: parsed.usage,
-                  };
-                } else if (parsed.type === 'fallback_usage' && parsed.usage) {
-                  // Track usage from the initial Groq attempt (for cost calculation)
-                  // This is the cost of the failed Groq attempt
-                  const groqTokens = parsed.usage.totalTokens || 0;
-                  const groqCost = estimateCost(groqTokens, parsed.costPer1M || 0.05);
-                  
-                  // Add to cost tracking
-                  setCostData((prev) => ({
-                    ...prev,
-                    session: prev.session + groqCost,
-                    monthly: prev.monthly + groqCost,
-                  }));
-
-                  // Store fallback usage in metadata
-                  assistantMessage.metadata = {
-                    ...assistantMessage.metadata,
-                    fallbackUsage: {
-                      provider: parsed.provider,
-                      usage: parsed.usage,
-                      cost: groqCost,
-                    },
-                  };
-                }
-              } catch (e) {
-                // Failed to parse SSE data - skipping chunk
-              }
+          if (parsed.type === 'tool_result') {
+            setExecutingTools((prev) => {
+              const index = prev.indexOf(parsed.name);
+              return index === -1 ? prev : [...prev.slice(0, index), ...prev.slice(index + 1)];
+            });
+            const toolsUsed = assistantMessage.metadata?.toolsUsed || [];
+            if (!toolsUsed.includes(parsed.name)) {
+              assistantMessage.metadata = {
+                ...assistantMessage.metadata,
+                toolsUsed: [...toolsUsed, parsed.name],
+              };
+              setActiveTools(assistantMessage.metadata.toolsUsed || []);
             }
+            return;
           }
-        }
 
-        // Calculate and update cost (use actual usage if available, otherwise estimate)
-        if (assistantMessage.metadata?.costPer1M) {
-          let totalTokens: number;
-          
-          // Use actual token usage if available from API
-          if (assistantMessage.metadata.usage?.totalTokens) {
-            totalTokens = assistantMessage.metadata.usage.totalTokens;
-          } else {
-            // Fallback to improved estimation
-            const inputTokens = estimateTokens(input);
-            const outputTokens = estimateTokens(assistantMessage.content);
-            
-            // Account for system prompts and context (rough estimate: ~500-1000 tokens)
-            const contextTokens = 750; // Average system prompt + context overhead
-            
-            // Account for images if present (each image adds significant tokens)
-            const imageTokens = selectedImages.length * 170; // ~170 tokens per image (base64 encoded)
-            
-            totalTokens = inputTokens + outputTokens + contextTokens + imageTokens;
+          if (parsed.type === 'sources') {
+            // Sources the reply can cite; null when the model numbers its own search results
+            assistantMessage.sources = parsed.sources ?? undefined;
+            startTransition(() => {
+              setMessages((prev) => {
+                const updated = [...prev];
+                updated[updated.length - 1] = { ...assistantMessage };
+                return updated;
+              });
+            });
+            return;
           }
-          
-          const cost = estimateCost(totalTokens, assistantMessage.metadata.costPer1M);
-          
-          setCostData((prev) => ({
-            ...prev,
-            session: prev.session + cost,
-            monthly: prev.monthly + cost,
-          }));
+
+          if (parsed.type === 'metadata') {
+            // Update message with metadata
+            assistantMessage.metadata = {
+              taskType: parsed.taskType,
+              taskConfidence: parsed.taskConfidence,
+              classifier: parsed.classifier,
+              model: parsed.model,
+              provider: parsed.provider,
+              providerName: parsed.providerName,
+              toolsUsed: parsed.toolsUsed || [],
+              costPer1M: parsed.costPer1M,
+              usedFallback: parsed.usedFallback,
+              fallbackReason: parsed.fallbackReason,
+            };
+            setActiveTools(parsed.toolsUsed || []);
+            setExecutingTools([]); // Clear executing tools when response starts
+
+            // Show notification when a fallback model took over
+            if (parsed.usedFallback && parsed.fallbackReason) {
+              toast(parsed.fallbackReason, {
+                icon: '↪️',
+                duration: 4000,
+              });
+            }
+
+            // Update UI
+            startTransition(() => {
+              setMessages((prev) => {
+                const updated = [...prev];
+                updated[updated.length - 1] = { ...assistantMessage };
+                return updated;
+              });
+            });
+          } else if (parsed.type === 'error') {
+            // Handle error from stream
+            assistantMessage.content = `❌ Error: ${parsed.error}`;
+            startTransition(() => {
+              setMessages((prev) => {
+                const updated = [...prev];
+                updated[updated.length - 1] = { ...assistantMessage };
+                return updated;
+              });
+            });
+            setIsLoading(false);
+            shouldAutoScrollRef.current = false;
+          } else if (parsed.type === 'content') {
+            // Buffer content updates and batch them
+            contentBuffer += parsed.content;
+
+            // Schedule update if not already scheduled (throttle to ~60fps)
+            if (!updateScheduled) {
+              updateScheduled = true;
+              requestAnimationFrame(() => {
+                flushContentUpdate();
+              });
+            }
+          } else if (parsed.type === 'usage') {
+            // Store actual usage data if provided by API (null when the provider sent none)
+            if (parsed.usage) {
+              assistantMessage.metadata = {
+                ...assistantMessage.metadata,
+                usage: parsed.usage,
+              };
+            }
+            turnTiming = {
+              latencyMs: parsed.latencyMs ?? undefined,
+              timeToFirstTokenMs: parsed.timeToFirstTokenMs ?? undefined,
+            };
+          } else if (parsed.type === 'fallback_usage' && parsed.usage) {
+            // Track usage from the initial Groq attempt (for cost calculation)
+            // This is the cost of the failed Groq attempt
+            const groqTokens = parsed.usage.totalTokens || 0;
+            const groqCost = estimateCost(groqTokens, parsed.costPer1M || 0.05);
+
+            // Add to cost tracking
+            setCostData((prev) => ({
+              ...prev,
+              session: prev.session + groqCost,
+              monthly: prev.monthly + groqCost,
+            }));
+
+            // Store fallback usage in metadata
+            assistantMessage.metadata = {
+              ...assistantMessage.metadata,
+              fallbackUsage: {
+                provider: parsed.provider,
+                usage: parsed.usage,
+                cost: groqCost,
+              },
+            };
+          }
+        });
+        flushContentUpdate(); // Keep what arrived, including before a stop
+
+        if (stopped) {
+          assistantMessage.metadata = { ...assistantMessage.metadata, stopped: true };
+          startTransition(() => {
+            setMessages((prev) => {
+              const updated = [...prev];
+              updated[updated.length - 1] = { ...assistantMessage };
+              return updated;
+            });
+          });
         }
 
+        await recordTurnUsage(convId, assistantMessage, input, selectedImages.length, turnTiming);
+
         // Final save of complete assistant message
         if (convId) {
           await saveMessage(convId, {
@@ -1103,6 +1397,11 @@ export default function ChatInterface() {
         }
       }
     } catch (error: any) {
+      // Stopped before the reply started; keep the user's message
+      if (error?.name === 'AbortError') {
+        return;
+      }
+
       // Chat error handled
       
       // Check if it's a Claude funding error
@@ -1112,6 +1411,10 @@ export default function ChatInterface() {
         setShowFundingError(true);
         toast.error('Claude funding depleted. Please reload your account.', { duration: 6000 });
       } 
+      // Monthly budget reached and the user chose not to override
+      else if (error.message?.startsWith('Monthly budget reached')) {
+        toast.error(error.message, { duration: 6000 });
+      }
       // Check if it's a provider availability error
       else if (error.message?.includes('not configured')) {
         toast.error(
@@ -1124,6 +1427,10 @@ export default function ChatInterface() {
       
       setMessages((prev) => prev.slice(0, -1));
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+        generationIdRef.current = null;
+      }
       setIsLoading(false);
       setActiveTools([]);
       shouldAutoScrollRef.current = false;
@@ -1735,15 +2042,25 @@ export default function ChatInterface() {
                     <MessageContent 
                       content={message.content} 
                       isCodingMode={mode === 'coding'}
+                      sources={message.role === 'assistant' ? message.sources : undefined}
                     />
                   )}
+                  {/* Stopped indicator */}
+                  {message.metadata?.stopped && (
+                    <div className="mt-3 pt-3 border-t border-slate-700/50">
+                      <div className="flex items-center gap-2 text-xs text-slate-400">
+                        <Square className="w-3.5 h-3.5 text-amber-400" />
+                        <span>Stopped - response is incomplete</span>
+                      </div>
+                    </div>
+                  )}
                   {/* Fallback indicator */}
                   {message.metadata?.usedFallback && (
                     <div className="mt-3 pt-3 border-t border-slate-700/50">
                       <div className="flex items-center gap-2 text-xs text-slate-400">
                         <Sparkles className="w-3.5 h-3.5 text-indigo-400" />
-                        <span>
-                          Upgraded to <span className="text-indigo-400 font-medium">{message.metadata.providerName || 'Kimi K2'}</span> for better quality
+                        <span title={message.metadata.fallbackReason}>
+                          Answered by fallback model <span className="text-indigo-400 font-medium">{message.metadata.model || message.metadata.providerName}</span>
                         </span>
                       </div>
                     </div>
@@ -1781,6 +2098,8 @@ export default function ChatInterface() {
                       onClick={async () => {
                         if (isLoading) return;
                         setIsLoading(true);
+                        const abortController = new AbortController();
+                        abortControllerRef.current = abortController;
                         try {
                           const lastUserMessage = messages.slice(0, msgIndex).reverse().find(m => m.role === 'user');
                           if (!lastUserMessage) return;
@@ -1817,8 +2136,18 @@ export default function ChatInterface() {
                           } catch (error) {
                             // Memory retrieval error
                           }
+
+                          let ragContext: RAGChunk[] = [];
+                          if (useRAG) {
+                            try {
+                              const { getRAGContext } = await import('@/lib/utils/search');
+                              ragContext = await getRAGContext(lastUserMessage.content || '');
+                            } catch (error) {
+                              // RAG retrieval error
+                            }
+                          }
                           
-                          const response = await fetch('/api/chat', {
+                          const response = await fetchWithBudgetOverride('/api/chat', (budgetOverride) => ({
                             method: 'POST',
                             headers: { 'Content-Type': 'application/json' },
                             body: JSON.stringify({
@@ -1835,49 +2164,108 @@ export default function ChatInterface() {
                               deepWebSearch, // Include deep web search flag
                               personalInfoContext, // Include personal info context
                               memoryContext, // Include persistent memory context
+                              ragContext, // Document chunks retrieved above
+                              budgetOverride, // Set after the user confirms sending past the monthly budget
                             }),
-                          });
+                            signal: abortController.signal,
+                          }));
                           
-                          if (!response.ok) throw new Error('Failed to regenerate');
+                          if (!response.ok) {
+                            const error = await response.json().catch(() => ({}));
+                            throw new Error(error.error || 'Failed to regenerate');
+                          }
                           
                           const reader = response.body?.getReader();
-                          const decoder = new TextDecoder();
+                          // Lets the stop button end the server-side generation too
+                          const generationId = response.headers.get('X-Generation-Id');
+                          generationIdRef.current = generationId;
                           let newContent = '';
+                          let newMetadata: Message['metadata'] = {};
+                          let turnTiming: { latencyMs?: number; timeToFirstTokenMs?: number } = {};
                           
                           setMessages(prev => {
                             const updated = [...prev];
-                            updated[msgIndex] = { ...updated[msgIndex], content: '' };
+                            const { stopped, ...metadata } = updated[msgIndex].metadata || {};
+                            updated[msgIndex] = { ...updated[msgIndex], content: '', metadata, sources: undefined };
                             return updated;
                           });
                           
                           if (reader) {
-                            while (true) {
-                              const { done, value } = await reader.read();
-                              if (done) break;
-                              const chunk = decoder.decode(value);
-                              const lines = chunk.split('\n');
-                              for (const line of lines) {
-                                if (line.startsWith('data: ')) {
-                                  const data = line.slice(6);
-                                  if (data === '[DONE]') continue;
-                                  try {
-                                    const parsed = JSON.parse(data);
-                                    if (parsed.type === 'content') {
-                                      newContent += parsed.content;
-                                      setMessages(prev => {
-                                        const updated = [...prev];
-                                        updated[msgIndex] = { ...updated[msgIndex], content: newContent };
-                                        return updated;
-                                      });
-                                    }
-                                  } catch {}
+                            const { stopped } = await readGenerationStream(reader, generationId, abortController.signal, (parsed) => {
+                              if (parsed.type === 'content') {
+                                newContent += parsed.content;
+                                setMessages(prev => {
+                                  const updated = [...prev];
+                                  updated[msgIndex] = { ...updated[msgIndex], content: newContent };
+                                  return updated;
+                                });
+                              } else if (parsed.type === 'sources') {
+                                setMessages(prev => {
+                                  const updated = [...prev];
+                                  updated[msgIndex] = { ...updated[msgIndex], sources: parsed.sources ?? undefined };
+                                  return updated;
+                                });
+                              } else if (parsed.type === 'metadata') {
+                                // The regenerated reply may come from another model
+                                newMetadata = {
+                                  taskType: parsed.taskType,
+                                  taskConfidence: parsed.taskConfidence,
+                                  classifier: parsed.classifier,
+                                  model: parsed.model,
+                                  provider: parsed.provider,
+                                  providerName: parsed.providerName,
+                                  toolsUsed: parsed.toolsUsed || [],
+                                  costPer1M: parsed.costPer1M,
+                                  usedFallback: parsed.usedFallback,
+                                  fallbackReason: parsed.fallbackReason,
+                                };
+                                setMessages(prev => {
+                                  const updated = [...prev];
+                                  updated[msgIndex] = { ...updated[msgIndex], metadata: newMetadata };
+                                  return updated;
+                                });
+                              } else if (parsed.type === 'usage') {
+                                if (parsed.usage) {
+                                  newMetadata = { ...newMetadata, usage: parsed.usage };
                                 }
+                                turnTiming = {
+                                  latencyMs: parsed.latencyMs ?? undefined,
+                                  timeToFirstTokenMs: parsed.timeToFirstTokenMs ?? undefined,
+                                };
+                              } else if (parsed.type === 'error') {
+                                newContent = `❌ Error: ${parsed.error}`;
+                                setMessages(prev => {
+                                  const updated = [...prev];
+                                  updated[msgIndex] = { ...updated[msgIndex], content: newContent };
+                                  return updated;
+                                });
                               }
+                            });
+                            if (stopped) {
+                              newMetadata = { ...newMetadata, stopped: true };
                             }
+                            setMessages(prev => {
+                              const updated = [...prev];
+                              updated[msgIndex] = { ...updated[msgIndex], metadata: { ...updated[msgIndex].metadata, ...newMetadata } };
+                              return updated;
+                            });
+                            await recordTurnUsage(
+                              currentConversationId,
+                              { ...message, content: newContent, metadata: newMetadata },
+                              lastUserMessage.content || '',
+                              lastUserMessage.images?.length || 0,
+                              turnTiming
+                            );
+                          }
+                        } catch (error: any) {
+                          if (error?.name !== 'AbortError') {
+                            toast.error(error?.message || 'Failed to regenerate');
                           }
-                        } catch (error) {
-                          toast.error('Failed to regenerate');
                         } finally {
+                          if (abortControllerRef.current === abortController) {
+                            abortControllerRef.current = null;
+                            generationIdRef.current = null;
+                          }
                           setIsLoading(false);
                           shouldAutoScrollRef.current = false;
                         }
@@ -1940,18 +2328,16 @@ export default function ChatInterface() {
                     value={userOverride}
                     onChange={(e) => {
                       const newValue = e.target.value;
-                      const provider = newValue.split('/')[0];
                       
                       // Warn if trying to use non-vision model with images/files
-                      // Only Claude and OpenAI support images/file extraction
                       if ((selectedImages.length > 0 || attachedFiles.length > 0) && 
-                          (provider === 'groq' || provider === 'perplexity' || provider === 'kimi' || provider === 'gemini')) {
-                        toast.error('Only Claude and OpenAI support images/files. Auto-selecting Claude.');
-                        // Auto-select Claude (preferred) or OpenAI for vision/file processing
+                          newValue !== '' && !supportsVision(newValue)) {
+                        toast.error('This model does not support images/files. Auto-selecting Claude.');
+                        // Auto-select Claude (preferred) or another vision model for image/file processing
                         const visionModel = modelOptions.find(opt => 
-                          opt.value.startsWith('anthropic/')
+                          opt.value.startsWith('anthropic/') && supportsVision(opt.value)
                         ) || modelOptions.find(opt => 
-                          opt.value.startsWith('openai/')
+                          opt.value !== '' && supportsVision(opt.value)
                         );
                         if (visionModel) {
                           setUserOverride(visionModel.value);
@@ -1970,29 +2356,30 @@ export default function ChatInterface() {
                       toast.success(`Switched to ${selectedLabel}`, { duration: 2000 });
                     }}
                     className={`appearance-none px-3 py-2 pr-8 text-xs font-medium rounded-xl border border-slate-700/50 bg-slate-800/50 hover:bg-slate-800/70 focus:outline-none focus:ring-2 focus:ring-indigo-500/50 focus:border-indigo-500/50 transition-all duration-200 cursor-pointer ${getCurrentModelColor()}`}
-                    title={(selectedImages.length > 0 || attachedFiles.length > 0) ? "Select Claude (preferred) or OpenAI for image/file processing - Only these support images" : "Select AI model for this conversation (default: Kimi K2)"}
+                    title={(selectedImages.length > 0 || attachedFiles.length > 0) ? "Select a vision model (Claude preferred) for image/file processing" : "Select AI model for this conversation (default: Kimi K2)"}
                   >
                     {modelOptions.map((opt) => {
-                      const optProvider = opt.value.split('/')[0];
-                      // Only Claude and OpenAI support vision/file extraction
-                      const supportsVision = optProvider === 'anthropic' || optProvider === 'openai' || opt.value === '';
-                      const isDisabled = (selectedImages.length > 0 || attachedFiles.length > 0) && !supportsVision && opt.value !== '';
+                      // Image support comes from the model catalog's input modalities
+                      const canSeeImages = opt.value === '' || supportsVision(opt.value);
+                      const healthStatus = modelHealth[opt.value]?.status;
+                      const isDisabled = ((selectedImages.length > 0 || attachedFiles.length > 0) && !canSeeImages) ||
+                        (healthStatus === 'down' && opt.value !== userOverride);
                       
                       return (
                         <option 
                           key={opt.value} 
                           value={opt.value} 
-                          className="bg-slate-800 text-white"
+                          className={healthStatus && healthStatus !== 'healthy' ? 'bg-slate-800 text-slate-500' : 'bg-slate-800 text-white'}
                           disabled={isDisabled}
                         >
-                          {opt.label}{(selectedImages.length > 0 || attachedFiles.length > 0) && !supportsVision && opt.value !== '' ? ' (no vision/files)' : ''}
+                          {opt.label}{(selectedImages.length > 0 || attachedFiles.length > 0) && !canSeeImages ? ' (no vision/files)' : ''}{getModelHealthLabel(opt.value)}
                         </option>
                       );
                     })}
                   </select>
                   <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-slate-400 pointer-events-none" />
                 </div>
-                {(selectedImages.length > 0 || attachedFiles.length > 0) && userOverride && !userOverride.startsWith('anthropic/') && userOverride !== '' && (
+                {(selectedImages.length > 0 || attachedFiles.length > 0) && userOverride && !supportsVision(userOverride) && (
                   <span className="text-xs text-orange-400 flex items-center gap-1.5 px-2.5 py-1 bg-orange-500/10 rounded-lg border border-orange-500/20">
                     <ImageIcon className="w-3.5 h-3.5" />
                     Switch to Claude for images/files
@@ -2113,18 +2500,18 @@ export default function ChatInterface() {
               </label>
               
               <button
-                onClick={handleSend}
-                disabled={isLoading || (!input.trim() && selectedImages.length === 0 && attachedFiles.length === 0) || editingMessageId !== null}
+                onClick={isLoading ? handleStop : handleSend}
+                disabled={!isLoading && ((!input.trim() && selectedImages.length === 0 && attachedFiles.length === 0) || editingMessageId !== null)}
                 data-send-button
                 className="w-12 h-12 bg-gradient-to-r from-indigo-600 via-purple-600 to-indigo-600 hover:from-indigo-500 hover:via-purple-500 hover:to-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl flex items-center justify-center transition-all duration-200 flex-shrink-0 shadow-lg shadow-indigo-500/30 hover:shadow-indigo-500/50 hover:scale-110 active:scale-95 disabled:hover:scale-100 hover:animate-pulse-glow"
                 style={{ 
                   boxShadow: isLoading ? '0 0 20px 5px rgba(99, 102, 241, 0.6)' : undefined,
                   animation: isLoading ? 'pulse-glow 2s infinite' : undefined
                 }}
-                title="Send message"
+                title={isLoading ? 'Stop generating' : 'Send message'}
               >
                 {isLoading ? (
-                  <Loader2 className="w-5 h-5 animate-spin text-white" />
+                  <Square className="w-4 h-4 text-white fill-white" />
                 ) : (
                   <Send className="w-5 h-5 text-white" />
                 )}
@@ -2286,7 +2673,7 @@ export default function ChatInterface() {
         {/* Settings Modal */}
         {showSettings && (
           <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={() => setShowSettings(false)}>
-            <div className="bg-gray-800 rounded-xl p-6 max-w-md w-full mx-4" onClick={(e) => e.stopPropagation()}>
+            <div className="bg-gray-800 rounded-xl p-6 max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
               <div className="flex items-center justify-between mb-4">
                 <h2 className="text-xl font-semibold text-white">Settings</h2>
                 <button
@@ -2311,8 +2698,12 @@ export default function ChatInterface() {
                     className="w-full px-3 py-2 bg-gray-700 text-white rounded-lg border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
                   >
                     {modelOptions.map((opt) => (
-                      <option key={opt.value} value={opt.value}>
-                        {opt.label}
+                      <option
+                        key={opt.value}
+                        value={opt.value}
+                        className={modelHealth[opt.value] && modelHealth[opt.value].status !== 'healthy' ? 'text-gray-500' : undefined}
+                      >
+                        {opt.label}{getModelHealthLabel(opt.value)}
                       </option>
                     ))}
                   </select>
@@ -2359,6 +2750,7 @@ export default function ChatInterface() {
                         localStorage.removeItem('monthlyBudget');
                       }
                     }}
+                    onBlur={() => saveBudgetPolicy({ monthlyLimit: monthlyBudget })}
                     placeholder="No limit"
                     className="w-full px-3 py-2 bg-gray-700 text-white rounded-lg border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
                   />
@@ -2370,6 +2762,42 @@ export default function ChatInterface() {
                       </span>
                     )}
                   </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Enforced by the server: near the limit replies switch to cheaper models, and at the limit you'll be asked before sending.
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Per-Agent Limits ($/month)
+                  </label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {[
+                      { key: 'chat', label: 'Chat' },
+                      { key: 'code', label: 'Coding' },
+                      { key: 'study', label: 'Study' },
+                      { key: 'resume', label: 'Resume' },
+                      { key: 'cover-letter', label: 'Cover Letter' },
+                      { key: 'extract', label: 'Extraction' },
+                    ].map(({ key, label }) => (
+                      <div key={key}>
+                        <span className="block text-xs text-gray-400 mb-1">{label}</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={agentBudgets[key] ?? ''}
+                          onChange={(e) => {
+                            const value = e.target.value ? parseFloat(e.target.value) : null;
+                            setAgentBudgets((prev) => ({ ...prev, [key]: value }));
+                          }}
+                          onBlur={() => saveBudgetPolicy({ agentLimits: { [key]: agentBudgets[key] ?? null } })}
+                          placeholder="No limit"
+                          className="w-full px-2 py-1.5 text-sm bg-gray-700 text-white rounded-lg border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                    ))}
+                  </div>
                 </div>
 
                 <div className="pt-4 border-t border-gray-700">
@@ -2441,6 +2869,14 @@ export default function ChatInterface() {
                         Reset Session
                       </button>
                     </div>
+
+                    <a
+                      href="/usage"
+                      className="flex items-center justify-center gap-2 px-3 py-2 text-xs bg-blue-600/20 hover:bg-blue-600/30 text-blue-300 border border-blue-600/30 rounded-lg transition-colors"
+                    >
+                      <BarChart3 className="w-3.5 h-3.5" />
+                      View Usage Analytics
+                    </a>
                   </div>
                 </div>
 
@@ -2453,6 +2889,8 @@ export default function ChatInterface() {
                     <div>• Perplexity: Sonar (Web Search)</div>
                   </div>
                 </div>
+
+                <RoutingPolicyEditor />
               </div>
             </div>
           </div>
@@ -10,13 +10,96 @@ import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus, oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import { Copy, Check, ChevronDown, ChevronUp } from 'lucide-react';
 import { normalizeForClipboard } from '@/lib/utils/text-normalization';
+import { splitCitations, CitationSource } from '@/lib/utils/citations';
 
 interface MessageContentProps {
   content: string;
   isCodingMode?: boolean;
+  sources?: CitationSource[]; // Sources the reply could cite; citation markers are left as text without them
 }
 
-function MessageContent({ content, isCodingMode = false }: MessageContentProps) {
+const PREVIEW_CHARS = 400;
+
+/**
+ * Citation marker with a preview of its source on hover, focus or click
+ * Flagged when the number doesn't match a source the model was given
+ */
+function CitationMarker({ id, source }: { id: number; source?: CitationSource }) {
+  const [pinned, setPinned] = useState(false);
+
+  if (!source) {
+    return (
+      <sup
+        className="mx-0.5 text-[0.7em] font-semibold text-red-400 line-through decoration-red-400/60 cursor-help"
+        title={`Source [${id}] was not provided - this citation can't be checked`}
+      >
+        [{id}]
+      </sup>
+    );
+  }
+
+  const preview = source.text.length > PREVIEW_CHARS ? `${source.text.slice(0, PREVIEW_CHARS).trimEnd()}…` : source.text;
+  // Chunk titles are breadcrumbs that already end in the page, so show the file they come from
+  const location = source.kind === 'web'
+    ? source.url
+    : source.documentName !== source.title
+      ? source.documentName
+      : source.page ? `p.${source.page}` : undefined;
+
+  return (
+    <span className="relative inline-block group" onMouseLeave={() => setPinned(false)}>
+      <sup>
+        <button
+          type="button"
+          onClick={() => setPinned((open) => !open)}
+          className="mx-0.5 text-[0.7em] font-semibold text-blue-400 hover:text-blue-300 focus:outline-none focus:text-blue-300"
+          aria-label={`Source ${id}: ${source.title}`}
+        >
+          [{id}]
+        </button>
+      </sup>
+      <span
+        role="tooltip"
+        className={`${pinned ? 'visible opacity-100' : 'invisible opacity-0'} group-hover:visible group-hover:opacity-100 group-focus-within:visible group-focus-within:opacity-100 transition-opacity absolute bottom-full left-1/2 -translate-x-1/2 mb-2 w-80 max-w-[80vw] z-20 p-3 rounded-lg border border-gray-700 bg-gray-900 shadow-xl text-left text-xs not-italic font-normal`}
+      >
+        <span className="block font-semibold text-white mb-1">[{id}] {source.title}</span>
+        {location && (source.kind === 'web' && source.url ? (
+          <a
+            href={source.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block truncate text-blue-400 hover:text-blue-300 underline mb-1"
+          >
+            {location}
+          </a>
+        ) : (
+          <span className="block text-gray-400 mb-1">{location}</span>
+        ))}
+        {preview && <span className="block text-gray-300 whitespace-pre-wrap leading-snug">{preview}</span>}
+      </span>
+    </span>
+  );
+}
+
+/**
+ * Replace [n] markers in the text children of an element with citation markers
+ */
+function withCitations(children: React.ReactNode, sources?: CitationSource[]): React.ReactNode {
+  // Nothing to cite: "[1]" is ordinary text (an array literal, a list), not a made-up citation
+  if (!sources || sources.length === 0) return children;
+  const byId = new Map(sources.map((source) => [source.id, source]));
+
+  return React.Children.map(children, (child) => {
+    if (typeof child !== 'string') return child;
+    return splitCitations(child).map((part, index) =>
+      typeof part === 'string'
+        ? part
+        : part.ids.map((id) => <CitationMarker key={`${index}-${id}`} id={id} source={byId.get(id)} />)
+    );
+  });
+}
+
+function MessageContent({ content, isCodingMode = false, sources }: MessageContentProps) {
   const [copiedCodeBlocks, setCopiedCodeBlocks] = useState<Set<number>>(new Set());
   const [collapsedCodeBlocks, setCollapsedCodeBlocks] = useState<Set<number>>(new Set());
   const codeBlockRef = useRef(0);
@@ -172,9 +255,9 @@ function MessageContent({ content, isCodingMode = false }: MessageContentProps)
           ol: ({ children }: any) => (
             <ol className="list-decimal list-inside my-3 space-y-1 text-gray-300">{children}</ol>
           ),
-          li: ({ children }: any) => <li className="ml-4">{children}</li>,
-          // Paragraphs
-          p: ({ children }: any) => <p className="my-2 text-gray-300 leading-relaxed">{children}</p>,
+          li: ({ children }: any) => <li className="ml-4">{withCitations(children, sources)}</li>,
+          // Paragraphs (text runs, list items, table cells and emphasis render citation markers)
+          p: ({ children }: any) => <p className="my-2 text-gray-300 leading-relaxed">{withCitations(children, sources)}</p>,
           // Links
           a: ({ href, children }: any) => (
             <a
@@ -209,21 +292,21 @@ function MessageContent({ content, isCodingMode = false }: MessageContentProps)
           ),
           th: ({ children }: any) => (
             <th className="px-4 py-2 text-left font-semibold text-gray-300 border border-gray-700">
-              {children}
+              {withCitations(children, sources)}
             </th>
           ),
           td: ({ children }: any) => (
-            <td className="px-4 py-2 text-gray-300 border border-gray-700">{children}</td>
+            <td className="px-4 py-2 text-gray-300 border border-gray-700">{withCitations(children, sources)}</td>
           ),
           // Horizontal rule
           hr: () => <hr className="my-6 border-gray-700" />,
           // Strong/Bold
           strong: ({ children }: any) => (
-            <strong className="font-semibold text-white">{children}</strong>
+            <strong className="font-semibold text-white">{withCitations(children, sources)}</strong>
           ),
           // Emphasis/Italic
-          em: ({ children }: any) => <em className="italic text-gray-300">{children}</em>,
-  }), [handleCopyCode, toggleCodeBlock, isCodingMode]); // Note: collapsedCodeBlocks/copiedCodeBlocks accessed via closure
+          em: ({ children }: any) => <em className="italic text-gray-300">{withCitations(children, sources)}</em>,
+  }), [handleCopyCode, toggleCodeBlock, isCodingMode, sources]); // Note: collapsedCodeBlocks/copiedCodeBlocks accessed via closure
 
   return (
     <div className="message-content prose prose-invert max-w-none break-words overflow-wrap-anywhere min-w-0" style={{ wordBreak: 'break-word', overflowWrap: 'anywhere', maxWidth: '100%' }}>
@@ -1,10 +1,12 @@
 'use client';
 
 import React, { useState, useCallback } from 'react';
-import { Upload, File, X, Loader2, CheckCircle2, FileText, Image as ImageIcon, FileSpreadsheet, FileCode } from 'lucide-react';
+import { Upload, File, X, Loader2, CheckCircle2, FileText, Image as ImageIcon, FileSpreadsheet, FileCode, RefreshCw } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { db, Document } from '@/lib/db';
+import { db, Document, DocumentChunk } from '@/lib/db';
 import { processFile } from '@/lib/utils/pdf';
+import { indexChunks, removeDocumentFromIndexes } from '@/lib/utils/search';
+import { getEmbeddingStatus, reembedChunks, EmbeddingStatus } from '@/lib/utils/reembed';
 
 interface PdfUploadProps {
   onUploadComplete?: (documentId: string) => void;
@@ -66,6 +68,8 @@ export default function PdfUpload({ onUploadComplete }: PdfUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [uploadedFiles, setUploadedFiles] = useState<Document[]>([]);
+  const [embeddingStatus, setEmbeddingStatus] = useState<EmbeddingStatus | null>(null);
+  const [reembedProgress, setReembedProgress] = useState<{ done: number; total: number } | null>(null);
 
   // Load uploaded files from database
   React.useEffect(() => {
@@ -79,6 +83,30 @@ export default function PdfUpload({ onUploadComplete }: PdfUploadProps) {
     } catch (error) {
       console.error('Failed to load documents:', error);
     }
+    loadEmbeddingStatus();
+  };
+
+  // Chunks embedded with another model (or none) are only found by keyword search
+  const loadEmbeddingStatus = async () => {
+    try {
+      setEmbeddingStatus(await getEmbeddingStatus());
+    } catch (error) {
+      console.warn('[Embeddings] Could not check chunk embeddings:', error);
+    }
+  };
+
+  const handleReembed = async () => {
+    setReembedProgress({ done: 0, total: embeddingStatus?.stale || 0 });
+    try {
+      const count = await reembedChunks((done, total) => setReembedProgress({ done, total }));
+      toast.success(`Re-embedded ${count} chunks`);
+    } catch (error) {
+      console.error('Re-embedding error:', error);
+      toast.error('Failed to re-embed documents. Please try again.');
+    } finally {
+      setReembedProgress(null);
+      await loadEmbeddingStatus();
+    }
   };
 
   const isFileSupported = (file: File): boolean => {
@@ -119,20 +147,26 @@ export default function PdfUpload({ onUploadComplete }: PdfUploadProps) {
 
       // Store chunks with embeddings (skip for images)
       if (!result.isImage && result.chunks.length > 0) {
-        await Promise.all(
-          result.chunks.map((chunk, index) =>
-            db.chunks.add({
-              documentId,
-              documentName: file.name,
-              chunkIndex: index,
-              text: chunk,
-              embedding: result.embeddings[index],
-              metadata: {
-                timestamp: Date.now(),
-              },
-            })
-          )
-        );
+        const chunks: DocumentChunk[] = result.chunks.map((chunk, index) => ({
+          documentId,
+          documentName: file.name,
+          chunkIndex: index,
+          text: chunk.text,
+          embedding: result.embeddings[index],
+          embeddingModel: result.embeddingModel,
+          embeddingDimension: result.embeddingDimension,
+          metadata: {
+            ...chunk.metadata,
+            timestamp: Date.now(),
+          },
+        }));
+        const ids = await db.chunks.bulkAdd(chunks, { allKeys: true });
+        try {
+          await indexChunks(chunks.map((chunk, index) => ({ ...chunk, id: ids[index] as number })));
+        } catch (error) {
+          // Chunks missing from the indexes are added on the next search
+          console.warn('[Search] Could not index document:', error);
+        }
         toast.success(`${file.name} processed successfully! ${result.chunks.length} chunks created.`);
       } else if (result.isImage) {
         toast.success(`Image ${file.name} uploaded successfully!`);
@@ -186,6 +220,7 @@ export default function PdfUpload({ onUploadComplete }: PdfUploadProps) {
     try {
       await db.chunks.where('documentId').equals(documentId).delete();
       await db.documents.where('documentId').equals(documentId).delete();
+      await removeDocumentFromIndexes(documentId);
       toast.success('Document deleted');
       await loadUploadedFiles();
     } catch (error) {
@@ -239,6 +274,33 @@ export default function PdfUpload({ onUploadComplete }: PdfUploadProps) {
         </label>
       </div>
 
+      {/* Chunks to re-embed */}
+      {embeddingStatus && embeddingStatus.stale > 0 && (
+        <div className="flex items-center justify-between gap-2 p-2 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded text-xs text-yellow-800 dark:text-yellow-300">
+          <span>
+            {embeddingStatus.stale} of {embeddingStatus.total} chunks aren&apos;t embedded with {embeddingStatus.model} and
+            are only found by keyword search.
+          </span>
+          <button
+            onClick={handleReembed}
+            disabled={!!reembedProgress}
+            className="flex items-center gap-1 px-2 py-1 rounded bg-yellow-100 dark:bg-yellow-800/40 hover:bg-yellow-200 dark:hover:bg-yellow-800/70 disabled:opacity-60 flex-shrink-0"
+          >
+            {reembedProgress ? (
+              <>
+                <Loader2 className="w-3 h-3 animate-spin" />
+                {reembedProgress.done}/{reembedProgress.total}
+              </>
+            ) : (
+              <>
+                <RefreshCw className="w-3 h-3" />
+                Re-embed
+              </>
+            )}
+          </button>
+        </div>
+      )}
+
       {/* Uploaded Files List */}
       {uploadedFiles.length > 0 && (
         <div className="space-y-2">
@@ -4,6 +4,7 @@ import React, { useState, useEffect } from 'react';
 import { X, Plus, Edit2, Trash2, Save, Briefcase, Code, GraduationCap, Award, FileText, User, Mail, Tag, Upload, Loader2 } from 'lucide-react';
 import { PersonalInfo } from '@/lib/db';
 import { savePersonalInfo, getPersonalInfo, deletePersonalInfo } from '@/lib/utils/personal-info';
+import { fetchWithBudgetOverride } from '@/lib/utils/budget-override';
 import toast from 'react-hot-toast';
 
 interface PersonalInfoProps {
@@ -160,13 +161,12 @@ export default function PersonalInfoManager({ onClose }: PersonalInfoProps) {
     setEditingId(null);
 
     try {
-      const formDataToSend = new FormData();
-      formDataToSend.append('file', file);
-      formDataToSend.append('fileType', file.type);
-
-      const response = await fetch('/api/personal-info/extract', {
-        method: 'POST',
-        body: formDataToSend,
+      const response = await fetchWithBudgetOverride('/api/personal-info/extract', (budgetOverride) => {
+        const formDataToSend = new FormData();
+        formDataToSend.append('file', file);
+        formDataToSend.append('fileType', file.type);
+        formDataToSend.append('budgetOverride', String(budgetOverride));
+        return { method: 'POST', body: formDataToSend };
       });
 
       const result = await response.json();
@@ -180,7 +180,9 @@ export default function PersonalInfoManager({ onClose }: PersonalInfoProps) {
       // Auto-fill form with extracted data
       await autoFillFromExtractedData(result.data);
       
-      toast.success('Information extracted! Review and edit before saving.');
+      toast.success(result.cached
+        ? 'Information loaded from an earlier extraction of this file. Review and edit before saving.'
+        : 'Information extracted! Review and edit before saving.');
     } catch (error: any) {
       console.error('Extraction error:', error);
       toast.error(error.message || 'Failed to extract information from file');
@@ -1,10 +1,11 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { X, FileText, Copy, Download, Loader2, Upload, Edit2, Check, Mail } from 'lucide-react';
+import { X, FileText, Copy, Download, Loader2, Upload, Edit2, Check, Mail, RefreshCw } from 'lucide-react';
 import { getPersonalInfoContext } from '@/lib/utils/personal-info';
 import { saveResumeTemplate, getResumeTemplate } from '@/lib/utils/resume-template';
 import { saveCoverLetterTemplate, getCoverLetterTemplate } from '@/lib/utils/cover-letter-template';
+import { fetchWithBudgetOverride } from '@/lib/utils/budget-override';
 import toast from 'react-hot-toast';
 
 interface ResumeCustomizerProps {
@@ -31,6 +32,7 @@ export default function ResumeCustomizer({ onClose }: ResumeCustomizerProps) {
   const [jobPosting, setJobPosting] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
   const [optimizedContent, setOptimizedContent] = useState('');
+  const [resultCached, setResultCached] = useState(false); // Served from the server's response cache
   const [personalInfoLoaded, setPersonalInfoLoaded] = useState(false);
 
   useEffect(() => {
@@ -145,7 +147,7 @@ export default function ResumeCustomizer({ onClose }: ResumeCustomizerProps) {
     }
   };
 
-  const handleOptimize = async () => {
+  const handleOptimize = async (bypassCache = false) => {
     if (!jobPosting.trim()) {
       toast.error('Please enter or upload a job posting');
       return;
@@ -158,6 +160,7 @@ export default function ResumeCustomizer({ onClose }: ResumeCustomizerProps) {
 
     setIsGenerating(true);
     setOptimizedContent('');
+    setResultCached(false);
 
     try {
       // Get personal info context
@@ -179,15 +182,17 @@ export default function ResumeCustomizer({ onClose }: ResumeCustomizerProps) {
           return;
         }
 
-        const response = await fetch('/api/resume/optimize', {
+        const response = await fetchWithBudgetOverride('/api/resume/optimize', (budgetOverride) => ({
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             latexResume: templateToUse,
             jobPosting,
             personalInfoContext,
+            budgetOverride,
+            bypassCache,
           }),
-        });
+        }));
 
         if (!response.ok) {
           // Check if response is JSON or HTML
@@ -225,7 +230,8 @@ export default function ResumeCustomizer({ onClose }: ResumeCustomizerProps) {
           throw new Error('No optimized resume returned from server');
         }
         setOptimizedContent(data.optimizedLatex);
-        toast.success('Resume optimized successfully!');
+        setResultCached(!!data.cached);
+        toast.success(data.cached ? 'Loaded the saved resume for this job posting' : 'Resume optimized successfully!');
       } else {
         // Cover letter mode
         let templateToUse = coverLetterTemplate;
@@ -242,7 +248,7 @@ export default function ResumeCustomizer({ onClose }: ResumeCustomizerProps) {
           return;
         }
 
-        const response = await fetch('/api/cover-letter/optimize', {
+        const response = await fetchWithBudgetOverride('/api/cover-letter/optimize', (budgetOverride) => ({
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -250,8 +256,10 @@ export default function ResumeCustomizer({ onClose }: ResumeCustomizerProps) {
             jobPosting,
             personalInfoContext,
             customPrompt: coverLetterPrompt.trim() || undefined, // Only send if provided
+            budgetOverride,
+            bypassCache,
           }),
-        });
+        }));
 
         if (!response.ok) {
           // Check if response is JSON or HTML
@@ -289,7 +297,8 @@ export default function ResumeCustomizer({ onClose }: ResumeCustomizerProps) {
           throw new Error('No optimized cover letter returned from server');
         }
         setOptimizedContent(data.optimizedCoverLetter);
-        toast.success('Cover letter optimized successfully!');
+        setResultCached(!!data.cached);
+        toast.success(data.cached ? 'Loaded the saved cover letter for this job posting' : 'Cover letter optimized successfully!');
       }
     } catch (error: any) {
       console.error('Optimization error:', error);
@@ -601,7 +610,7 @@ export default function ResumeCustomizer({ onClose }: ResumeCustomizerProps) {
                   </div>
                 )}
                 <button
-                  onClick={handleOptimize}
+                  onClick={() => handleOptimize()}
                   disabled={
                     isGenerating || 
                     (mode === 'resume' && !latexResume.trim() && !resumeTemplateSaved) ||
@@ -623,6 +632,16 @@ export default function ResumeCustomizer({ onClose }: ResumeCustomizerProps) {
                     </>
                   )}
                 </button>
+                {resultCached && !isGenerating && (
+                  <button
+                    onClick={() => handleOptimize(true)}
+                    className="w-full text-xs text-gray-400 hover:text-gray-200 flex items-center justify-center gap-1"
+                    title="Skip the cached result and call the model again"
+                  >
+                    <RefreshCw className="w-3 h-3" />
+                    Cached result - regenerate
+                  </button>
+                )}
               </div>
             </div>
 
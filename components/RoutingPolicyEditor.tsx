@@ -0,0 +1,170 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { GitBranch, RotateCcw, Save } from 'lucide-react';
+import toast from 'react-hot-toast';
+import type { RoutingPolicy, RouteRule } from '@/lib/llm/routing-policy';
+
+type Section = keyof RoutingPolicy;
+
+interface PolicyResponse {
+  policy: RoutingPolicy;
+  defaults: RoutingPolicy;
+  models: string[];
+}
+
+const SECTION_LABELS: Record<Section, string> = {
+  agents: 'Agents',
+  tasks: 'Task types',
+};
+
+/**
+ * Settings section for the server-side routing policy
+ * Edits the rule list of one agent or task type at a time as JSON; the server
+ * validates models against the model catalog
+ */
+export default function RoutingPolicyEditor() {
+  const [data, setData] = useState<PolicyResponse | null>(null);
+  const [section, setSection] = useState<Section>('agents');
+  const [key, setKey] = useState('chat');
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadPolicy = async () => {
+      try {
+        const res = await fetch('/api/routing-policy');
+        if (!res.ok) throw new Error('Failed to load routing policy');
+        setData(await res.json());
+      } catch (error: any) {
+        setError(error.message || 'Failed to load routing policy');
+      }
+    };
+    loadPolicy();
+  }, []);
+
+  // Show the selected rule list
+  useEffect(() => {
+    const rules = data?.policy[section][key as keyof RoutingPolicy[Section]] as RouteRule[] | undefined;
+    setDraft(rules ? JSON.stringify(rules, null, 2) : '');
+    setError(null);
+  }, [data, section, key]);
+
+  const save = async (rules: RouteRule[] | null) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/routing-policy', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ [section]: { [key]: rules } }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.details || body.error || 'Failed to save routing policy');
+      setData((prev) => (prev ? { ...prev, policy: body.policy } : prev));
+      toast.success(rules ? 'Routing policy saved' : 'Routing policy reset to default');
+    } catch (error: any) {
+      setError(error.message || 'Failed to save routing policy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    let rules: RouteRule[];
+    try {
+      rules = JSON.parse(draft);
+    } catch {
+      setError('Rules must be valid JSON');
+      return;
+    }
+    save(rules);
+  };
+
+  if (!data) {
+    return error ? <p className="text-xs text-red-400">{error}</p> : null;
+  }
+
+  const keys = Object.keys(data.policy[section]);
+  const isDefault =
+    JSON.stringify(data.policy[section][key as keyof RoutingPolicy[Section]]) ===
+    JSON.stringify(data.defaults[section][key as keyof RoutingPolicy[Section]]);
+
+  return (
+    <div className="pt-4 border-t border-gray-700">
+      <h3 className="text-sm font-medium text-gray-300 mb-1 flex items-center gap-2">
+        <GitBranch className="w-4 h-4" />
+        Routing Policy
+      </h3>
+      <p className="text-xs text-gray-400 mb-3">
+        The first rule whose <code>when</code> conditions match is used; the last rule has no conditions.
+      </p>
+
+      <div className="flex gap-2 mb-2">
+        <select
+          value={section}
+          onChange={(e) => {
+            const next = e.target.value as Section;
+            setSection(next);
+            setKey(Object.keys(data.policy[next])[0]);
+          }}
+          className="flex-1 px-2 py-1.5 text-sm bg-gray-700 text-white rounded-lg border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {(Object.keys(SECTION_LABELS) as Section[]).map((s) => (
+            <option key={s} value={s}>{SECTION_LABELS[s]}</option>
+          ))}
+        </select>
+        <select
+          value={key}
+          onChange={(e) => setKey(e.target.value)}
+          className="flex-1 px-2 py-1.5 text-sm bg-gray-700 text-white rounded-lg border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {keys.map((k) => (
+            <option key={k} value={k}>{k}</option>
+          ))}
+        </select>
+      </div>
+
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        rows={10}
+        spellCheck={false}
+        className="w-full px-2 py-1.5 text-xs font-mono bg-gray-900 text-gray-100 rounded-lg border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+
+      <div className="flex items-center justify-between mt-2">
+        <span className="text-xs text-gray-500">{isDefault ? 'Default rules' : 'Customized'}</span>
+        <div className="flex gap-2">
+          <button
+            onClick={() => save(null)}
+            disabled={isSaving || isDefault}
+            className="px-2.5 py-1.5 text-xs text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-lg flex items-center gap-1 disabled:opacity-50"
+          >
+            <RotateCcw className="w-3 h-3" />
+            Reset
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-2.5 py-1.5 text-xs text-white bg-blue-600 hover:bg-blue-700 rounded-lg flex items-center gap-1 disabled:opacity-50"
+          >
+            <Save className="w-3 h-3" />
+            Save
+          </button>
+        </div>
+      </div>
+
+      <details className="mt-2">
+        <summary className="text-xs text-gray-400 cursor-pointer">Known models ({data.models.length})</summary>
+        <div className="mt-1 max-h-32 overflow-y-auto text-xs font-mono text-gray-400">
+          {data.models.map((model) => (
+            <div key={model}>{model}</div>
+          ))}
+        </div>
+      </details>
+    </div>
+  );
+}
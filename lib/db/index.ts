@@ -1,4 +1,10 @@
 import Dexie, { Table } from 'dexie';
+import type { CitationSource } from '@/lib/utils/citations';
+
+/**
+ * Model of embeddings stored before chunks recorded one (the only backend at the time)
+ */
+export const LEGACY_EMBEDDING_MODEL = 'openai/text-embedding-3-small';
 
 export interface DocumentChunk {
   id?: number;
@@ -7,12 +13,68 @@ export interface DocumentChunk {
   chunkIndex: number;
   text: string;
   embedding: number[];
+  embeddingModel?: string; // `<provider>/<model>` that produced the embedding; unset without one
+  embeddingDimension?: number;
   metadata?: {
-    page?: number;
+    page?: number; // PDF page the chunk starts on
+    pageEnd?: number; // PDF page it ends on, when later
+    section?: string[]; // Heading path, outermost first (lib/utils/chunking.ts)
     timestamp?: number;
   };
 }
 
+/**
+ * A chunk's vector in the ANN index (lib/utils/vector-index.ts)
+ * Stored unit-normalized and int8-quantized: component i ~ vector[i] * scale
+ */
+export interface VectorIndexEntry {
+  chunkId: number; // Primary key of the chunk in db.chunks
+  documentId: string;
+  list: number; // Nearest centroid, or -1 for chunks that can't be searched (no embedding, or another model's)
+  vector: Int8Array;
+  scale: number;
+}
+
+/**
+ * Centroids of the ANN index; a single row with id 'ivf'
+ */
+export interface VectorIndexMeta {
+  id: string;
+  model: string; // Embedding model of the indexed vectors; chunks from other models aren't searchable
+  dimension: number;
+  centroids: Float32Array[]; // Unit-normalized
+  trainedOn: number; // Indexed vectors when the centroids were trained
+}
+
+/**
+ * One term of a chunk in the BM25 index (lib/utils/lexical-index.ts)
+ */
+export interface LexicalPosting {
+  term: string;
+  chunkId: number;
+  documentId: string;
+  tf: number; // Occurrences of the term in the chunk
+  length: number; // Terms in the chunk
+}
+
+/**
+ * A chunk in the BM25 index, including chunks without any terms
+ */
+export interface LexicalIndexDoc {
+  chunkId: number;
+  documentId: string;
+  length: number;
+}
+
+/**
+ * Corpus statistics of the BM25 index; a single row with id 'bm25'
+ */
+export interface LexicalIndexMeta {
+  id: string;
+  chunks: number;
+  totalLength: number; // Sum of chunk lengths, for the average length
+}
+
 export interface Document {
   id?: number;
   documentId: string;
@@ -46,7 +108,8 @@ export interface ChatMessage {
     providerName?: string;
     toolsUsed?: string[];
     costPer1M?: number;
-    sources?: Array<{ documentName: string; text: string }>;
+    stopped?: boolean; // Generation was stopped by the user; content is partial
+    sources?: CitationSource[]; // Numbered sources the reply can cite as [n]
   };
 }
 
@@ -162,6 +225,26 @@ export interface ErrorLog {
   resolvedAt?: number;
 }
 
+export interface UsageRecord {
+  id?: number;
+  conversationId: string;
+  messageId: string; // Assistant message this turn produced
+  timestamp: number;
+  model: string;
+  provider: string;
+  taskType?: string;
+  mode: 'primary' | 'coding' | 'study';
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cacheReadTokens?: number; // Prompt tokens served from the provider's prompt cache
+  cacheWriteTokens?: number; // Prompt tokens written to the prompt cache
+  estimated: boolean; // True when the provider sent no usage and tokens were estimated
+  latencyMs?: number; // Request start to end of stream
+  timeToFirstTokenMs?: number;
+  cost: number; // USD, from per-model input/output pricing
+}
+
 class EmbeddingDatabase extends Dexie {
   documents!: Table<Document>;
   chunks!: Table<DocumentChunk>;
@@ -175,6 +258,12 @@ class EmbeddingDatabase extends Dexie {
   studySessions!: Table<StudySession>;
   studyProgress!: Table<StudyProgress>;
   errorLog!: Table<ErrorLog>;
+  usageRecords!: Table<UsageRecord>;
+  vectorIndex!: Table<VectorIndexEntry>;
+  vectorIndexMeta!: Table<VectorIndexMeta>;
+  lexicalIndex!: Table<LexicalPosting>;
+  lexicalIndexDocs!: Table<LexicalIndexDoc>;
+  lexicalIndexMeta!: Table<LexicalIndexMeta>;
 
   constructor() {
     super('EmbeddingDatabase');
@@ -192,6 +281,30 @@ class EmbeddingDatabase extends Dexie {
       studyProgress: '++id, subject, topic, lastPracticed, updatedAt',
       errorLog: '++id, subject, topic, timestamp, resolved',
     });
+    this.version(8).stores({
+      usageRecords: '++id, conversationId, messageId, timestamp, model, provider, taskType, mode',
+    });
+    // Existing chunks are indexed on the first search
+    this.version(9).stores({
+      vectorIndex: 'chunkId, documentId, list',
+      vectorIndexMeta: 'id',
+    });
+    this.version(10).stores({
+      lexicalIndex: '[term+chunkId], term, chunkId, documentId',
+      lexicalIndexDocs: 'chunkId, documentId',
+      lexicalIndexMeta: 'id',
+    });
+    // Chunks record their embedding model; every embedding stored before then came from OpenAI
+    this.version(11).stores({
+      chunks: '++id, documentId, chunkIndex, [documentId+chunkIndex], embeddingModel',
+    }).upgrade((tx) =>
+      tx.table('chunks').toCollection().modify((chunk: DocumentChunk) => {
+        if (chunk.embedding?.length > 0 && !chunk.embeddingModel) {
+          chunk.embeddingModel = LEGACY_EMBEDDING_MODEL;
+          chunk.embeddingDimension = chunk.embedding.length;
+        }
+      })
+    );
   }
 }
 
@@ -0,0 +1,245 @@
+/**
+ * Routing Evaluation
+ *
+ * Replays labelled chat requests (routing-corpus.json) through the same
+ * routing steps as app/api/chat/route.ts and compares the task type, model and
+ * offered tools with the expected ones. With a candidate policy, each case is
+ * routed twice and the estimated cost difference is reported.
+ *
+ * Routing itself makes no network calls once the classifier is limited to its
+ * rules; scripts/eval-routing.ts stubs providers and fetch to make sure.
+ */
+
+import { routeRequest, TaskType } from '@/lib/llm/router';
+import {
+  routeAgentToOptimalLLM,
+  estimateCodingComplexity,
+  getAgentTypeForMode,
+} from '@/lib/llm/agent-router';
+import { ChatMode, RoutingPolicyChanges, TASK_TYPES, setCandidateRoutingPolicy } from '@/lib/llm/routing-policy';
+import { getModelPricing, resolveModelId, supportsTools } from '@/lib/llm/model-catalog';
+import { providers } from '@/lib/llm/providers';
+import { getToolDefinitions } from '@/lib/tools';
+import type { Message } from '@/lib/llm/types';
+import type { FileData } from '@/lib/types/api';
+import corpus from './routing-corpus.json';
+
+export interface RoutingEvalCase {
+  id: string;
+  prompt: string;
+  mode?: ChatMode;
+  files?: Array<{ name: string; type: string }>;
+  deepWebSearch?: boolean;
+  outputTokens?: number; // Expected reply length for cost estimates
+  expected: {
+    taskType: TaskType;
+    model: string;
+    tools: string[];
+  };
+}
+
+export interface RoutedCase {
+  taskType: TaskType;
+  model: string;
+  tools: string[];
+  cost: number; // Estimated USD for one request
+}
+
+export interface RoutingEvalResult {
+  id: string;
+  expected: RoutingEvalCase['expected'];
+  actual: RoutedCase;
+  candidate?: RoutedCase;
+  taskTypeCorrect: boolean;
+  modelCorrect: boolean;
+  toolsCorrect: boolean;
+}
+
+export interface RoutingEvalReport {
+  total: number;
+  accuracy: { taskType: number; model: number; tools: number; all: number };
+  candidateAccuracy?: { taskType: number; model: number; tools: number; all: number };
+  confusion: Record<TaskType, Partial<Record<TaskType, number>>>; // expected → actual → count
+  cost: { baseline: number; candidate?: number; delta?: number };
+  results: RoutingEvalResult[];
+}
+
+const DEFAULT_OUTPUT_TOKENS = 800;
+const SYSTEM_PROMPT_TOKENS = 1500; // Agent prompt and tool schemas sent with every request
+
+export const ROUTING_CORPUS = corpus.cases as RoutingEvalCase[];
+
+/**
+ * Route one case like the chat route: classify, then use the mode's agent rule
+ */
+export async function routeEvalCase(testCase: RoutingEvalCase): Promise<RoutedCase> {
+  const { prompt, mode = 'primary', files = [], deepWebSearch = false } = testCase;
+  const hasImages = files.some((f) => f.type.startsWith('image/'));
+  const hasCode = /```/.test(prompt);
+  const fileCount = files.length;
+  const messages: Message[] = [{ role: 'user', content: prompt }];
+
+  const route = await routeRequest(messages, { hasImages, hasCode, fileCount, mode, deepWebSearch });
+  const config = routeAgentToOptimalLLM(getAgentTypeForMode(mode), {
+    taskType: route.taskType,
+    hasImages,
+    hasCode,
+    fileCount,
+    complexity: mode === 'coding' ? estimateCodingComplexity(prompt, hasCode, fileCount) : undefined,
+    deepWebSearch,
+    mode,
+  });
+
+  // Tools are only offered, never run, so attachments need no content
+  const documents: FileData[] = files.filter((f) => !f.type.startsWith('image/'));
+  const tools = providers[config.provider]?.supportsTools && supportsTools(config.model)
+    ? getToolDefinitions({ files: documents }).map((tool) => tool.function.name)
+    : [];
+
+  return {
+    taskType: route.taskType,
+    model: config.model,
+    tools,
+    cost: estimateCost(config.model, prompt, testCase.outputTokens ?? DEFAULT_OUTPUT_TOKENS),
+  };
+}
+
+/**
+ * Estimated request cost from catalog prices (prompt chars / 4 plus system prompt)
+ */
+function estimateCost(model: string, prompt: string, outputTokens: number): number {
+  const pricing = getModelPricing(model);
+  if (!pricing) return 0;
+  const promptTokens = Math.ceil(prompt.length / 4) + SYSTEM_PROMPT_TOKENS;
+  return (promptTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
+
+function sameTools(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((tool) => b.includes(tool));
+}
+
+function score(expected: RoutingEvalCase['expected'], routed: RoutedCase) {
+  return {
+    taskTypeCorrect: routed.taskType === expected.taskType,
+    modelCorrect: routed.model === resolveModelId(expected.model),
+    toolsCorrect: sameTools(routed.tools, expected.tools),
+  };
+}
+
+function accuracy(scores: Array<ReturnType<typeof score>>) {
+  const share = (count: number) => (scores.length ? count / scores.length : 0);
+  return {
+    taskType: share(scores.filter((s) => s.taskTypeCorrect).length),
+    model: share(scores.filter((s) => s.modelCorrect).length),
+    tools: share(scores.filter((s) => s.toolsCorrect).length),
+    all: share(scores.filter((s) => s.taskTypeCorrect && s.modelCorrect && s.toolsCorrect).length),
+  };
+}
+
+/**
+ * Evaluate the current routing policy, and optionally a candidate on top of it
+ */
+export async function evaluateRouting(
+  cases: RoutingEvalCase[] = ROUTING_CORPUS,
+  candidate?: RoutingPolicyChanges
+): Promise<RoutingEvalReport> {
+  const results: RoutingEvalResult[] = [];
+  const candidateScores: Array<ReturnType<typeof score>> = [];
+
+  for (const testCase of cases) {
+    const actual = await routeEvalCase(testCase);
+    const result: RoutingEvalResult = { id: testCase.id, expected: testCase.expected, actual, ...score(testCase.expected, actual) };
+
+    if (candidate) {
+      setCandidateRoutingPolicy(candidate);
+      try {
+        result.candidate = await routeEvalCase(testCase);
+      } finally {
+        setCandidateRoutingPolicy(null);
+      }
+      candidateScores.push(score(testCase.expected, result.candidate));
+    }
+    results.push(result);
+  }
+
+  const confusion = Object.fromEntries(TASK_TYPES.map((taskType) => [taskType, {}])) as RoutingEvalReport['confusion'];
+  for (const { expected, actual } of results) {
+    const row = confusion[expected.taskType];
+    row[actual.taskType] = (row[actual.taskType] || 0) + 1;
+  }
+
+  const baselineCost = results.reduce((sum, r) => sum + r.actual.cost, 0);
+  const candidateCost = candidate ? results.reduce((sum, r) => sum + (r.candidate?.cost || 0), 0) : undefined;
+
+  return {
+    total: results.length,
+    accuracy: accuracy(results),
+    candidateAccuracy: candidate ? accuracy(candidateScores) : undefined,
+    confusion,
+    cost: {
+      baseline: baselineCost,
+      candidate: candidateCost,
+      delta: candidateCost !== undefined ? candidateCost - baselineCost : undefined,
+    },
+    results,
+  };
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const usd = (value: number) => `$${value.toFixed(4)}`;
+
+/**
+ * Plain-text report: accuracy, misrouted cases, confusion matrix and cost
+ */
+export function formatRoutingReport(report: RoutingEvalReport): string {
+  const lines: string[] = [];
+  const formatAccuracy = (label: string, acc: RoutingEvalReport['accuracy']) =>
+    `${label}: task type ${percent(acc.taskType)}, model ${percent(acc.model)}, tools ${percent(acc.tools)}, all ${percent(acc.all)}`;
+
+  lines.push(`Routing evaluation: ${report.total} cases`);
+  lines.push(formatAccuracy('Current policy', report.accuracy));
+  if (report.candidateAccuracy) lines.push(formatAccuracy('Candidate policy', report.candidateAccuracy));
+
+  const misses = report.results.filter((r) => !(r.taskTypeCorrect && r.modelCorrect && r.toolsCorrect));
+  if (misses.length > 0) {
+    lines.push('', 'Misrouted (current policy):');
+    for (const r of misses) {
+      const diffs: string[] = [];
+      if (!r.taskTypeCorrect) diffs.push(`task ${r.actual.taskType} (expected ${r.expected.taskType})`);
+      if (!r.modelCorrect) diffs.push(`model ${r.actual.model} (expected ${r.expected.model})`);
+      if (!r.toolsCorrect) diffs.push(`tools [${r.actual.tools.join(', ')}] (expected [${r.expected.tools.join(', ')}])`);
+      lines.push(`  ${r.id}: ${diffs.join('; ')}`);
+    }
+  }
+
+  // Only task types that occur, expected as rows and actual as columns
+  const used = TASK_TYPES.filter(
+    (taskType) =>
+      Object.keys(report.confusion[taskType]).length > 0 ||
+      TASK_TYPES.some((row) => report.confusion[row][taskType])
+  );
+  const labels = used.map((taskType, i) => `${i + 1}. ${taskType}`);
+  const width = Math.max(...labels.map((label) => label.length)) + 1;
+  lines.push('', 'Confusion matrix (rows expected, columns actual):');
+  lines.push(''.padEnd(width) + used.map((_, i) => String(i + 1).padStart(4)).join(''));
+  used.forEach((row, i) => {
+    const cells = used.map((col) => String(report.confusion[row][col] || '.').padStart(4));
+    lines.push(labels[i].padEnd(width) + cells.join(''));
+  });
+
+  lines.push('', `Estimated cost (current policy): ${usd(report.cost.baseline)}`);
+  if (report.cost.candidate !== undefined && report.cost.delta !== undefined) {
+    const change = report.cost.baseline > 0 ? ` (${report.cost.delta >= 0 ? '+' : ''}${percent(report.cost.delta / report.cost.baseline)})` : '';
+    lines.push(`Estimated cost (candidate policy): ${usd(report.cost.candidate)}, delta ${usd(report.cost.delta)}${change}`);
+    const changed = report.results.filter((r) => r.candidate && r.candidate.model !== r.actual.model);
+    if (changed.length > 0) {
+      lines.push('', 'Model changes with the candidate policy:');
+      for (const r of changed) {
+        const delta = r.candidate!.cost - r.actual.cost;
+        lines.push(`  ${r.id}: ${r.actual.model} → ${r.candidate!.model} (${delta >= 0 ? '+' : ''}${usd(delta)})`);
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -14,8 +14,11 @@
  */
 
 import { ModelConfig } from './router';
-import { getOpenRouterModelId } from './openrouter-models';
 import { TaskType } from './router';
+import { applyBudget, BudgetStatus } from './budget';
+import { avoidOpenCircuits } from './health';
+import { applyCatalogPricing, supportsVision } from './model-catalog';
+import { getAgentRule, getTaskRule, getRuleConfigs, ChatMode } from './routing-policy';
 
 export type AgentType = 
   | 'chat' 
@@ -32,212 +35,65 @@ export interface AgentRoutingContext {
   fileCount?: number;
   complexity?: number; // 0-1 scale for coding tasks
   deepWebSearch?: boolean; // Force Perplexity for research
+  mode?: ChatMode;
+  budget?: BudgetStatus; // Steps down to cheaper models near the monthly limit
 }
 
 /**
- * Optimal LLM assignments per agent type:
+ * Agent type whose budget a chat mode spends from
+ */
+export function getAgentTypeForMode(mode: 'primary' | 'coding' | 'study' = 'primary'): AgentType {
+  return mode === 'coding' ? 'code' : mode === 'study' ? 'study' : 'chat';
+}
+
+/**
+ * Model for an agent type, from the routing policy (lib/llm/routing-policy.ts).
+ * Defaults:
  * 
- * - Chat Agent → Perplexity Pro (research) or Claude Sonnet 4.5 (reasoning)
- * - Resume Optimization → Claude Sonnet 4.5 (superior reasoning, structured output)
- * - Cover Letter Optimization → Claude Sonnet 4.5 (nuanced writing, tone adaptation)
+ * - Chat Agent → Perplexity Sonar Pro (research) or Claude 3.5 Sonnet (reasoning)
+ * - Resume Optimization → Claude 3.5 Sonnet (superior reasoning, structured output)
+ * - Cover Letter Optimization → Claude 3.5 Sonnet (nuanced writing, tone adaptation)
  * - Personal Info Extraction → GPT-4o (fast multimodal, structured JSON)
- * - Coding Mode → Claude Opus 4.1 (complex) or Sonnet 4.5 (most tasks)
- * - Study Mode (EELC) → Claude Sonnet 4.5 (patient explanation, adaptive teaching)
+ * - Coding Mode → Claude Opus 4 (complex) or Claude 3.5 Sonnet (most tasks)
+ * - Study Mode (EELC) → Claude 3.5 Sonnet (patient explanation, adaptive teaching)
+ *
+ * Models whose circuit is open are swapped for the first healthy fallback
  */
 export function routeAgentToOptimalLLM(
   agentType: AgentType,
   context: AgentRoutingContext = {}
 ): ModelConfig {
-  // All routing goes through OpenRouter for unified access
-  const baseConfig = {
-    provider: 'openrouter' as const,
-  };
-
-  switch (agentType) {
-    case 'chat': {
-      // Chat agent: Perplexity Pro for research, Claude Sonnet 4.5 for reasoning
-      const isResearch = 
-        context.deepWebSearch ||
-        context.taskType === 'web_search' ||
-        context.taskType === 'deep_research' ||
-        (context.taskType === 'general' && context.deepWebSearch);
-
-      if (isResearch) {
-        // Use Perplexity Pro Search for deep research, Sonar Pro for web search
-        const isDeepResearch = context.taskType === 'deep_research';
-        return {
-          ...baseConfig,
-          model: isDeepResearch 
-            ? getOpenRouterModelId('perplexity/sonar-pro-search')
-            : getOpenRouterModelId('perplexity/sonar-pro'),
-          maxTokens: isDeepResearch ? 8192 : 4096,
-          temperature: isDeepResearch ? 0.3 : 0.7,
-          costPer1M: isDeepResearch ? 15 : 1, // Perplexity Pro Search is more expensive
-        };
-      }
-
-      // Default to Claude Sonnet 4.5 for general chat and reasoning
-      return {
-        ...baseConfig,
-        model: getOpenRouterModelId('claude-3-5-sonnet-20241022'),
-        maxTokens: 8192,
-        temperature: 0.7,
-        costPer1M: 3,
-      };
-    }
-
-    case 'resume': {
-      // Resume optimization: Claude Sonnet 4.5 (best reasoning, structured output)
-      return {
-        ...baseConfig,
-        model: getOpenRouterModelId('claude-3-5-sonnet-20241022'),
-        maxTokens: 8192,
-        temperature: 0.3, // Lower temp for more precise, structured output
-        costPer1M: 3,
-      };
-    }
-
-    case 'cover-letter': {
-      // Cover letter optimization: Claude Sonnet 4.5 (nuanced writing, tone adaptation)
-      return {
-        ...baseConfig,
-        model: getOpenRouterModelId('claude-3-5-sonnet-20241022'),
-        maxTokens: 8192,
-        temperature: 0.7, // Higher temp for more natural, varied writing
-        costPer1M: 3,
-      };
-    }
-
-    case 'extract': {
-      // Personal info extraction: GPT-4o (fast multimodal, excellent structured output)
-      return {
-        ...baseConfig,
-        model: getOpenRouterModelId('gpt-4o'),
-        maxTokens: 4096,
-        temperature: 0.1, // Very low temp for accurate extraction
-        costPer1M: 2.5, // GPT-4o pricing
-      };
-    }
-
-    case 'code': {
-      // Coding mode: Claude Opus 4.1 for complex tasks, Sonnet 4.5 for most
-      // Complexity threshold: 0.7 (70% complexity) → use Opus
-      const useOpus = (context.complexity ?? 0) > 0.7;
-
-      if (useOpus) {
-        // Complex coding tasks: Claude Opus 4 (world's best coding model)
-        return {
-          ...baseConfig,
-          model: getOpenRouterModelId('claude-opus-4.1'), // Maps to anthropic/claude-opus-4
-          maxTokens: 8192,
-          temperature: 0.3,
-          costPer1M: 15, // Opus pricing
-        };
-      }
-
-      // Most coding tasks: Claude Sonnet 4.5 (excellent quality, better cost)
-      return {
-        ...baseConfig,
-        model: getOpenRouterModelId('claude-3-5-sonnet-20241022'),
-        maxTokens: 8192,
-        temperature: 0.3,
-        costPer1M: 3,
-      };
-    }
-
-    case 'study': {
-      // Study mode (EELC): Claude Sonnet 4.5 (patient explanation, adaptive teaching)
-      return {
-        ...baseConfig,
-        model: getOpenRouterModelId('claude-3-5-sonnet-20241022'),
-        maxTokens: 8192,
-        temperature: 0.7, // Balanced for natural teaching style
-        costPer1M: 3,
-      };
-    }
+  return applyCatalogPricing(avoidOpenCircuits(
+    applyBudget(selectAgentModel(agentType, context), context.budget, context.hasImages),
+    getAgentFallbackChain(agentType, context)
+  ));
+}
 
-    default: {
-      // Fallback: Claude Sonnet 4.5
-      return {
-        ...baseConfig,
-        model: getOpenRouterModelId('claude-3-5-sonnet-20241022'),
-        maxTokens: 4096,
-        temperature: 0.7,
-        costPer1M: 3,
-      };
-    }
+function selectAgentModel(
+  agentType: AgentType,
+  context: AgentRoutingContext = {}
+): ModelConfig {
+  const config = getRuleConfigs(getAgentRule(agentType, context))[0];
+  // The policy may pick a text-only model (e.g. Perplexity for research)
+  if (context.hasImages && !supportsVision(config.model)) {
+    return getRuleConfigs(getTaskRule('vision', context))[0];
   }
+  return config;
 }
 
 /**
  * Get fallback chain for an agent type
- * Used when primary LLM fails or is unavailable
+ * Used when primary LLM fails or is unavailable: the matching policy rule's
+ * model followed by its fallbacks
+ * With a budget, fallbacks are downgraded the same way as the primary model
  */
-export function getAgentFallbackChain(agentType: AgentType): ModelConfig[] {
-  const fallbacks: Record<AgentType, ModelConfig[]> = {
-    chat: [
-      routeAgentToOptimalLLM('chat', { taskType: 'general' }), // Claude Sonnet
-      {
-        provider: 'openrouter',
-        model: getOpenRouterModelId('gpt-4o'),
-        maxTokens: 4096,
-        temperature: 0.7,
-        costPer1M: 2.5,
-      },
-    ],
-    resume: [
-      routeAgentToOptimalLLM('resume'), // Claude Sonnet
-      {
-        provider: 'openrouter',
-        model: getOpenRouterModelId('gpt-4o'),
-        maxTokens: 8192,
-        temperature: 0.3,
-        costPer1M: 2.5,
-      },
-    ],
-    'cover-letter': [
-      routeAgentToOptimalLLM('cover-letter'), // Claude Sonnet
-      {
-        provider: 'openrouter',
-        model: getOpenRouterModelId('gpt-4o'),
-        maxTokens: 8192,
-        temperature: 0.7,
-        costPer1M: 2.5,
-      },
-    ],
-    extract: [
-      routeAgentToOptimalLLM('extract'), // GPT-4o
-      {
-        provider: 'openrouter',
-        model: getOpenRouterModelId('claude-3-5-sonnet-20241022'),
-        maxTokens: 4096,
-        temperature: 0.1,
-        costPer1M: 3,
-      },
-    ],
-    code: [
-      routeAgentToOptimalLLM('code', { complexity: 0.5 }), // Claude Sonnet
-      {
-        provider: 'openrouter',
-        model: getOpenRouterModelId('gpt-4o'),
-        maxTokens: 8192,
-        temperature: 0.3,
-        costPer1M: 2.5,
-      },
-    ],
-    study: [
-      routeAgentToOptimalLLM('study'), // Claude Sonnet
-      {
-        provider: 'openrouter',
-        model: getOpenRouterModelId('gpt-4o'),
-        maxTokens: 8192,
-        temperature: 0.7,
-        costPer1M: 2.5,
-      },
-    ],
-  };
-
-  return fallbacks[agentType] || [routeAgentToOptimalLLM('chat')];
+export function getAgentFallbackChain(
+  agentType: AgentType,
+  context: AgentRoutingContext = {}
+): ModelConfig[] {
+  const chain = getRuleConfigs(getAgentRule(agentType, context));
+  const { budget, hasImages } = context;
+  return budget ? chain.map((config) => applyBudget(config, budget, hasImages)) : chain;
 }
 
 /**
@@ -0,0 +1,270 @@
+/**
+ * Monthly Budget Enforcement
+ *
+ * Server-side spend ledger and budget policy respected by routeRequest and
+ * routeAgentToOptimalLLM:
+ * - Below `downgradeAt` of a limit: models are used as routed
+ * - Past `downgradeAt`: step down one tier (e.g. Sonnet → Haiku)
+ * - Past `criticalAt`: step down two tiers (e.g. Sonnet → Haiku → Llama 8B)
+ * - At the hard cap: paid requests are refused unless explicitly overridden
+ *
+ * Limits apply to total monthly spend and per agent type. Chat modes map to
+ * agent types (primary → chat, coding → code, study → study).
+ *
+ * Policy comes from the environment (BUDGET_MONTHLY_USD, BUDGET_<AGENT>_USD)
+ * and can be updated at runtime via /api/budget. Policy and ledger are kept in
+ * a JSON file (BUDGET_STORE_PATH, default .data/budget.json) and in memory
+ * when the filesystem is read-only.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ModelConfig } from './router';
+import type { AgentType } from './agent-router';
+import { calculateOpenRouterCost } from './openrouter-models';
+import { getModelPricing, supportsVision } from './model-catalog';
+import { BudgetExceededError } from './errors';
+
+export const BUDGET_AGENT_TYPES: AgentType[] = ['chat', 'resume', 'cover-letter', 'extract', 'code', 'study'];
+
+export interface BudgetPolicy {
+  monthlyLimit: number | null; // USD across all agents
+  agentLimits: Partial<Record<AgentType, number>>; // USD per agent type
+  downgradeAt: number; // Fraction of a limit (0-1)
+  criticalAt: number; // Fraction of a limit (0-1)
+}
+
+export interface BudgetLedger {
+  month: string; // YYYY-MM
+  total: number;
+  byAgent: Partial<Record<AgentType, number>>;
+}
+
+export type BudgetLevel = 'ok' | 'downgrade' | 'critical' | 'exceeded';
+
+export interface BudgetStatus {
+  agentType: AgentType;
+  level: BudgetLevel;
+  ratio: number; // Highest spend/limit ratio of the applicable limits
+  spent: number; // Spend against the limit that produced `ratio`
+  limit: number | null;
+  override: boolean; // User explicitly allowed requests past the hard cap
+}
+
+interface BudgetStore {
+  policy: Partial<BudgetPolicy>;
+  ledger: BudgetLedger;
+}
+
+/**
+ * Cheaper models to step down to, most expensive first
+ */
+const DOWNGRADE_LADDER: Array<{ model: string; maxTokens: number }> = [
+  { model: 'anthropic/claude-3.5-sonnet', maxTokens: 8192 },
+  { model: 'anthropic/claude-3.5-haiku', maxTokens: 4096 },
+  { model: 'groq/llama-3.1-8b-instant', maxTokens: 4096 },
+];
+
+const STORE_PATH = process.env.BUDGET_STORE_PATH || path.join(process.cwd(), '.data', 'budget.json');
+
+let store: BudgetStore | null = null;
+let persistFailed = false;
+
+function currentMonth(): string {
+  return new Date().toISOString().slice(0, 7);
+}
+
+function emptyLedger(): BudgetLedger {
+  return { month: currentMonth(), total: 0, byAgent: {} };
+}
+
+function getEnvPolicy(): BudgetPolicy {
+  const usd = (name: string) => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : null;
+  };
+  const agentLimits: Partial<Record<AgentType, number>> = {};
+  for (const agentType of BUDGET_AGENT_TYPES) {
+    const limit = usd(`BUDGET_${agentType.toUpperCase().replace('-', '_')}_USD`);
+    if (limit !== null) agentLimits[agentType] = limit;
+  }
+  return {
+    monthlyLimit: usd('BUDGET_MONTHLY_USD'),
+    agentLimits,
+    downgradeAt: usd('BUDGET_DOWNGRADE_AT') ?? 0.8,
+    criticalAt: usd('BUDGET_CRITICAL_AT') ?? 0.95,
+  };
+}
+
+async function loadStore(): Promise<BudgetStore> {
+  if (!store) {
+    try {
+      store = JSON.parse(await fs.readFile(STORE_PATH, 'utf-8')) as BudgetStore;
+    } catch {
+      store = { policy: {}, ledger: emptyLedger() };
+    }
+  }
+  // New calendar month: start a fresh ledger
+  if (store.ledger.month !== currentMonth()) {
+    store.ledger = emptyLedger();
+  }
+  return store;
+}
+
+async function saveStore(data: BudgetStore): Promise<void> {
+  try {
+    await fs.mkdir(path.dirname(STORE_PATH), { recursive: true });
+    await fs.writeFile(STORE_PATH, JSON.stringify(data, null, 2), 'utf-8');
+  } catch (error: any) {
+    if (!persistFailed) {
+      console.warn(`[Budget] Could not persist ${STORE_PATH}, keeping budget in memory: ${error?.message || error}`);
+      persistFailed = true;
+    }
+  }
+}
+
+/**
+ * Effective policy: environment defaults overridden by saved settings
+ */
+export async function getBudgetPolicy(): Promise<BudgetPolicy> {
+  const { policy } = await loadStore();
+  const env = getEnvPolicy();
+  return {
+    ...env,
+    ...policy,
+    agentLimits: { ...env.agentLimits, ...policy.agentLimits },
+  };
+}
+
+/**
+ * Save policy changes (null removes a limit)
+ */
+export async function updateBudgetPolicy(
+  changes: Partial<Omit<BudgetPolicy, 'agentLimits'>> & {
+    agentLimits?: Partial<Record<AgentType, number | null>>;
+  }
+): Promise<BudgetPolicy> {
+  const data = await loadStore();
+  const { agentLimits, ...rest } = changes;
+  const nextAgentLimits: Partial<Record<AgentType, number>> = { ...data.policy.agentLimits };
+
+  for (const [agentType, limit] of Object.entries(agentLimits || {}) as Array<[AgentType, number | null]>) {
+    if (limit === null) {
+      delete nextAgentLimits[agentType];
+    } else {
+      nextAgentLimits[agentType] = limit;
+    }
+  }
+
+  data.policy = { ...data.policy, ...rest, agentLimits: nextAgentLimits };
+  await saveStore(data);
+  return getBudgetPolicy();
+}
+
+/**
+ * Current month's spend
+ */
+export async function getBudgetLedger(): Promise<BudgetLedger> {
+  return { ...(await loadStore()).ledger };
+}
+
+/**
+ * Add the cost of a completed request to the ledger
+ */
+export async function recordSpend(
+  agentType: AgentType,
+  model: string,
+  usage: { promptTokens?: number; completionTokens?: number; totalTokens?: number } | null | undefined
+): Promise<number> {
+  if (!usage) return 0;
+  const cost = calculateOpenRouterCost(usage, model);
+  if (cost <= 0) return 0;
+
+  const data = await loadStore();
+  data.ledger.total += cost;
+  data.ledger.byAgent[agentType] = (data.ledger.byAgent[agentType] || 0) + cost;
+  await saveStore(data);
+  return cost;
+}
+
+/**
+ * Budget level for an agent type, from whichever limit is closest to its cap
+ */
+export async function getBudgetStatus(agentType: AgentType, override: boolean = false): Promise<BudgetStatus> {
+  const policy = await getBudgetPolicy();
+  const ledger = await getBudgetLedger();
+  const status: BudgetStatus = { agentType, level: 'ok', ratio: 0, spent: ledger.total, limit: null, override };
+
+  const limits: Array<[number, number | null | undefined]> = [
+    [ledger.total, policy.monthlyLimit],
+    [ledger.byAgent[agentType] || 0, policy.agentLimits[agentType]],
+  ];
+  for (const [spent, limit] of limits) {
+    if (!limit) continue;
+    const ratio = spent / limit;
+    if (status.limit === null || ratio > status.ratio) {
+      Object.assign(status, { ratio, spent, limit });
+    }
+  }
+
+  if (status.ratio >= 1) status.level = 'exceeded';
+  else if (status.ratio >= policy.criticalAt) status.level = 'critical';
+  else if (status.ratio >= policy.downgradeAt) status.level = 'downgrade';
+
+  return status;
+}
+
+/**
+ * Input price per 1M tokens used to rank models
+ */
+function getModelPrice(model: string, fallback: number): number {
+  return getModelPricing(model)?.input ?? fallback;
+}
+
+/**
+ * JSON body returned with HTTP 402 when a request is refused
+ */
+export function getBudgetErrorBody(error: BudgetExceededError) {
+  return {
+    error: error.message,
+    budgetExceeded: true,
+    budget: error.budget,
+  };
+}
+
+/**
+ * Apply the budget to a routed model: step down to cheaper models near the
+ * limit and refuse paid models at the hard cap unless overridden.
+ * Overridden requests still use the cheapest suitable model.
+ */
+export function applyBudget(
+  config: ModelConfig,
+  budget: BudgetStatus | undefined,
+  needsVision: boolean = false
+): ModelConfig {
+  if (!budget || budget.level === 'ok') {
+    return config;
+  }
+
+  const price = getModelPrice(config.model, config.costPer1M);
+  if (budget.level === 'exceeded' && !budget.override && price > 0) {
+    throw new BudgetExceededError(budget);
+  }
+
+  const steps = budget.level === 'downgrade' ? 1 : 2;
+  const cheaper = DOWNGRADE_LADDER.filter(
+    (entry) => (!needsVision || supportsVision(entry.model)) && getModelPrice(entry.model, Infinity) < price
+  );
+  if (cheaper.length === 0) {
+    return config;
+  }
+
+  const target = cheaper[Math.min(steps, cheaper.length) - 1];
+  return {
+    ...config,
+    provider: 'openrouter',
+    model: target.model,
+    maxTokens: Math.min(config.maxTokens, target.maxTokens),
+    costPer1M: getModelPrice(target.model, config.costPer1M),
+  };
+}
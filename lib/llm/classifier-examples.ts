@@ -0,0 +1,93 @@
+import type { TaskType } from './router';
+
+/**
+ * Labelled example requests per task type
+ * Embedded once per process for nearest-neighbour classification; add
+ * examples here when a kind of request is misrouted
+ */
+export const TASK_EXAMPLES: Record<TaskType, string[]> = {
+  web_search: [
+    "What's the weather in Toronto today?",
+    'Latest news about the Fed interest rate decision',
+    'What is the current price of Bitcoin?',
+    'Who won the game last night?',
+    'Find recent reviews of the new Pixel phone',
+  ],
+  deep_research: [
+    'Write a comprehensive report on the state of solid-state battery research, with sources',
+    'Do a deep dive into the causes of the 2008 financial crisis and compare expert views',
+    'Investigate the evidence for and against intermittent fasting in recent studies',
+    'Give me an in-depth market analysis of the electric scooter industry in Europe',
+    'Research the history and current regulation of stablecoins across major countries',
+  ],
+  code_generation: [
+    'Write a Python function that merges two sorted lists',
+    'Create a React component for a paginated table',
+    'Implement a rate limiter in TypeScript using a token bucket',
+    'Generate a SQL query that returns the top 5 customers by revenue',
+    'Build a CLI in Go that renames files by date',
+  ],
+  code_editing: [
+    'Fix the bug in this function, it returns undefined for empty arrays',
+    'Refactor this class to use dependency injection',
+    'Why does this code throw a null pointer exception?',
+    'Optimize this loop, it is too slow on large inputs',
+    'Convert this callback-based code to async/await',
+  ],
+  reasoning: [
+    'Why does the Monty Hall strategy of switching doors win more often?',
+    'Compare the trade-offs between microservices and a monolith for a small team',
+    'How does public key cryptography let two strangers share a secret?',
+    'Prove that the square root of 2 is irrational',
+    'If all bloops are razzies and some razzies are lazzies, are some bloops lazzies?',
+  ],
+  quick_qa: [
+    'What is the capital of Australia?',
+    'Define photosynthesis',
+    'Who wrote Pride and Prejudice?',
+    'How many ounces are in a pound?',
+    'What does HTTP stand for?',
+  ],
+  creative_writing: [
+    'Write a short story about a lighthouse keeper who finds a message in a bottle',
+    'Compose a poem about autumn in the city',
+    'Write a blog post introducing our new coffee subscription',
+    'Create a funny limerick about a cat who loves lasagna',
+    'Draft a heartfelt toast for my sister’s wedding',
+  ],
+  data_analysis: [
+    'Analyze this CSV of monthly sales and tell me which region is growing fastest',
+    'Calculate the mean, median and standard deviation of these numbers',
+    'What trends do you see in this dataset of website visits?',
+    'Make a chart of revenue by quarter from this table',
+    'Run a regression of price against square footage for these listings',
+  ],
+  long_context: [
+    'Summarize this 80-page contract and list every obligation of the tenant',
+    'Read all of these documents and find contradictions between them',
+    'Here is the full transcript of the meeting, extract all action items',
+    'Compare these five research papers and summarize their methods',
+    'Go through this entire codebase dump and explain the architecture',
+  ],
+  vision: [
+    'What is in this picture?',
+    'Read the text in this screenshot',
+    'Describe the chart in the attached image',
+    'What breed is the dog in this photo?',
+    'Transcribe the handwriting in this image',
+  ],
+  study: [
+    "I'm studying organic chemistry, give me a study plan for the next 3 days",
+    'Quiz me on the causes of World War I',
+    'Help me practice derivatives for my calculus exam',
+    'Teach me how eigenvalues work step by step',
+    'Make flashcards for the Spanish subjunctive',
+  ],
+  general: [
+    'Hey, how are you?',
+    'Thanks, that helps!',
+    'Can you help me plan a birthday dinner for six people?',
+    'Give me some ideas for a weekend trip near Vancouver',
+    'What should I cook tonight with chicken and rice?',
+  ],
+};
@@ -0,0 +1,230 @@
+/**
+ * Task Classifier
+ *
+ * Picks the TaskType used for routing. Tries a cheap model call first, then
+ * nearest-neighbour matching against embedded labelled examples
+ * (classifier-examples.ts), and only falls back to the keyword rules in
+ * router.ts when neither gives a confident answer.
+ */
+
+import { classifyTask, TaskType } from './router';
+import { providers } from './providers';
+import { TASK_TYPES } from './routing-policy';
+import { TASK_EXAMPLES } from './classifier-examples';
+import { BudgetStatus, recordSpend } from './budget';
+import { isCircuitOpen } from './health';
+import { getModelProvider } from './local-models';
+import { generateEmbeddings } from '@/lib/utils/embeddings';
+import { validateJsonSchema, JSONSchema } from '@/lib/utils/json-schema';
+
+export type ClassifierMethod = 'llm' | 'embedding' | 'rules';
+
+export interface TaskClassification {
+  taskType: TaskType;
+  confidence: number; // 0-1
+  method: ClassifierMethod;
+}
+
+export interface ClassifierContext {
+  hasImages?: boolean;
+  hasCode?: boolean;
+  fileCount?: number;
+  conversationLength?: number;
+  budget?: BudgetStatus; // Classifier calls are charged to the request's agent
+}
+
+const CLASSIFIER_MODEL = process.env.CLASSIFIER_MODEL || 'groq/llama-3.1-8b-instant';
+const CLASSIFIER_TIMEOUT_MS = Number(process.env.CLASSIFIER_TIMEOUT_MS) || 4000;
+const MIN_LLM_CONFIDENCE = 0.6;
+const MIN_EMBEDDING_CONFIDENCE = 0.5;
+const MIN_EMBEDDING_SIMILARITY = 0.3;
+const NEAREST_NEIGHBOURS = 5;
+const MAX_MESSAGE_CHARS = 2000;
+const RULES_CONFIDENCE = 0.3;
+
+const STAGES: ClassifierMethod[] = ['llm', 'embedding', 'rules'];
+
+const RESULT_SCHEMA: JSONSchema = {
+  type: 'object',
+  required: ['taskType', 'confidence'],
+  properties: {
+    taskType: { type: 'string', enum: TASK_TYPES },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+  },
+};
+
+const SYSTEM_PROMPT = `You classify chat requests for a model router.
+Task types:
+- web_search: needs current information from the web (news, prices, weather)
+- deep_research: comprehensive multi-source research or reports
+- code_generation: write new code
+- code_editing: fix, debug, refactor or explain existing code
+- reasoning: multi-step reasoning, comparisons, proofs, "why" questions
+- quick_qa: short factual question
+- creative_writing: stories, poems, essays, marketing copy
+- data_analysis: analyze data, statistics, tables, charts
+- long_context: working over very long documents or many files
+- vision: understanding images
+- study: learning, studying, exam prep, quizzes, study plans
+- general: anything else, including small talk
+Reply with JSON only: {"taskType": "<one task type>", "confidence": <0 to 1>}`;
+
+interface ExampleEmbedding {
+  taskType: TaskType;
+  embedding: number[];
+}
+
+let exampleEmbeddings: Promise<ExampleEmbedding[]> | null = null;
+
+/**
+ * Classify the latest user message
+ * Images and large inputs are decided structurally; TASK_CLASSIFIER=embedding
+ * or =rules skips the earlier stages
+ */
+export async function classifyRequest(
+  message: string,
+  context: ClassifierContext = {}
+): Promise<TaskClassification> {
+  if (context.hasImages) return { taskType: 'vision', confidence: 1, method: 'rules' };
+  if ((context.fileCount || 0) > 3 || message.length > 15000) {
+    return { taskType: 'long_context', confidence: 1, method: 'rules' };
+  }
+
+  const firstStage = STAGES.indexOf(process.env.TASK_CLASSIFIER as ClassifierMethod);
+  const stages = STAGES.slice(Math.max(firstStage, 0));
+
+  if (stages.includes('llm') && message.trim()) {
+    const result = await classifyWithModel(message, context.budget);
+    if (result && result.confidence >= MIN_LLM_CONFIDENCE) return result;
+  }
+
+  if (stages.includes('embedding') && message.trim()) {
+    const result = await classifyWithExamples(message);
+    if (result && result.confidence >= MIN_EMBEDDING_CONFIDENCE) return result;
+  }
+
+  const taskType = await classifyTask(
+    message,
+    context.hasImages,
+    context.hasCode,
+    context.fileCount || 0,
+    context.conversationLength || 0
+  );
+  return { taskType, confidence: RULES_CONFIDENCE, method: 'rules' };
+}
+
+/**
+ * Ask the classifier model for a task type and confidence
+ * Returns null on any failure so the next stage can run
+ */
+async function classifyWithModel(
+  message: string,
+  budget: BudgetStatus | undefined
+): Promise<TaskClassification | null> {
+  const providerName = getModelProvider(CLASSIFIER_MODEL);
+  const provider = providers[providerName];
+  if (!provider?.isAvailable() || budget?.level === 'exceeded') return null;
+  if (isCircuitOpen(providerName, CLASSIFIER_MODEL)) return null;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const response = await Promise.race([
+      provider.call(
+        [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: message.slice(0, MAX_MESSAGE_CHARS) },
+        ],
+        { model: CLASSIFIER_MODEL, temperature: 0, maxTokens: 50 }
+      ),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`timed out after ${CLASSIFIER_TIMEOUT_MS}ms`)), CLASSIFIER_TIMEOUT_MS);
+      }),
+    ]);
+
+    if (budget) {
+      recordSpend(budget.agentType, CLASSIFIER_MODEL, response.usage).catch(() => {});
+    }
+
+    const json = response.content.match(/\{[\s\S]*\}/)?.[0];
+    if (!json) throw new Error('no JSON in response');
+    const { valid, value } = validateJsonSchema<TaskClassification>(RESULT_SCHEMA, JSON.parse(json));
+    if (!valid) throw new Error('response did not match the schema');
+
+    return { taskType: value.taskType, confidence: value.confidence, method: 'llm' };
+  } catch (error: any) {
+    console.warn(`[Classifier] Model classification failed: ${error?.message || error}`);
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Similarity-weighted vote of the nearest labelled examples
+ * Confidence is the winning task type's share of the vote
+ */
+async function classifyWithExamples(message: string): Promise<TaskClassification | null> {
+  try {
+    const examples = await getExampleEmbeddings();
+    if (examples.length === 0) return null;
+
+    const [embedding] = await generateEmbeddings([message.slice(0, MAX_MESSAGE_CHARS)]);
+    if (!embedding?.length) return null;
+
+    const nearest = examples
+      .map((example) => ({ taskType: example.taskType, similarity: cosineSimilarity(embedding, example.embedding) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, NEAREST_NEIGHBOURS);
+    if (nearest[0].similarity < MIN_EMBEDDING_SIMILARITY) return null;
+
+    const votes = new Map<TaskType, number>();
+    let total = 0;
+    for (const { taskType, similarity } of nearest) {
+      const weight = Math.max(similarity, 0);
+      votes.set(taskType, (votes.get(taskType) || 0) + weight);
+      total += weight;
+    }
+    const [taskType, weight] = Array.from(votes.entries()).sort((a, b) => b[1] - a[1])[0];
+
+    return { taskType, confidence: total > 0 ? weight / total : 0, method: 'embedding' };
+  } catch (error: any) {
+    console.warn(`[Classifier] Embedding classification failed: ${error?.message || error}`);
+    return null;
+  }
+}
+
+/**
+ * Embed the labelled examples once per process
+ * An empty result (embeddings disabled) is cached too; errors are retried
+ */
+function getExampleEmbeddings(): Promise<ExampleEmbedding[]> {
+  if (!exampleEmbeddings) {
+    const labelled = (Object.keys(TASK_EXAMPLES) as TaskType[]).flatMap((taskType) =>
+      TASK_EXAMPLES[taskType].map((text) => ({ taskType, text }))
+    );
+    exampleEmbeddings = generateEmbeddings(labelled.map((example) => example.text))
+      .then((embeddings) =>
+        labelled
+          .map((example, i) => ({ taskType: example.taskType, embedding: embeddings[i] || [] }))
+          .filter((example) => example.embedding.length > 0)
+      )
+      .catch((error) => {
+        exampleEmbeddings = null;
+        throw error;
+      });
+  }
+  return exampleEmbeddings;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
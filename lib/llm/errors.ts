@@ -0,0 +1,178 @@
+/**
+ * Provider Errors
+ *
+ * Typed errors thrown by every provider (see ./provider-adapter), so fallback
+ * logic can switch on the error class instead of matching message strings.
+ * `statusCode` is kept for errors that don't map to a specific class.
+ * Budget refusals, empty replies, attempt timeouts and exhausted fallback
+ * chains have classes too.
+ */
+
+import type { LLMResponse } from './types';
+import type { BudgetStatus } from './budget';
+import type { SchemaValidationError } from '@/lib/utils/json-schema';
+
+export class ProviderError extends Error {
+  provider: string;
+  statusCode?: number;
+
+  constructor(provider: string, message: string, statusCode?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.provider = provider;
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * 429 - too many requests; `retryAfterMs` comes from the Retry-After header
+ */
+export class RateLimitError extends ProviderError {
+  retryAfterMs?: number;
+
+  constructor(provider: string, message: string, statusCode = 429, retryAfterMs?: number) {
+    super(provider, message, statusCode);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Request too large for the model (413, context length, tokens per minute)
+ */
+export class TokenLimitError extends ProviderError {
+  constructor(provider: string, message: string, statusCode = 413) {
+    super(provider, message, statusCode);
+    this.name = 'TokenLimitError';
+  }
+}
+
+/**
+ * Invalid or missing API key (401, 403)
+ */
+export class AuthError extends ProviderError {
+  constructor(provider: string, message: string, statusCode = 401) {
+    super(provider, message, statusCode);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Prompt or reply blocked by the provider's safety filters
+ */
+export class ContentFilterError extends ProviderError {
+  constructor(provider: string, message: string, statusCode?: number) {
+    super(provider, message, statusCode);
+    this.name = 'ContentFilterError';
+  }
+}
+
+/**
+ * Reply still not valid JSON for the requested schema after the repair
+ * retries (see ./structured-output); `usage` covers every attempt
+ */
+export class StructuredOutputError extends ProviderError {
+  errors: SchemaValidationError[];
+  raw: string; // Last reply
+  attempts: number;
+  usage?: LLMResponse['usage'];
+
+  constructor(
+    provider: string,
+    message: string,
+    details: { errors: SchemaValidationError[]; raw: string; attempts: number; usage?: LLMResponse['usage'] }
+  ) {
+    super(provider, message);
+    this.name = 'StructuredOutputError';
+    this.errors = details.errors;
+    this.raw = details.raw;
+    this.attempts = details.attempts;
+    this.usage = details.usage;
+  }
+}
+
+/**
+ * A paid request would exceed the monthly hard cap (see ./budget)
+ */
+export class BudgetExceededError extends Error {
+  budget: BudgetStatus;
+
+  constructor(budget: BudgetStatus) {
+    const spend = budget.limit !== null ? ` ($${budget.spent.toFixed(2)} of $${budget.limit.toFixed(2)})` : '';
+    super(
+      `Monthly budget reached for ${budget.agentType}${spend}. ` +
+      'Raise the limit in Settings or explicitly override to send this request.'
+    );
+    this.name = 'BudgetExceededError';
+    this.budget = budget;
+  }
+}
+
+/**
+ * Stream finished without any content
+ */
+export class EmptyResponseError extends Error {
+  model: string;
+
+  constructor(model: string) {
+    super(`${model} returned an empty response`);
+    this.name = 'EmptyResponseError';
+    this.model = model;
+  }
+}
+
+/**
+ * No streamed chunk within the attempt timeout (see withIdleTimeout in ./fallback)
+ */
+export class TimeoutError extends Error {
+  model: string;
+  timeoutMs: number;
+
+  constructor(model: string, timeoutMs: number) {
+    super(`${model} did not respond within ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'TimeoutError';
+    this.model = model;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Every model in an agent's fallback chain failed (see ./structured-agent);
+ * `lastError` is the last model's error
+ */
+export class AllModelsFailedError extends Error {
+  triedModels: string[];
+  lastError: unknown;
+
+  constructor(triedModels: string[], lastError: unknown) {
+    const reason = lastError instanceof Error ? lastError.message : String(lastError ?? 'no model was available');
+    super(`Tried models: ${triedModels.join(', ') || 'none'}. Last error: ${reason}`);
+    this.name = 'AllModelsFailedError';
+    this.triedModels = triedModels;
+    this.lastError = lastError;
+  }
+}
+
+const TOKEN_LIMIT_PATTERN = /request too large|tokens per minute|\btpm\b|context length|maximum context|too many tokens/;
+const CONTENT_FILTER_PATTERN = /content[ _]filter|content management policy|safety (settings|system)|flagged/;
+
+/**
+ * Typed error for a failed provider response
+ */
+export function createProviderError(
+  provider: string,
+  status: number | undefined,
+  message: string,
+  options: { retryAfterMs?: number; authHint?: string } = {}
+): ProviderError {
+  const text = message.toLowerCase();
+  const detail = status ? `${provider} API error (${status}): ${message}` : `${provider} API error: ${message}`;
+
+  if (status === 413 || TOKEN_LIMIT_PATTERN.test(text)) return new TokenLimitError(provider, detail, status);
+  if (status === 429) return new RateLimitError(provider, detail, status, options.retryAfterMs);
+  if (status === 401 || status === 403) {
+    return new AuthError(provider, options.authHint ? `${detail}\n${options.authHint}` : detail, status);
+  }
+  if (CONTENT_FILTER_PATTERN.test(text)) return new ContentFilterError(provider, detail, status);
+  return new ProviderError(provider, detail, status);
+}
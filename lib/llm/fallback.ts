@@ -0,0 +1,120 @@
+/**
+ * Model Fallback Support
+ *
+ * Error classification for LLM calls, attempt timeouts, and ordering of
+ * fallback chains so models with an open circuit (see ./health) are tried last.
+ */
+
+import type { ModelConfig } from './router';
+import { isCircuitOpen } from './health';
+import {
+  AuthError,
+  BudgetExceededError,
+  ContentFilterError,
+  EmptyResponseError,
+  RateLimitError,
+  StructuredOutputError,
+  TimeoutError,
+  TokenLimitError,
+} from './errors';
+
+export type LLMErrorKind =
+  | 'token_limit' // Request too large for the model (413, TPM)
+  | 'rate_limit' // 429
+  | 'timeout' // No response within the attempt timeout
+  | 'server_error' // 5xx from the provider
+  | 'unavailable' // Network failure, model offline or no endpoints
+  | 'empty_response' // Stream finished without any content
+  | 'auth' // Invalid or missing API key
+  | 'quota' // Out of credits
+  | 'budget' // Monthly budget reached
+  | 'content_filter' // Blocked by the provider's safety filters
+  | 'invalid_output' // Reply did not match the requested JSON Schema
+  | 'bad_request' // 4xx caused by the request itself
+  | 'unknown';
+
+/**
+ * Maximum wait for the next streamed chunk before an attempt is abandoned
+ */
+export const ATTEMPT_IDLE_TIMEOUT_MS = Number(process.env.LLM_ATTEMPT_TIMEOUT_MS) || 45000;
+
+/**
+ * Classify an error thrown by a provider
+ * Typed provider errors (./errors) decide directly; anything else (network
+ * failures, untyped errors) falls back to status codes and message patterns
+ */
+export function classifyLLMError(error: any): LLMErrorKind {
+  if (!error) return 'unknown';
+  if (error instanceof BudgetExceededError) return 'budget';
+  if (error instanceof EmptyResponseError) return 'empty_response';
+  // AbortSignal.timeout() rejects with a DOMException named TimeoutError
+  if (error instanceof TimeoutError || error.name === 'TimeoutError') return 'timeout';
+  if (error instanceof TokenLimitError) return 'token_limit';
+  if (error instanceof RateLimitError) return 'rate_limit';
+  if (error instanceof AuthError) return 'auth';
+  if (error instanceof ContentFilterError) return 'content_filter';
+  if (error instanceof StructuredOutputError) return 'invalid_output';
+
+  const status: number | undefined = error.statusCode ?? error.status;
+  const message = String(error.message || error).toLowerCase();
+
+  if (status === 413 || /request too large|tokens per minute|\btpm\b|context length|maximum context/.test(message)) {
+    return 'token_limit';
+  }
+  if (status === 429 || /rate limit|too many requests/.test(message)) return 'rate_limit';
+  if (status === 401 || status === 403 || /authentication|api key|unauthorized/.test(message)) return 'auth';
+  if (status === 402 || /insufficient (credits|quota)|funding|payment required/.test(message)) return 'quota';
+  if (status === 408 || status === 504 || /timed out|timeout|etimedout/.test(message)) return 'timeout';
+  if (status !== undefined && status >= 500) return 'server_error';
+  if (/no endpoints|unavailable|overloaded|econnreset|econnrefused|enotfound|fetch failed|socket hang up/.test(message)) {
+    return 'unavailable';
+  }
+  if (status !== undefined && status >= 400) return 'bad_request';
+  return 'unknown';
+}
+
+/**
+ * Whether another model may succeed where this one failed
+ * Auth, credit and budget errors apply to every model on the account
+ */
+export function isRetryableError(kind: LLMErrorKind): boolean {
+  return kind !== 'auth' && kind !== 'quota' && kind !== 'budget';
+}
+
+/**
+ * Abandon a stream when no chunk arrives within `ms`
+ */
+export async function* withIdleTimeout<T>(
+  source: AsyncGenerator<T>,
+  ms: number,
+  model: string
+): AsyncGenerator<T> {
+  try {
+    while (true) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new TimeoutError(model, ms)), ms);
+      });
+      try {
+        const result = await Promise.race([source.next(), timeout]);
+        if (result.done) return;
+        yield result.value;
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  } finally {
+    // Let the provider release its reader; don't wait on a stalled stream
+    source.return(undefined).catch(() => {});
+  }
+}
+
+/**
+ * Remove duplicate models and move models with an open circuit to the end of
+ * the chain (kept as a last resort rather than dropped)
+ */
+export function prioritizeHealthyModels(chain: ModelConfig[]): ModelConfig[] {
+  const unique = chain.filter((config, i) => chain.findIndex((c) => c.model === config.model) === i);
+  const open = unique.filter((config) => isCircuitOpen(config.provider, config.model));
+  return [...unique.filter((config) => !open.includes(config)), ...open];
+}
@@ -0,0 +1,236 @@
+/**
+ * Resumable Generations
+ *
+ * Each chat generation gets an ID and runs independently of the HTTP response
+ * that started it. Its SSE events are appended to a buffered, sequence-numbered
+ * log, and any number of clients can tail the log: a client whose connection
+ * dropped reconnects with `Last-Event-ID` and receives only what it missed.
+ *
+ * The generation is cancelled when the user stops it, or when no client has
+ * been connected for GENERATION_ORPHAN_MS (default 30s), so a closed tab does
+ * not keep burning tokens. Logs are kept until GENERATION_TTL_MS (default
+ * 5 minutes) after their last event.
+ *
+ * The log lives in a GenerationStore. The default keeps it in memory, which
+ * suits a single server process; use setGenerationStore to share logs between
+ * instances (e.g. Redis lists with pub/sub). Cancellation is always per process.
+ */
+
+import { randomUUID } from 'crypto';
+
+export interface GenerationEvent {
+  seq: number; // 1-based, sent as the SSE `id`
+  data: string; // SSE data payload
+}
+
+export interface GenerationStore {
+  create: (id: string) => Promise<void>;
+  append: (id: string, data: string) => Promise<number>; // Returns the event's seq
+  finish: (id: string) => Promise<void>;
+  // Events after `afterSeq`; null when the generation is unknown or expired
+  read: (id: string, afterSeq: number) => Promise<{ events: GenerationEvent[]; done: boolean } | null>;
+  // Called after every append and on finish; returns an unsubscribe function
+  subscribe: (id: string, listener: () => void) => () => void;
+}
+
+export interface Generation {
+  id: string;
+  signal: AbortSignal; // Aborted when the generation is stopped or orphaned
+  send: (data: string) => void;
+  finish: () => Promise<void>;
+}
+
+const TTL_MS = Number(process.env.GENERATION_TTL_MS) || 5 * 60 * 1000;
+const ORPHAN_MS = Number(process.env.GENERATION_ORPHAN_MS) || 30 * 1000;
+
+/**
+ * In-memory store; expired logs are swept whenever a generation is created
+ */
+export function createMemoryGenerationStore(ttlMs = TTL_MS): GenerationStore {
+  const logs = new Map<string, { events: GenerationEvent[]; done: boolean; expiresAt: number }>();
+  const listeners = new Map<string, Set<() => void>>();
+
+  const notify = (id: string) => listeners.get(id)?.forEach((listener) => listener());
+  const live = (id: string) => {
+    const log = logs.get(id);
+    if (log && log.expiresAt <= Date.now()) {
+      logs.delete(id);
+      return undefined;
+    }
+    return log;
+  };
+
+  return {
+    create: async (id) => {
+      for (const [key, log] of logs) {
+        if (log.expiresAt <= Date.now()) logs.delete(key);
+      }
+      logs.set(id, { events: [], done: false, expiresAt: Date.now() + ttlMs });
+    },
+    append: async (id, data) => {
+      const log = live(id);
+      if (!log) throw new Error(`Generation ${id} has expired`);
+      const seq = log.events.length + 1;
+      log.events.push({ seq, data });
+      log.expiresAt = Date.now() + ttlMs;
+      notify(id);
+      return seq;
+    },
+    finish: async (id) => {
+      const log = live(id);
+      if (!log) return;
+      log.done = true;
+      log.expiresAt = Date.now() + ttlMs;
+      notify(id);
+    },
+    read: async (id, afterSeq) => {
+      const log = live(id);
+      if (!log) return null;
+      return { events: log.events.slice(Math.max(0, afterSeq)), done: log.done };
+    },
+    subscribe: (id, listener) => {
+      const set = listeners.get(id) || new Set();
+      set.add(listener);
+      listeners.set(id, set);
+      return () => {
+        set.delete(listener);
+        if (set.size === 0) listeners.delete(id);
+      };
+    },
+  };
+}
+
+let store: GenerationStore = createMemoryGenerationStore();
+
+export function setGenerationStore(next: GenerationStore): void {
+  store = next;
+}
+
+/**
+ * Running generations in this process
+ */
+const running = new Map<string, { controller: AbortController; clients: number; orphanTimer?: ReturnType<typeof setTimeout> }>();
+
+/**
+ * Start a generation; events passed to `send` are logged in order
+ */
+export async function startGeneration(): Promise<Generation> {
+  const id = randomUUID();
+  await store.create(id);
+
+  const controller = new AbortController();
+  running.set(id, { controller, clients: 0 });
+
+  // Appends are chained so events keep their order with async stores
+  let pending: Promise<unknown> = Promise.resolve();
+  return {
+    id,
+    signal: controller.signal,
+    send: (data) => {
+      pending = pending
+        .then(() => store.append(id, data))
+        .catch((error) => console.warn(`[Generations] Could not log event for ${id}: ${error?.message || error}`));
+    },
+    finish: async () => {
+      await pending;
+      const entry = running.get(id);
+      if (entry?.orphanTimer) clearTimeout(entry.orphanTimer);
+      running.delete(id);
+      await store.finish(id);
+    },
+  };
+}
+
+/**
+ * Cancel a running generation (stop button)
+ * Returns false when it is not running in this process
+ */
+export function stopGeneration(id: string): boolean {
+  const entry = running.get(id);
+  if (!entry) return false;
+  entry.controller.abort();
+  return true;
+}
+
+function clientConnected(id: string): void {
+  const entry = running.get(id);
+  if (!entry) return;
+  entry.clients++;
+  if (entry.orphanTimer) {
+    clearTimeout(entry.orphanTimer);
+    entry.orphanTimer = undefined;
+  }
+}
+
+function clientDisconnected(id: string): void {
+  const entry = running.get(id);
+  if (!entry) return;
+  entry.clients = Math.max(0, entry.clients - 1);
+  if (entry.clients === 0 && !entry.orphanTimer) {
+    entry.orphanTimer = setTimeout(() => {
+      console.warn(`[Generations] ${id} has had no client for ${ORPHAN_MS / 1000}s, stopping it`);
+      entry.controller.abort();
+    }, ORPHAN_MS);
+  }
+}
+
+/**
+ * SSE stream of a generation's events after `afterSeq`, following it until it
+ * finishes. Returns null when the generation is unknown or expired.
+ */
+export async function streamGeneration(id: string, afterSeq = 0): Promise<ReadableStream<Uint8Array> | null> {
+  if (!(await store.read(id, Number.MAX_SAFE_INTEGER))) return null;
+
+  const encoder = new TextEncoder();
+  let cancelled = false;
+  let wake: (() => void) | null = null;
+  let dirty = false;
+  const unsubscribe = store.subscribe(id, () => {
+    dirty = true;
+    wake?.();
+  });
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      clientConnected(id);
+      let cursor = afterSeq;
+      try {
+        while (!cancelled) {
+          dirty = false;
+          const log = await store.read(id, cursor);
+          if (!log || cancelled) break;
+
+          for (const event of log.events) {
+            controller.enqueue(encoder.encode(`id: ${event.seq}\ndata: ${event.data}\n\n`));
+            cursor = event.seq;
+          }
+          if (log.done) break;
+          if (!dirty) {
+            await new Promise<void>((resolve) => {
+              wake = resolve;
+            });
+            wake = null;
+          }
+        }
+        if (!cancelled) controller.close();
+      } catch (error: any) {
+        if (!cancelled) controller.error(error);
+      } finally {
+        unsubscribe();
+        clientDisconnected(id);
+      }
+    },
+    cancel() {
+      cancelled = true;
+      wake?.();
+    },
+  });
+}
+
+/**
+ * Sequence number from a Last-Event-ID header (0 when absent or invalid)
+ */
+export function parseLastEventId(value: string | null): number {
+  const seq = Number(value);
+  return Number.isInteger(seq) && seq > 0 ? seq : 0;
+}
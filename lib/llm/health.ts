@@ -0,0 +1,246 @@
+/**
+ * Provider/Model Health Registry
+ *
+ * In-process record of recent outcomes per provider/model pair: success rate,
+ * latency percentiles and error kinds. Each pair has a circuit breaker:
+ * - closed: requests flow normally
+ * - open: after repeated failures the model is skipped by the routers until
+ *   the open period ends (doubling on every re-open, up to a cap)
+ * - half_open: requests are let through again; the next success closes the
+ *   circuit, the next failure opens it again
+ */
+
+import type { LLMErrorKind } from './fallback';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export type HealthStatus = 'healthy' | 'degraded' | 'down';
+
+export interface ModelHealth {
+  provider: string;
+  model: string;
+  status: HealthStatus;
+  circuit: CircuitState;
+  samples: number;
+  successRate: number; // 0-1 over the sample window
+  latencyMs: { p50: number; p90: number; p99: number } | null;
+  errors: Partial<Record<LLMErrorKind, number>>;
+  consecutiveFailures: number;
+  openUntil: number | null;
+  lastError?: string;
+  lastCheckedAt: number;
+}
+
+interface Outcome {
+  timestamp: number;
+  ok: boolean;
+  latencyMs: number;
+  errorKind?: LLMErrorKind;
+}
+
+interface HealthEntry {
+  provider: string;
+  model: string;
+  outcomes: Outcome[];
+  consecutiveFailures: number;
+  circuit: CircuitState;
+  openUntil: number;
+  openCount: number; // Consecutive re-opens, for backoff
+  lastError?: string;
+}
+
+const SAMPLE_WINDOW_MS = 15 * 60 * 1000;
+const MAX_SAMPLES = 50;
+const FAILURE_THRESHOLD = 3; // Consecutive failures that open the circuit
+const FAILURE_RATE_THRESHOLD = 0.5; // ...or this failure rate over MIN_SAMPLES
+const MIN_SAMPLES = 6;
+const BASE_OPEN_MS = 60 * 1000;
+const MAX_OPEN_MS = 10 * 60 * 1000;
+const DEGRADED_SUCCESS_RATE = 0.8;
+
+/**
+ * Errors that say something about the model's health rather than the request
+ */
+const HEALTH_ERROR_KINDS: LLMErrorKind[] = ['rate_limit', 'timeout', 'server_error', 'unavailable', 'empty_response', 'unknown'];
+
+const registry = new Map<string, HealthEntry>();
+
+function keyFor(provider: string, model: string): string {
+  return `${provider}:${model}`;
+}
+
+function getEntry(provider: string, model: string): HealthEntry {
+  const key = keyFor(provider, model);
+  let entry = registry.get(key);
+  if (!entry) {
+    entry = {
+      provider,
+      model,
+      outcomes: [],
+      consecutiveFailures: 0,
+      circuit: 'closed',
+      openUntil: 0,
+      openCount: 0,
+    };
+    registry.set(key, entry);
+  }
+  return entry;
+}
+
+function recentOutcomes(entry: HealthEntry): Outcome[] {
+  const cutoff = Date.now() - SAMPLE_WINDOW_MS;
+  return entry.outcomes.filter((o) => o.timestamp >= cutoff);
+}
+
+function percentile(sorted: number[], p: number): number {
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
+
+function addOutcome(entry: HealthEntry, outcome: Outcome): void {
+  entry.outcomes = [...recentOutcomes(entry), outcome].slice(-MAX_SAMPLES);
+}
+
+function openCircuit(entry: HealthEntry): void {
+  const duration = Math.min(BASE_OPEN_MS * 2 ** entry.openCount, MAX_OPEN_MS);
+  entry.circuit = 'open';
+  entry.openUntil = Date.now() + duration;
+  entry.openCount += 1;
+  console.warn(
+    `[Health] Circuit open for ${entry.provider}:${entry.model} for ${duration / 1000}s ` +
+    `(${entry.consecutiveFailures} consecutive failures, last: ${entry.lastError})`
+  );
+}
+
+/**
+ * Advance an open circuit to half-open once its open period has passed
+ */
+function refreshCircuit(entry: HealthEntry): void {
+  if (entry.circuit === 'open' && Date.now() >= entry.openUntil) {
+    entry.circuit = 'half_open';
+  }
+}
+
+/**
+ * Record a successful call
+ */
+export function recordSuccess(provider: string, model: string, latencyMs: number): void {
+  const entry = getEntry(provider, model);
+  addOutcome(entry, { timestamp: Date.now(), ok: true, latencyMs });
+  entry.consecutiveFailures = 0;
+  if (entry.circuit !== 'closed') {
+    console.warn(`[Health] Circuit closed for ${provider}:${model}`);
+  }
+  entry.circuit = 'closed';
+  entry.openCount = 0;
+}
+
+/**
+ * Record a failed call; errors caused by the request itself (auth, budget,
+ * token limits) don't count against the model
+ */
+export function recordFailure(
+  provider: string,
+  model: string,
+  errorKind: LLMErrorKind,
+  latencyMs: number,
+  message?: string
+): void {
+  if (!HEALTH_ERROR_KINDS.includes(errorKind)) return;
+
+  const entry = getEntry(provider, model);
+  addOutcome(entry, { timestamp: Date.now(), ok: false, latencyMs, errorKind });
+  entry.consecutiveFailures += 1;
+  entry.lastError = message ? `${errorKind}: ${message.slice(0, 200)}` : errorKind;
+
+  refreshCircuit(entry);
+  if (entry.circuit === 'half_open') {
+    openCircuit(entry); // Still failing after the open period
+    return;
+  }
+
+  const recent = recentOutcomes(entry);
+  const failureRate = recent.filter((o) => !o.ok).length / recent.length;
+  if (
+    entry.circuit === 'closed' &&
+    (entry.consecutiveFailures >= FAILURE_THRESHOLD ||
+      (recent.length >= MIN_SAMPLES && failureRate >= FAILURE_RATE_THRESHOLD))
+  ) {
+    openCircuit(entry);
+  }
+}
+
+/**
+ * Whether requests to this model should be skipped right now
+ */
+export function isCircuitOpen(provider: string, model: string): boolean {
+  const entry = registry.get(keyFor(provider, model));
+  if (!entry) return false;
+
+  refreshCircuit(entry);
+  return entry.circuit === 'open';
+}
+
+/**
+ * Health of one provider/model pair
+ */
+export function getModelHealth(provider: string, model: string): ModelHealth {
+  const entry = getEntry(provider, model);
+  refreshCircuit(entry);
+
+  const recent = recentOutcomes(entry);
+  const successRate = recent.length > 0 ? recent.filter((o) => o.ok).length / recent.length : 1;
+  const latencies = recent.filter((o) => o.ok).map((o) => o.latencyMs).sort((a, b) => a - b);
+  const errors: Partial<Record<LLMErrorKind, number>> = {};
+  for (const outcome of recent) {
+    if (outcome.errorKind) {
+      errors[outcome.errorKind] = (errors[outcome.errorKind] || 0) + 1;
+    }
+  }
+
+  let status: HealthStatus = 'healthy';
+  if (entry.circuit === 'open') status = 'down';
+  else if (entry.circuit === 'half_open' || successRate < DEGRADED_SUCCESS_RATE) status = 'degraded';
+
+  return {
+    provider: entry.provider,
+    model: entry.model,
+    status,
+    circuit: entry.circuit,
+    samples: recent.length,
+    successRate,
+    latencyMs: latencies.length > 0
+      ? { p50: percentile(latencies, 50), p90: percentile(latencies, 90), p99: percentile(latencies, 99) }
+      : null,
+    errors,
+    consecutiveFailures: entry.consecutiveFailures,
+    openUntil: entry.circuit === 'open' ? entry.openUntil : null,
+    lastError: entry.lastError,
+    lastCheckedAt: recent.length > 0 ? recent[recent.length - 1].timestamp : 0,
+  };
+}
+
+/**
+ * Health of every provider/model pair seen by this process
+ */
+export function getHealthSnapshot(): ModelHealth[] {
+  return Array.from(registry.values()).map((entry) => getModelHealth(entry.provider, entry.model));
+}
+
+/**
+ * Keep the routed model unless its circuit is open, in which case use the
+ * first alternative whose circuit is closed (or the routed model if none is)
+ */
+export function avoidOpenCircuits<T extends { provider: string; model: string }>(
+  config: T,
+  alternatives: T[]
+): T {
+  if (!isCircuitOpen(config.provider, config.model)) return config;
+  const healthy = alternatives.find(
+    (alt) => alt.model !== config.model && !isCircuitOpen(alt.provider, alt.model)
+  );
+  if (healthy) {
+    console.warn(`[Health] Skipping ${config.provider}:${config.model} (circuit open), using ${healthy.model}`);
+  }
+  return healthy || config;
+}
@@ -11,10 +11,19 @@ export interface AvailableProviders {
   openai: boolean;
   gemini: boolean;
   openrouter: boolean;
+  local: boolean; // Self-hosted OpenAI-compatible endpoint (lib/llm/local-models.ts)
+}
+
+/**
+ * Whether MOCK_LLM routes every OpenRouter call to the offline mock provider
+ */
+export function isMockLLMEnabled(): boolean {
+  return process.env.MOCK_LLM === 'true' || process.env.MOCK_LLM === '1';
 }
 
 /**
  * Check which providers have API keys configured
+ * In mock mode OpenRouter counts as configured
  */
 export function getAvailableProviders(): AvailableProviders {
   return {
@@ -24,7 +33,8 @@ export function getAvailableProviders(): AvailableProviders {
     anthropic: !!process.env.ANTHROPIC_API_KEY,
     openai: !!process.env.OPENAI_API_KEY,
     gemini: !!process.env.GEMINI_API_KEY,
-    openrouter: !!process.env.OPEN_ROUTER_KEY,
+    openrouter: !!process.env.OPEN_ROUTER_KEY || isMockLLMEnabled(),
+    local: !!process.env.LOCAL_LLM_BASE_URL,
   };
 }
 
@@ -33,17 +43,18 @@ export function getAvailableProviders(): AvailableProviders {
  * Falls back to available providers if preferred one isn't available
  */
 export function getBestAvailableProvider(
-  preferred: 'groq' | 'perplexity' | 'kimi' | 'anthropic' | 'openai' | 'gemini' | 'openrouter',
+  preferred: 'groq' | 'perplexity' | 'kimi' | 'anthropic' | 'openai' | 'gemini' | 'openrouter' | 'local',
   available: AvailableProviders
-): 'groq' | 'perplexity' | 'kimi' | 'anthropic' | 'openai' | 'gemini' | 'openrouter' | null {
+): 'groq' | 'perplexity' | 'kimi' | 'anthropic' | 'openai' | 'gemini' | 'openrouter' | 'local' | null {
   // If preferred is available, use it
   if (available[preferred]) {
     return preferred;
   }
 
   // Fallback priority order
-  const fallbackOrder: Array<'groq' | 'perplexity' | 'kimi' | 'anthropic' | 'openai' | 'gemini' | 'openrouter'> = [
+  const fallbackOrder: Array<'groq' | 'perplexity' | 'kimi' | 'anthropic' | 'openai' | 'gemini' | 'openrouter' | 'local'> = [
     'openrouter', // If OpenRouter is available, prefer it (unified access to all models)
+    'local',     // Self-hosted, free per token
     'groq',      // Cheapest, fastest
     'kimi',      // Great quality, good pricing (Kimi K2)
     'gemini',    // Best for vision, good quality, free tier
@@ -0,0 +1,71 @@
+/**
+ * Local Models
+ *
+ * Models served by a self-hosted OpenAI-compatible endpoint (Ollama,
+ * llama.cpp server, vLLM, ...). Configured on the server with:
+ *
+ *   LOCAL_LLM_BASE_URL=http://localhost:11434/v1
+ *   LOCAL_LLM_MODELS=llama3.1:8b+tools,llava:13b+vision
+ *   LOCAL_LLM_CONTEXT_LENGTH=8192      (optional, default 8192)
+ *   LOCAL_LLM_API_KEY=...              (optional, for endpoints behind auth)
+ *
+ * Each model is listed as its endpoint name plus optional +vision / +tools
+ * capabilities, and is routed as `local/<name>` (e.g. local/llama3.1:8b).
+ */
+
+import type { CatalogModel } from './model-catalog';
+
+export const LOCAL_MODEL_PREFIX = 'local/';
+
+const DEFAULT_CONTEXT_LENGTH = 8192;
+
+export function isLocalModel(model: string): boolean {
+  return model.startsWith(LOCAL_MODEL_PREFIX);
+}
+
+/**
+ * Name the endpoint knows the model by
+ */
+export function toLocalModelName(model: string): string {
+  return isLocalModel(model) ? model.slice(LOCAL_MODEL_PREFIX.length) : model;
+}
+
+export function isLocalEndpointConfigured(): boolean {
+  return !!process.env.LOCAL_LLM_BASE_URL;
+}
+
+/**
+ * Catalog entries for the configured local models (free, featured in the picker)
+ * Empty in the browser, where the server's list arrives through /api/models
+ */
+export function getLocalCatalogModels(): CatalogModel[] {
+  if (!isLocalEndpointConfigured()) return [];
+  const contextLength = Number(process.env.LOCAL_LLM_CONTEXT_LENGTH) || DEFAULT_CONTEXT_LENGTH;
+
+  return (process.env.LOCAL_LLM_MODELS || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [name, ...capabilities] = entry.split('+').map((part) => part.trim());
+      const vision = capabilities.includes('vision');
+      return {
+        id: `${LOCAL_MODEL_PREFIX}${name}`,
+        name: `${name} (local)`,
+        label: `${name} (Local)`,
+        featured: true,
+        contextLength,
+        inputModalities: vision ? ['text', 'image'] : ['text'],
+        outputModalities: ['text'],
+        pricing: { input: 0, output: 0 },
+        supportsTools: capabilities.includes('tools'),
+      };
+    });
+}
+
+/**
+ * Provider that serves a model ID: the local endpoint or OpenRouter
+ */
+export function getModelProvider(model: string): 'local' | 'openrouter' {
+  return isLocalModel(model) ? 'local' : 'openrouter';
+}
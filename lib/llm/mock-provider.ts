@@ -0,0 +1,224 @@
+/**
+ * Mock Provider - offline development and deterministic tests
+ *
+ * Set MOCK_LLM=true to serve every OpenRouter call from this provider; no API
+ * keys or network are needed. Responses come from scripted rules, checked in
+ * order: the file in MOCK_LLM_SCRIPT, then the built-in mock-responses.json
+ * (extraction, resume and cover letter, plus a low-confidence classifier reply
+ * so the keyword rules pick the task type). Anything else is echoed.
+ *
+ * A rule matches when all its patterns (case-insensitive regexes) match:
+ *   { "match": "weather",          // last user message
+ *     "system": "study agent",     // system prompt
+ *     "model": "claude",           // model ID
+ *     "response": "Sunny",         // or "toolCalls": [{ "id", "name", "arguments" }]
+ *     "error": { "status": 429 },  // fail instead (413, 429, 500, ...)
+ *     "disconnectAfter": 40,       // or drop the stream after 40 characters
+ *     "times": 1 }                 // only for the first N matching calls
+ *
+ * MOCK_LLM_STREAM_DELAY_MS sets the pause between streamed words (default 15).
+ */
+
+import fs from 'fs';
+import type { LLMProvider } from './providers';
+import { Message, LLMResponse, ToolCall } from './types';
+import { isMockLLMEnabled } from './key-checker';
+import { createProviderError } from './errors';
+import { validateJsonSchema, formatSchemaErrors, JSONSchema } from '@/lib/utils/json-schema';
+import builtIn from './mock-responses.json';
+
+export interface MockRule {
+  match?: string;
+  system?: string;
+  model?: string;
+  response?: string;
+  toolCalls?: ToolCall[];
+  error?: { status: number; message?: string };
+  disconnectAfter?: number;
+  times?: number;
+}
+
+const RULE_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    match: { type: 'string' },
+    system: { type: 'string' },
+    model: { type: 'string' },
+    response: { type: 'string' },
+    toolCalls: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'name', 'arguments'],
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          arguments: { type: 'string' },
+        },
+      },
+    },
+    error: {
+      type: 'object',
+      required: ['status'],
+      properties: {
+        status: { type: 'integer', minimum: 400, maximum: 599 },
+        message: { type: 'string' },
+      },
+    },
+    disconnectAfter: { type: 'integer', minimum: 0 },
+    times: { type: 'integer', minimum: 1 },
+  },
+};
+
+const SCRIPT_SCHEMA: JSONSchema = {
+  type: 'object',
+  required: ['rules'],
+  properties: { rules: { type: 'array', items: RULE_SCHEMA } },
+};
+
+const ERROR_MESSAGES: Record<number, string> = {
+  400: 'Bad request',
+  401: 'Invalid Authentication',
+  402: 'Insufficient credits',
+  413: 'Request too large for model',
+  429: 'Rate limit exceeded, please retry later',
+  500: 'Internal server error',
+  503: 'Model is overloaded or unavailable',
+};
+
+let scriptRules: MockRule[] = [];
+let scriptMtime: number | null = null;
+const useCounts = new Map<MockRule, number>();
+
+/**
+ * Rules from MOCK_LLM_SCRIPT (re-read when the file changes) followed by the built-in rules
+ */
+function getRules(): MockRule[] {
+  const scriptPath = process.env.MOCK_LLM_SCRIPT;
+  if (scriptPath) {
+    try {
+      const mtime = fs.statSync(scriptPath).mtimeMs;
+      if (mtime !== scriptMtime) {
+        scriptMtime = mtime;
+        const validation = validateJsonSchema<{ rules: MockRule[] }>(
+          SCRIPT_SCHEMA,
+          JSON.parse(fs.readFileSync(scriptPath, 'utf-8'))
+        );
+        if (validation.valid) {
+          scriptRules = validation.value.rules;
+          useCounts.clear();
+        } else {
+          console.warn(`[Mock LLM] Ignoring invalid ${scriptPath}: ${formatSchemaErrors(validation.errors)}`);
+        }
+      }
+    } catch (error: any) {
+      console.warn(`[Mock LLM] Could not read ${scriptPath}: ${error?.message || error}`);
+    }
+  }
+  return [...scriptRules, ...(builtIn.rules as MockRule[])];
+}
+
+function textOf(message: Message | undefined): string {
+  if (!message) return '';
+  if (typeof message.content === 'string') return message.content;
+  return message.content
+    .filter((part) => part.type === 'text')
+    .map((part) => part.text || '')
+    .join(' ');
+}
+
+function matches(pattern: string | undefined, text: string): boolean {
+  return !pattern || new RegExp(pattern, 'i').test(text);
+}
+
+/**
+ * First rule matching the request that has uses left
+ */
+function findRule(messages: Message[], model: string): MockRule | undefined {
+  // The chat route sends its system prompt as several sections
+  const system = messages.filter((m) => m.role === 'system').map((m) => textOf(m)).join('\n\n');
+  const lastUser = textOf([...messages].reverse().find((m) => m.role === 'user'));
+
+  for (const rule of getRules()) {
+    if (!matches(rule.match, lastUser) || !matches(rule.system, system) || !matches(rule.model, model)) continue;
+    const used = useCounts.get(rule) || 0;
+    if (rule.times !== undefined && used >= rule.times) continue;
+    useCounts.set(rule, used + 1);
+    return rule;
+  }
+  return undefined;
+}
+
+/**
+ * Typed error as a real provider would throw it, so fallback classification applies
+ */
+function createMockError(status: number, message?: string): Error {
+  return createProviderError('Mock', status, message || ERROR_MESSAGES[status] || `Mock error (${status})`);
+}
+
+function createDisconnectError(): Error {
+  const error = new Error('socket hang up (ECONNRESET)');
+  (error as any).code = 'ECONNRESET';
+  return error;
+}
+
+/**
+ * Scripted reply, or an echo of the last user message
+ */
+function respond(messages: Message[], model: string): { rule?: MockRule; content: string; toolCalls?: ToolCall[] } {
+  const rule = findRule(messages, model);
+  if (rule?.error) throw createMockError(rule.error.status, rule.error.message);
+  if (rule && (rule.response !== undefined || rule.toolCalls)) {
+    return { rule, content: rule.response || '', toolCalls: rule.toolCalls };
+  }
+
+  // Tool results come back as the last message; answer them instead of echoing the prompt
+  const last = messages[messages.length - 1];
+  const content = last?.role === 'tool'
+    ? `[mock ${model}] Tool result received: ${textOf(last).slice(0, 200)}`
+    : `[mock ${model}] You said: ${textOf([...messages].reverse().find((m) => m.role === 'user'))}`;
+  return { rule, content };
+}
+
+/**
+ * Token counts estimated at 4 characters per token
+ */
+function estimateUsage(messages: Message[], content: string): NonNullable<LLMResponse['usage']> {
+  const promptTokens = Math.ceil(messages.reduce((sum, m) => sum + textOf(m).length, 0) / 4);
+  const completionTokens = Math.ceil(content.length / 4);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const mockProvider: LLMProvider = {
+  name: 'Mock',
+  isAvailable: () => isMockLLMEnabled(),
+  supportsTools: true,
+  supportsResponseFormat: true,
+  call: async (messages, config) => {
+    const { rule, content, toolCalls } = respond(messages, config.model);
+    if (rule?.disconnectAfter !== undefined) throw createDisconnectError();
+    return { content, usage: estimateUsage(messages, content), toolCalls };
+  },
+  streamCall: async function* (messages, config) {
+    const { rule, content, toolCalls } = respond(messages, config.model);
+    const delayMs = Number(process.env.MOCK_LLM_STREAM_DELAY_MS ?? 15);
+
+    // Word-sized deltas, cut short when the rule simulates a dropped connection
+    const limit = rule?.disconnectAfter ?? content.length;
+    let sent = 0;
+    for (const word of content.match(/\S+\s*|\s+/g) || []) {
+      if (sent >= limit) break;
+      const delta = word.slice(0, limit - sent);
+      sent += delta.length;
+      if (delayMs > 0) await sleep(delayMs);
+      config.signal?.throwIfAborted(); // Stop button / client disconnect
+      yield delta;
+    }
+    if (rule?.disconnectAfter !== undefined) throw createDisconnectError();
+
+    if (toolCalls && toolCalls.length > 0) yield { toolCalls };
+    yield { usage: estimateUsage(messages, content) };
+  },
+};
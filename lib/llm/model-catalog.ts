@@ -0,0 +1,216 @@
+/**
+ * Model Catalog
+ *
+ * Model metadata (context length, modalities, prices, tool support) used by
+ * routing, cost calculation and the model picker. Starts from the bundled
+ * snapshot in model-catalog.json and, on the server, is refreshed from the
+ * OpenRouter models listing. Set MODEL_CATALOG_SOURCE=snapshot (or MOCK_LLM) to
+ * stay offline. Models of a local endpoint (local-models.ts) are added on the server.
+ */
+
+import snapshot from './model-catalog.json';
+import { isMockLLMEnabled } from './key-checker';
+import { getLocalCatalogModels } from './local-models';
+
+/**
+ * USD per 1M tokens; prompt-cache reads and writes default to the input price
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+export interface CatalogModel {
+  id: string; // OpenRouter model ID
+  name: string;
+  label?: string; // Short label for the model picker
+  featured?: boolean; // Shown in the model picker
+  contextLength: number;
+  inputModalities: string[]; // 'text', 'image', 'file', ...
+  outputModalities: string[];
+  pricing: ModelPricing;
+  supportsTools: boolean;
+  supportsStructuredOutputs?: boolean; // Accepts a json_schema response_format
+}
+
+export type CatalogSource = 'snapshot' | 'openrouter';
+
+const OPENROUTER_MODELS_URL = 'https://openrouter.ai/api/v1/models';
+const REFRESH_INTERVAL_MS = (Number(process.env.MODEL_CATALOG_TTL_HOURS) || 6) * 60 * 60 * 1000;
+const RETRY_INTERVAL_MS = 5 * 60 * 1000;
+const FETCH_TIMEOUT_MS = 5000;
+
+const aliases: Record<string, string> = snapshot.aliases;
+const models = new Map<string, CatalogModel>(
+  [...(snapshot.models as CatalogModel[]), ...getLocalCatalogModels()].map((model) => [model.id, model])
+);
+let source: CatalogSource = 'snapshot';
+let updatedAt = Date.parse(snapshot.updatedAt);
+let nextRefreshAt = 0;
+let refreshing: Promise<void> | null = null;
+
+/**
+ * Resolve an alias (e.g. 'gpt-4o') to its OpenRouter model ID
+ */
+export function resolveModelId(model: string): string {
+  return aliases[model] || model;
+}
+
+export function getCatalogModel(model: string): CatalogModel | undefined {
+  return models.get(resolveModelId(model));
+}
+
+export function getCatalogModels(): CatalogModel[] {
+  return Array.from(models.values());
+}
+
+/**
+ * Models shown in the picker, in snapshot order
+ */
+export function getPickerModels(): CatalogModel[] {
+  return getCatalogModels().filter((model) => model.featured);
+}
+
+export function getCatalogInfo(): { source: CatalogSource; updatedAt: number; count: number } {
+  return { source, updatedAt, count: models.size };
+}
+
+/**
+ * Price per 1M tokens, undefined for models missing from the catalog
+ */
+export function getModelPricing(model: string): ModelPricing | undefined {
+  return getCatalogModel(model)?.pricing;
+}
+
+/**
+ * Whether the model accepts image input (unknown models are assumed not to)
+ */
+export function supportsVision(model: string): boolean {
+  return getCatalogModel(model)?.inputModalities.includes('image') ?? false;
+}
+
+/**
+ * Whether the model accepts tool definitions (unknown models are assumed to)
+ */
+export function supportsTools(model: string): boolean {
+  return getCatalogModel(model)?.supportsTools ?? true;
+}
+
+/**
+ * Whether the model accepts a JSON Schema response format (unknown models are assumed not to)
+ */
+export function supportsStructuredOutputs(model: string): boolean {
+  return getCatalogModel(model)?.supportsStructuredOutputs ?? false;
+}
+
+export function getContextLength(model: string): number | undefined {
+  return getCatalogModel(model)?.contextLength;
+}
+
+/**
+ * Merge models into the catalog, keeping picker labels from the snapshot
+ * Used by the server after a refresh and by the client with /api/models data
+ */
+export function loadCatalogModels(
+  entries: CatalogModel[],
+  from: CatalogSource,
+  at: number = Date.now()
+): void {
+  for (const entry of entries) {
+    const existing = models.get(entry.id);
+    models.set(entry.id, {
+      ...entry,
+      label: existing?.label ?? entry.label,
+      featured: existing?.featured ?? entry.featured,
+    });
+  }
+  source = from;
+  updatedAt = at;
+}
+
+/**
+ * Convert an entry from the OpenRouter models listing
+ * Prices there are USD per token as strings; negative prices mark routers
+ */
+function fromOpenRouter(entry: any): CatalogModel | null {
+  const input = Number(entry?.pricing?.prompt);
+  const output = Number(entry?.pricing?.completion);
+  if (!entry?.id || !Number.isFinite(input) || !Number.isFinite(output) || input < 0 || output < 0) {
+    return null;
+  }
+  // Missing for models without prompt caching; NaN fails the >= 0 checks below
+  const cacheRead = Number(entry.pricing.input_cache_read ?? NaN);
+  const cacheWrite = Number(entry.pricing.input_cache_write ?? NaN);
+
+  return {
+    id: entry.id,
+    name: entry.name || entry.id,
+    contextLength: entry.context_length || entry.top_provider?.context_length || 0,
+    inputModalities: entry.architecture?.input_modalities || ['text'],
+    outputModalities: entry.architecture?.output_modalities || ['text'],
+    pricing: {
+      input: input * 1_000_000,
+      output: output * 1_000_000,
+      ...(cacheRead >= 0 && { cacheRead: cacheRead * 1_000_000 }),
+      ...(cacheWrite >= 0 && { cacheWrite: cacheWrite * 1_000_000 }),
+    },
+    supportsTools: Array.isArray(entry.supported_parameters)
+      ? entry.supported_parameters.includes('tools')
+      : true,
+    supportsStructuredOutputs: Array.isArray(entry.supported_parameters)
+      && entry.supported_parameters.includes('structured_outputs'),
+  };
+}
+
+/**
+ * Refresh the catalog from OpenRouter when it is stale
+ * Failures keep the current catalog and are retried after a few minutes
+ */
+export async function refreshModelCatalog(force: boolean = false): Promise<void> {
+  if (process.env.MODEL_CATALOG_SOURCE === 'snapshot' || isMockLLMEnabled()) return;
+  if (!force && Date.now() < nextRefreshAt) return;
+  if (refreshing) return refreshing;
+
+  refreshing = (async () => {
+    try {
+      const headers: Record<string, string> = {};
+      if (process.env.OPEN_ROUTER_KEY) {
+        headers.Authorization = `Bearer ${process.env.OPEN_ROUTER_KEY}`;
+      }
+      const response = await fetch(OPENROUTER_MODELS_URL, {
+        headers,
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`OpenRouter models listing returned ${response.status}`);
+      }
+
+      const data = await response.json();
+      const entries = (Array.isArray(data?.data) ? data.data : [])
+        .map(fromOpenRouter)
+        .filter((entry: CatalogModel | null): entry is CatalogModel => entry !== null);
+      if (entries.length === 0) {
+        throw new Error('OpenRouter models listing was empty');
+      }
+
+      loadCatalogModels(entries, 'openrouter');
+      nextRefreshAt = Date.now() + REFRESH_INTERVAL_MS;
+    } catch (error: any) {
+      console.warn(`[Model Catalog] Refresh failed, using ${source} data: ${error?.message || error}`);
+      nextRefreshAt = Date.now() + RETRY_INTERVAL_MS;
+    } finally {
+      refreshing = null;
+    }
+  })();
+  return refreshing;
+}
+
+/**
+ * Replace a routed config's cost estimate with the catalog's input price
+ */
+export function applyCatalogPricing<T extends { model: string; costPer1M: number }>(config: T): T {
+  const pricing = getModelPricing(config.model);
+  return pricing ? { ...config, costPer1M: pricing.input } : config;
+}
@@ -0,0 +1,670 @@
+/**
+ * Provider Adapter
+ *
+ * Shared implementation behind every HTTP provider in ./providers. A provider
+ * is a declarative spec (endpoint, auth headers, wire format, capabilities);
+ * this module owns the rest:
+ * - message conversion to the wire format (OpenAI parts, Anthropic source
+ *   blocks, Gemini inlineData), with images dropped for text-only models
+ * - prompt-cache breakpoints (`cache_control`) for providers with prompt caching
+ * - SSE parsing, tool-call assembly and usage extraction, including cache reads/writes
+ * - abort propagation through `config.signal`
+ * - typed errors (./errors) for failed responses and mid-stream failures
+ */
+
+import type { LLMProvider } from './providers';
+import { Message, LLMConfig, LLMResponse, ToolCall, ToolDefinition } from './types';
+import { AuthError, ContentFilterError, createProviderError } from './errors';
+
+export type WireFormat = 'openai' | 'anthropic' | 'gemini';
+
+export interface ProviderSpec {
+  name: string;
+  format: WireFormat;
+  url: (model: string, stream: boolean) => string;
+  apiKeyEnv?: string; // Required key; availability defaults to it being set
+  isAvailable?: () => boolean;
+  headers?: (apiKey: string) => Record<string, string>;
+  model?: (config: LLMConfig, hasImages: boolean) => string; // Wire model name, defaults to config.model
+  vision?: boolean | ((model: string) => boolean); // Default true; text-only models get a note instead of images
+  tools?: boolean | ((model: string) => boolean); // Default false
+  responseFormat?: boolean; // Passes config.responseFormat as an OpenAI json_schema response_format
+  promptCaching?: boolean | ((model: string) => boolean); // Default false; marks cacheBreakpoint messages with cache_control
+  extraBody?: (stream: boolean) => Record<string, any>;
+  authHint?: string; // Appended to AuthError messages
+}
+
+type Usage = LLMResponse['usage'];
+
+interface ParsedResponse extends LLMResponse {
+  filtered?: boolean; // Stopped by a content filter
+}
+
+/**
+ * Accumulated state of one streamed reply
+ */
+interface StreamState {
+  toolCalls: ToolCall[];
+  usage?: Usage;
+  filtered?: boolean;
+  error?: { status?: number; message: string };
+}
+
+interface WireFormatAdapter {
+  buildBody: (messages: Message[], config: LLMConfig, options: BodyOptions) => any;
+  parseResponse: (data: any) => ParsedResponse;
+  parseEvent: (event: any, state: StreamState) => string | undefined; // Content delta
+}
+
+interface BodyOptions {
+  model: string;
+  stream: boolean;
+  vision: boolean;
+  tools?: ToolDefinition[];
+  responseFormat?: LLMConfig['responseFormat'];
+  breakpoints: Set<Message>; // Messages that end a cached prefix (empty without prompt caching)
+}
+
+type ContentPart = Exclude<Message['content'], string>[number];
+
+const IMAGE_NOTE = ' [Note: Images were included but this model does not support image analysis. Please describe the image in text if needed.]';
+
+function textOf(content: Message['content']): string {
+  if (typeof content === 'string') return content;
+  return content
+    .filter((part) => part.type === 'text')
+    .map((part) => part.text || '')
+    .join(' ');
+}
+
+function isImagePart(part: ContentPart): boolean {
+  return part.type === 'image_url' || part.type === 'image';
+}
+
+/**
+ * Image as a data: or http(s) URL, from either OpenAI or Anthropic parts
+ * Bare base64 gets a PNG data URL prefix
+ */
+function imageUrlOf(part: ContentPart): string | null {
+  if (part.type === 'image' && part.source?.data) {
+    return `data:${part.source.media_type || 'image/png'};base64,${part.source.data}`;
+  }
+  const url: unknown = part.image_url?.url || part.image_url;
+  if (typeof url !== 'string' || !url) return null;
+  if (url.startsWith('data:') || url.includes('://')) return url;
+  return `data:image/png;base64,${url}`;
+}
+
+function parseDataUrl(url: string): { mimeType: string; data: string } | null {
+  const match = url.match(/^data:([^;]+);base64,(.+)$/);
+  return match ? { mimeType: match[1], data: match[2] } : null;
+}
+
+/**
+ * Text-only rendering of a message for models without vision
+ */
+function withoutImages(content: Message['content']): string {
+  if (typeof content === 'string') return content;
+  const note = content.some(isImagePart) ? IMAGE_NOTE : '';
+  return textOf(content) + note;
+}
+
+/**
+ * Drop user turns with no text or images; providers reject empty content
+ */
+function nonEmpty(messages: Message[]): Message[] {
+  return messages.filter((m) => {
+    if (m.role !== 'user') return true;
+    return Array.isArray(m.content) ? m.content.length > 0 : !!m.content.trim();
+  });
+}
+
+// Anthropic rejects requests with more than 4 cache_control blocks
+const MAX_CACHE_BREAKPOINTS = 4;
+
+/**
+ * The first MAX_CACHE_BREAKPOINTS messages flagged with cacheBreakpoint
+ */
+function cacheBreakpoints(messages: Message[]): Set<Message> {
+  return new Set(messages.filter((m) => m.cacheBreakpoint).slice(0, MAX_CACHE_BREAKPOINTS));
+}
+
+/**
+ * Content blocks with an ephemeral cache_control on the last one
+ */
+function withCacheControl(content: string | any[]): any[] {
+  const blocks = typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+  return blocks.map((block, i) => (i === blocks.length - 1 ? { ...block, cache_control: { type: 'ephemeral' } } : block));
+}
+
+function resolveFlag(flag: boolean | ((model: string) => boolean) | undefined, model: string, fallback: boolean): boolean {
+  if (flag === undefined) return fallback;
+  return typeof flag === 'function' ? flag(model) : flag;
+}
+
+function parseToolArguments(raw: string): any {
+  try {
+    return JSON.parse(raw || '{}');
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Normalize OpenAI-style usage (snake_case) to LLMResponse usage
+ */
+function parseOpenAIUsage(usage: any): Usage {
+  if (!usage) return undefined;
+  const promptTokens = usage.prompt_tokens ?? usage.promptTokens ?? 0;
+  const completionTokens = usage.completion_tokens ?? usage.completionTokens ?? 0;
+  // OpenAI and OpenRouter report cache hits (and OpenRouter cache writes) under prompt_tokens_details
+  const cacheReadTokens = usage.prompt_tokens_details?.cached_tokens || 0;
+  const cacheWriteTokens = usage.prompt_tokens_details?.cache_write_tokens || 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage.total_tokens ?? usage.totalTokens ?? promptTokens + completionTokens,
+    ...(cacheReadTokens > 0 && { cacheReadTokens }),
+    ...(cacheWriteTokens > 0 && { cacheWriteTokens }),
+  };
+}
+
+/**
+ * Convert tool-calling turns to the OpenAI wire format
+ * Returns null for messages that are not part of a tool exchange
+ */
+function formatToolMessage(m: Message): any | null {
+  if (m.role === 'tool') {
+    return {
+      role: 'tool',
+      tool_call_id: m.toolCallId,
+      content: typeof m.content === 'string' ? m.content : JSON.stringify(m.content),
+    };
+  }
+  if (m.role === 'assistant' && m.toolCalls && m.toolCalls.length > 0) {
+    return {
+      role: 'assistant',
+      content: typeof m.content === 'string' && m.content.trim() ? m.content : null,
+      tool_calls: m.toolCalls.map((call) => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return null;
+}
+
+/**
+ * OpenAI chat completions - also Groq, Perplexity, Kimi, OpenRouter and local endpoints
+ */
+const openAIFormat: WireFormatAdapter = {
+  buildBody: (messages, config, { model, stream, vision, tools, responseFormat, breakpoints }) => {
+    // Leading system messages (prompt sections) are sent as one; cached sections become marked parts
+    const firstTurn = messages.findIndex((m) => m.role !== 'system');
+    const leadingSystem = firstTurn === -1 ? messages : messages.slice(0, firstTurn);
+    const sections = leadingSystem
+      .map((m) => ({ text: textOf(m.content).trim(), cached: breakpoints.has(m) }))
+      .filter((section) => section.text);
+    const system = sections.length === 0 ? [] : [{
+      role: 'system',
+      content: breakpoints.size > 0
+        ? sections.map(({ text, cached }) => (cached ? withCacheControl(text)[0] : { type: 'text', text }))
+        : sections.map((section) => section.text).join('\n\n'),
+    }];
+
+    const formattedMessages = nonEmpty(messages.slice(leadingSystem.length)).map((m) => {
+      const toolMessage = formatToolMessage(m);
+      if (toolMessage) return toolMessage;
+
+      let content: string | any[];
+      if (!Array.isArray(m.content) || !vision) {
+        content = withoutImages(m.content).trim() || ' ';
+      } else {
+        const parts = m.content
+          .map((part) => {
+            if (part.type === 'text') return part.text?.trim() ? { type: 'text', text: part.text } : null;
+            const url = imageUrlOf(part);
+            return url ? { type: 'image_url', image_url: { url } } : null;
+          })
+          .filter((part) => part !== null);
+        content = parts.length > 0 ? parts : ' ';
+      }
+      return { role: m.role, content: breakpoints.has(m) ? withCacheControl(content) : content };
+    });
+
+    const body: any = {
+      model,
+      messages: [...system, ...formattedMessages],
+      temperature: config.temperature,
+      max_tokens: config.maxTokens,
+      stream,
+    };
+    if (tools && tools.length > 0) {
+      body.tools = tools;
+      if (config.toolChoice) body.tool_choice = { type: 'function', function: { name: config.toolChoice } };
+    }
+    if (responseFormat) {
+      body.response_format = { type: 'json_schema', json_schema: { name: responseFormat.name, schema: responseFormat.schema } };
+    }
+    return body;
+  },
+  parseResponse: (data) => {
+    const choice = data.choices?.[0];
+    const toolCalls: ToolCall[] | undefined = choice?.message?.tool_calls?.map((call: any) => ({
+      id: call.id,
+      name: call.function?.name,
+      arguments: typeof call.function?.arguments === 'string'
+        ? call.function.arguments
+        : JSON.stringify(call.function?.arguments || {}),
+    }));
+    return {
+      content: choice?.message?.content || '',
+      usage: parseOpenAIUsage(data.usage),
+      toolCalls: toolCalls && toolCalls.length > 0 ? toolCalls : undefined,
+      filtered: choice?.finish_reason === 'content_filter',
+    };
+  },
+  parseEvent: (event, state) => {
+    // Upstream failures after the stream has started arrive as error chunks
+    if (event.error) {
+      state.error = { status: Number(event.error.code) || undefined, message: event.error.message || 'Stream error' };
+      return undefined;
+    }
+
+    // Kimi reports usage on the choice, Groq under x_groq
+    const usage = event.usage || event.choices?.[0]?.usage || event.x_groq?.usage;
+    if (usage) state.usage = parseOpenAIUsage(usage);
+
+    const choice = event.choices?.[0];
+    if (choice?.finish_reason === 'content_filter') state.filtered = true;
+
+    // Tool call deltas arrive in fragments keyed by index
+    for (const fragment of choice?.delta?.tool_calls || []) {
+      const index = fragment.index ?? state.toolCalls.length;
+      const call = state.toolCalls[index] || (state.toolCalls[index] = { id: '', name: '', arguments: '' });
+      if (fragment.id) call.id = fragment.id;
+      if (fragment.function?.name) call.name += fragment.function.name;
+      if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+    }
+    return choice?.delta?.content || undefined;
+  },
+};
+
+/**
+ * Normalize Anthropic usage; input_tokens excludes cached tokens, so cache
+ * reads and writes are added back to get the full prompt size
+ */
+function parseAnthropicUsage(usage: any, completionTokens: number): NonNullable<Usage> {
+  const cacheReadTokens = usage.cache_read_input_tokens || 0;
+  const cacheWriteTokens = usage.cache_creation_input_tokens || 0;
+  const promptTokens = (usage.input_tokens ?? 0) + cacheReadTokens + cacheWriteTokens;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    ...(cacheReadTokens > 0 && { cacheReadTokens }),
+    ...(cacheWriteTokens > 0 && { cacheWriteTokens }),
+  };
+}
+
+/**
+ * Convert one non-system message to an Anthropic message
+ */
+function formatAnthropicMessage(m: Message, vision: boolean): { role: string; content: string | any[] } {
+  if (m.role === 'tool') {
+    return {
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: m.toolCallId, content: textOf(m.content) || ' ' }],
+    };
+  }
+  if (m.role === 'assistant' && m.toolCalls && m.toolCalls.length > 0) {
+    const text = textOf(m.content).trim();
+    return {
+      role: 'assistant',
+      content: [
+        ...(text ? [{ type: 'text', text }] : []),
+        ...m.toolCalls.map((call) => ({ type: 'tool_use', id: call.id, name: call.name, input: parseToolArguments(call.arguments) })),
+      ],
+    };
+  }
+  if (!Array.isArray(m.content) || !vision) {
+    return { role: m.role, content: withoutImages(m.content).trim() || ' ' };
+  }
+  const blocks = m.content
+    .map((part) => {
+      if (part.type === 'text') return part.text?.trim() ? { type: 'text', text: part.text } : null;
+      const url = imageUrlOf(part);
+      if (!url) return null;
+      const inline = parseDataUrl(url);
+      return {
+        type: 'image',
+        source: inline
+          ? { type: 'base64', media_type: inline.mimeType, data: inline.data }
+          : { type: 'url', url },
+      };
+    })
+    .filter((block) => block !== null);
+  return { role: m.role, content: blocks.length > 0 ? blocks : ' ' };
+}
+
+/**
+ * Anthropic messages API
+ */
+const anthropicFormat: WireFormatAdapter = {
+  buildBody: (messages, config, { model, stream, vision, tools, breakpoints }) => {
+    const systemMessages = messages.filter((m) => m.role === 'system' && textOf(m.content).trim());
+    // With prompt caching the system prompt is sent as blocks so each cached section can be marked
+    const system = breakpoints.size > 0
+      ? systemMessages.map((m) => {
+          const text = textOf(m.content).trim();
+          return breakpoints.has(m) ? withCacheControl(text)[0] : { type: 'text', text };
+        })
+      : systemMessages.map((m) => textOf(m.content)).join('\n\n');
+
+    const formattedMessages = nonEmpty(messages)
+      .filter((m) => m.role !== 'system')
+      .map((m) => {
+        const message = formatAnthropicMessage(m, vision);
+        return breakpoints.has(m) ? { ...message, content: withCacheControl(message.content) } : message;
+      });
+
+    if (formattedMessages.length === 0) {
+      throw new Error('No valid messages to send to Anthropic API');
+    }
+
+    const body: any = {
+      model,
+      messages: formattedMessages,
+      temperature: config.temperature,
+      max_tokens: config.maxTokens,
+      stream,
+    };
+    if (system.length > 0) body.system = system;
+    if (tools && tools.length > 0) {
+      body.tools = tools.map((tool) => ({
+        name: tool.function.name,
+        description: tool.function.description,
+        input_schema: tool.function.parameters,
+      }));
+      if (config.toolChoice) body.tool_choice = { type: 'tool', name: config.toolChoice };
+    }
+    return body;
+  },
+  parseResponse: (data) => {
+    const blocks: any[] = data.content || [];
+    const toolCalls: ToolCall[] = blocks
+      .filter((block) => block.type === 'tool_use')
+      .map((block) => ({ id: block.id, name: block.name, arguments: JSON.stringify(block.input || {}) }));
+    return {
+      content: blocks.filter((block) => block.type === 'text').map((block) => block.text).join(''),
+      usage: data.usage ? parseAnthropicUsage(data.usage, data.usage.output_tokens ?? 0) : undefined,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      filtered: data.stop_reason === 'refusal',
+    };
+  },
+  parseEvent: (event, state) => {
+    switch (event.type) {
+      case 'error':
+        state.error = {
+          status: event.error?.type === 'overloaded_error' ? 529 : event.error?.type === 'rate_limit_error' ? 429 : undefined,
+          message: event.error?.message || 'Stream error',
+        };
+        return undefined;
+      case 'message_start':
+        state.usage = parseAnthropicUsage(event.message?.usage || {}, 0);
+        return undefined;
+      case 'message_delta': {
+        if (event.delta?.stop_reason === 'refusal') state.filtered = true;
+        const promptTokens = state.usage?.promptTokens ?? 0;
+        const completionTokens = event.usage?.output_tokens ?? 0;
+        state.usage = { ...state.usage, promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+        return undefined;
+      }
+      case 'content_block_start':
+        if (event.content_block?.type === 'tool_use') {
+          state.toolCalls[event.index] = { id: event.content_block.id, name: event.content_block.name, arguments: '' };
+        }
+        return undefined;
+      case 'content_block_delta':
+        if (event.delta?.type === 'input_json_delta' && state.toolCalls[event.index]) {
+          state.toolCalls[event.index].arguments += event.delta.partial_json || '';
+          return undefined;
+        }
+        return event.delta?.text || undefined;
+      default:
+        return undefined;
+    }
+  },
+};
+
+const GEMINI_BLOCKED = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+function parseGeminiUsage(usage: any): Usage {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.promptTokenCount || 0,
+    completionTokens: usage.candidatesTokenCount || 0,
+    totalTokens: usage.totalTokenCount || 0,
+    ...(usage.cachedContentTokenCount > 0 && { cacheReadTokens: usage.cachedContentTokenCount }),
+  };
+}
+
+/**
+ * Google Gemini generateContent
+ */
+const geminiFormat: WireFormatAdapter = {
+  buildBody: (messages, config, { vision }) => {
+    const system = messages
+      .filter((m) => m.role === 'system')
+      .map((m) => textOf(m.content))
+      .join('\n\n');
+
+    const contents = messages
+      .filter((m) => m.role !== 'system')
+      .map((m) => {
+        const parts: any[] = [];
+        if (Array.isArray(m.content) && vision) {
+          for (const part of m.content) {
+            if (part.type === 'text') {
+              if (part.text?.trim()) parts.push({ text: part.text });
+              continue;
+            }
+            // Gemini only takes inline data; remote image URLs are skipped
+            const inline = parseDataUrl(imageUrlOf(part) || '');
+            if (inline) parts.push({ inlineData: inline });
+          }
+        } else {
+          const text = withoutImages(m.content);
+          if (text.trim()) parts.push({ text });
+        }
+        return { role: m.role === 'assistant' ? 'model' : 'user', parts };
+      })
+      .filter((content) => content.parts.length > 0);
+
+    if (contents.length === 0) {
+      throw new Error('No valid messages to send to Gemini API');
+    }
+
+    const body: any = {
+      contents,
+      generationConfig: {
+        temperature: config.temperature,
+        maxOutputTokens: config.maxTokens,
+      },
+    };
+    if (system) body.systemInstruction = { parts: [{ text: system }] };
+    return body;
+  },
+  parseResponse: (data) => {
+    const candidate = data.candidates?.[0];
+    return {
+      content: (candidate?.content?.parts || []).map((part: any) => part.text || '').join(''),
+      usage: parseGeminiUsage(data.usageMetadata),
+      filtered: !!data.promptFeedback?.blockReason || GEMINI_BLOCKED.includes(candidate?.finishReason),
+    };
+  },
+  parseEvent: (event, state) => {
+    if (event.error) {
+      state.error = { status: event.error.code, message: event.error.message || 'Stream error' };
+      return undefined;
+    }
+    // Usage is cumulative; the last chunk has the totals
+    if (event.usageMetadata) state.usage = parseGeminiUsage(event.usageMetadata);
+    const candidate = event.candidates?.[0];
+    if (event.promptFeedback?.blockReason || GEMINI_BLOCKED.includes(candidate?.finishReason)) {
+      state.filtered = true;
+    }
+    return (candidate?.content?.parts || []).map((part: any) => part.text || '').join('') || undefined;
+  },
+};
+
+const FORMATS: Record<WireFormat, WireFormatAdapter> = {
+  openai: openAIFormat,
+  anthropic: anthropicFormat,
+  gemini: geminiFormat,
+};
+
+/**
+ * Data payloads of a server-sent event stream
+ * Cancelling the consumer (or config.signal) releases the connection
+ */
+async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('No response body');
+  }
+  const decoder = new TextDecoder();
+
+  function* dataOf(lines: string[]): Generator<string> {
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (data && data !== '[DONE]') yield data;
+    }
+  }
+
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      yield* dataOf(lines);
+    }
+    yield* dataOf([buffer]);
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Typed error from a non-2xx response
+ */
+async function toProviderError(spec: ProviderSpec, response: Response): Promise<Error> {
+  const errorText = await response.text();
+  let message = errorText || response.statusText;
+  try {
+    const errorJson = JSON.parse(errorText);
+    const error = Array.isArray(errorJson) ? errorJson[0]?.error : errorJson.error; // Gemini wraps errors in an array
+    message = (typeof error === 'string' ? error : error?.message) || errorJson.message || errorText;
+  } catch {
+    // Plain-text error body
+  }
+  console.error(`${spec.name} API Error (${response.status}):`, errorText);
+
+  const retryAfter = Number(response.headers.get('retry-after'));
+  return createProviderError(spec.name, response.status, message, {
+    retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined,
+    authHint: spec.authHint,
+  });
+}
+
+/**
+ * Build an LLMProvider from a declarative spec
+ */
+export function createProvider(spec: ProviderSpec): LLMProvider {
+  const format = FORMATS[spec.format];
+
+  const request = async (messages: Message[], config: LLMConfig, stream: boolean): Promise<Response> => {
+    const apiKey = spec.apiKeyEnv ? process.env[spec.apiKeyEnv]?.trim() : '';
+    if (spec.apiKeyEnv && !apiKey) {
+      throw new AuthError(spec.name, `${spec.apiKeyEnv} is not set in environment variables`);
+    }
+
+    const hasImages = messages.some((m) => Array.isArray(m.content) && m.content.some(isImagePart));
+    const model = spec.model ? spec.model(config, hasImages) : config.model;
+    const tools = resolveFlag(spec.tools, config.model, false) ? config.tools : undefined;
+    const body = {
+      ...format.buildBody(messages, config, {
+        model,
+        stream,
+        vision: resolveFlag(spec.vision, config.model, true),
+        tools,
+        responseFormat: spec.responseFormat ? config.responseFormat : undefined,
+        breakpoints: resolveFlag(spec.promptCaching, config.model, false) ? cacheBreakpoints(messages) : new Set(),
+      }),
+      ...spec.extraBody?.(stream),
+    };
+
+    const response = await fetch(spec.url(model, stream), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...spec.headers?.(apiKey || '') },
+      body: JSON.stringify(body),
+      signal: config.signal,
+    });
+    if (!response.ok) {
+      throw await toProviderError(spec, response);
+    }
+    return response;
+  };
+
+  const contentFilterError = () => new ContentFilterError(spec.name, `${spec.name} blocked the response (content filter)`);
+
+  return {
+    name: spec.name,
+    isAvailable: spec.isAvailable ?? (() => !!spec.apiKeyEnv && !!process.env[spec.apiKeyEnv]?.trim()),
+    supportsTools: !!spec.tools,
+    supportsResponseFormat: !!spec.responseFormat,
+    call: async (messages, config) => {
+      const response = await request(messages, config, false);
+      const { filtered, ...result } = format.parseResponse(await response.json());
+      if (filtered && !result.content && !result.toolCalls) throw contentFilterError();
+      return result;
+    },
+    streamCall: async function* (messages, config) {
+      const response = await request(messages, config, true);
+      const state: StreamState = { toolCalls: [] };
+      let produced = false;
+
+      for await (const data of readServerSentEvents(response)) {
+        let event: any;
+        try {
+          event = JSON.parse(data);
+        } catch {
+          continue; // Ignore partial or non-JSON payloads
+        }
+        const delta = format.parseEvent(event, state);
+        if (state.error) {
+          throw createProviderError(spec.name, state.error.status, state.error.message, { authHint: spec.authHint });
+        }
+        if (delta) {
+          produced = true;
+          yield delta;
+        }
+      }
+
+      const toolCalls = state.toolCalls
+        .filter((call) => call && call.name)
+        .map((call, i) => ({ ...call, id: call.id || `call_${i}`, arguments: call.arguments || '{}' }));
+      // A filter that cut a reply short keeps what was sent; one that blocked it entirely is an error
+      if (state.filtered && !produced && toolCalls.length === 0) throw contentFilterError();
+
+      if (toolCalls.length > 0) yield { toolCalls };
+      if (state.usage) yield { usage: state.usage };
+    },
+  };
+}
@@ -0,0 +1,137 @@
+/**
+ * RAG Reranker
+ *
+ * Optional last retrieval stage: reorders the fused keyword + vector results
+ * by how well each chunk answers the query, before they go into the chat
+ * prompt. Choose one with RAG_RERANKER (default off):
+ * - cohere: a hosted cross-encoder (Cohere rerank API, COHERE_API_KEY;
+ *   RERANK_COHERE_MODEL, default rerank-v3.5)
+ * - llm: a cheap model judges each chunk (RERANK_MODEL, default
+ *   groq/llama-3.1-8b-instant), charged to the request's budget
+ *
+ * The client sends the chat route three times as many chunks as it keeps
+ * (RAG_CANDIDATES in lib/utils/search.ts) for the reranker to choose from.
+ * Failures and timeouts (RERANK_TIMEOUT_MS, default 5000) keep the fused order.
+ */
+
+import { providers } from './providers';
+import { BudgetStatus, recordSpend } from './budget';
+import { isCircuitOpen } from './health';
+import { getModelProvider } from './local-models';
+import { callStructured } from './structured-output';
+import { StructuredOutputError } from './errors';
+import { JSONSchema } from '@/lib/utils/json-schema';
+
+export type RerankerKind = 'cohere' | 'llm';
+
+const COHERE_RERANK_URL = 'https://api.cohere.com/v2/rerank';
+const COHERE_MODEL = process.env.RERANK_COHERE_MODEL || 'rerank-v3.5';
+const RERANK_MODEL = process.env.RERANK_MODEL || 'groq/llama-3.1-8b-instant';
+const RERANK_TIMEOUT_MS = Number(process.env.RERANK_TIMEOUT_MS) || 5000;
+const MAX_PASSAGE_CHARS = 1500;
+
+const JUDGE_PROMPT = `You judge how relevant document passages are to a search query.
+Score every passage from 0 (unrelated) to 10 (directly answers the query), in the order given.
+Exact matches on names, codes and formulas the query mentions count as strong evidence.`;
+
+export function getReranker(): RerankerKind | null {
+  const kind = process.env.RAG_RERANKER;
+  return kind === 'cohere' || kind === 'llm' ? kind : null;
+}
+
+/**
+ * Cross-encoder relevance (0-1) of each passage
+ */
+async function scoreWithCrossEncoder(query: string, passages: string[]): Promise<number[]> {
+  const apiKey = process.env.COHERE_API_KEY?.trim();
+  if (!apiKey) throw new Error('COHERE_API_KEY is not set in environment variables');
+
+  const response = await fetch(COHERE_RERANK_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+    body: JSON.stringify({ model: COHERE_MODEL, query, documents: passages, top_n: passages.length }),
+    signal: AbortSignal.timeout(RERANK_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Cohere rerank error (${response.status}): ${await response.text()}`);
+  }
+
+  const data = await response.json();
+  const scores = passages.map(() => 0);
+  for (const result of data.results || []) {
+    if (typeof result.index === 'number') scores[result.index] = result.relevance_score ?? 0;
+  }
+  return scores;
+}
+
+/**
+ * Model-judged relevance (0-1) of each passage
+ */
+async function scoreWithModel(query: string, passages: string[], budget: BudgetStatus | undefined): Promise<number[]> {
+  const providerName = getModelProvider(RERANK_MODEL);
+  const provider = providers[providerName];
+  if (!provider?.isAvailable()) throw new Error(`${providerName} is not available`);
+  if (budget?.level === 'exceeded') throw new Error('the monthly budget is exhausted');
+  if (isCircuitOpen(providerName, RERANK_MODEL)) throw new Error(`${RERANK_MODEL} is failing`);
+
+  const schema: JSONSchema = {
+    type: 'object',
+    required: ['scores'],
+    properties: {
+      scores: {
+        type: 'array',
+        items: { type: 'number', minimum: 0, maximum: 10 },
+        minItems: passages.length,
+        maxItems: passages.length,
+      },
+    },
+  };
+  const list = passages.map((text, i) => `[${i + 1}] ${text.slice(0, MAX_PASSAGE_CHARS)}`).join('\n\n');
+
+  try {
+    const result = await callStructured<{ scores: number[] }>(
+      provider,
+      [
+        { role: 'system', content: JUDGE_PROMPT },
+        { role: 'user', content: `Query: ${query}\n\nPassages:\n${list}` },
+      ],
+      { model: RERANK_MODEL, temperature: 0, maxTokens: 20 + passages.length * 8, signal: AbortSignal.timeout(RERANK_TIMEOUT_MS) },
+      { name: 'relevance_scores', schema, maxRepairs: 1 }
+    );
+    if (budget) recordSpend(budget.agentType, RERANK_MODEL, result.response.usage).catch(() => {});
+    return result.data.scores.map((score) => score / 10);
+  } catch (error) {
+    if (budget && error instanceof StructuredOutputError) {
+      recordSpend(budget.agentType, RERANK_MODEL, error.usage).catch(() => {});
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reorder chunks with the configured reranker and keep the best `limit`
+ * Reranked chunks carry `rerankScore` (0-1), which also becomes their `score`
+ */
+export async function rerankChunks<T extends { text: string; score?: number; rerankScore?: number }>(
+  query: string,
+  chunks: T[],
+  limit: number,
+  budget?: BudgetStatus
+): Promise<T[]> {
+  const kind = getReranker();
+  if (!kind || chunks.length <= 1 || !query.trim()) return chunks.slice(0, limit);
+
+  try {
+    const passages = chunks.map((chunk) => chunk.text);
+    const scores = kind === 'cohere'
+      ? await scoreWithCrossEncoder(query, passages)
+      : await scoreWithModel(query, passages, budget);
+    return chunks
+      .map((chunk, i) => ({ ...chunk, rerankScore: scores[i], score: scores[i] }))
+      .sort((a, b) => b.rerankScore - a.rerankScore)
+      .slice(0, limit);
+  } catch (error: any) {
+    console.warn(`[Reranker] ${kind} reranking failed, keeping the fused order: ${error?.message || error}`);
+    return chunks.slice(0, limit);
+  }
+}
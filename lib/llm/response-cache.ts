@@ -0,0 +1,289 @@
+/**
+ * Response Cache
+ *
+ * Opt-in cache in front of callStructured for deterministic agent calls, so
+ * re-extracting the same CV or re-optimizing a resume for the same job posting
+ * doesn't pay again. Entries are keyed on a SHA-256 hash of the normalized
+ * messages, model, temperature, max tokens and schema. Only replies that
+ * validated against the schema are stored, so a failed extraction is retried
+ * with the model instead of replaying the invalid replies.
+ *
+ * Enabled per agent type with a TTL in hours: extract (168) and resume (24) by
+ * default; cover letters, chat, code and study are not cached. Override with
+ * LLM_CACHE_<AGENT>_TTL_HOURS (0 disables), or LLM_CACHE=off to disable all.
+ *
+ * Entries are kept in a JSON file (LLM_CACHE_PATH, default .data/llm-cache.json),
+ * or only in memory with LLM_CACHE_STORE=memory or when the filesystem is
+ * read-only. At most LLM_CACHE_MAX_ENTRIES (default 200) are kept, oldest first out.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { LLMProvider } from './providers';
+import type { AgentType } from './agent-router';
+import { Message, LLMConfig, LLMResponse } from './types';
+import { calculateOpenRouterCost } from './openrouter-models';
+import { callStructured, StructuredOutputOptions, StructuredOutputMode, StructuredResult } from './structured-output';
+
+export const CACHE_AGENT_TYPES: AgentType[] = ['chat', 'resume', 'cover-letter', 'extract', 'code', 'study'];
+
+interface CacheEntry {
+  agentType: AgentType;
+  model: string;
+  response: LLMResponse; // Last response, with usage summed over all attempts
+  data?: unknown; // Validated reply; entries from before it was stored are ignored
+  mode?: StructuredOutputMode;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface CacheMetrics {
+  hits: number;
+  misses: number;
+  bypassed: number; // Requests that skipped the cache with bypassCache
+  savedTokens: number;
+  savedUsd: number;
+}
+
+export interface CacheStats {
+  ttlHours: Partial<Record<AgentType, number>>; // Enabled agent types
+  entries: number;
+  metrics: Partial<Record<AgentType, CacheMetrics>>; // Since the server started
+}
+
+const DEFAULT_TTL_HOURS: Partial<Record<AgentType, number>> = { extract: 168, resume: 24 };
+
+const STORE_PATH = process.env.LLM_CACHE_PATH || path.join(process.cwd(), '.data', 'llm-cache.json');
+const MAX_ENTRIES = Number(process.env.LLM_CACHE_MAX_ENTRIES) || 200;
+
+let entries: Promise<Map<string, CacheEntry>> | null = null;
+let persistFailed = false;
+const metrics = new Map<AgentType, CacheMetrics>();
+
+// File writes run one at a time, so concurrent misses never interleave
+let writes: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const result = writes.then(task);
+  writes = result.catch(() => {});
+  return result;
+}
+
+function usesFile(): boolean {
+  return process.env.LLM_CACHE_STORE !== 'memory';
+}
+
+/**
+ * Cache lifetime for an agent type in hours (0 when caching is off)
+ */
+export function getCacheTtlHours(agentType: AgentType): number {
+  if (process.env.LLM_CACHE === 'off') return 0;
+  const value = process.env[`LLM_CACHE_${agentType.toUpperCase().replace('-', '_')}_TTL_HOURS`];
+  const hours = value !== undefined && value !== '' ? Number(value) : DEFAULT_TTL_HOURS[agentType] ?? 0;
+  return Number.isFinite(hours) && hours > 0 ? hours : 0;
+}
+
+/**
+ * The cache, read from disk once (concurrent first calls share the read)
+ */
+function loadEntries(): Promise<Map<string, CacheEntry>> {
+  if (!entries) {
+    entries = (async () => {
+      const data = new Map<string, CacheEntry>();
+      if (!usesFile()) return data;
+      let text: string;
+      try {
+        text = await fs.readFile(STORE_PATH, 'utf-8');
+      } catch {
+        return data; // No cache file yet
+      }
+      try {
+        const saved: Record<string, CacheEntry> = JSON.parse(text);
+        for (const [key, entry] of Object.entries(saved)) data.set(key, entry);
+      } catch (error: any) {
+        console.warn(`[Cache] ${STORE_PATH} is not valid JSON, starting with an empty cache: ${error?.message || error}`);
+      }
+      return data;
+    })();
+  }
+  return entries;
+}
+
+/**
+ * Write the cache to a temp file and rename it over the store, so an
+ * interrupted write never leaves truncated JSON behind
+ */
+function saveEntries(data: Map<string, CacheEntry>): Promise<void> {
+  if (!usesFile()) return Promise.resolve();
+  return serialized(async () => {
+    const tempPath = `${STORE_PATH}.${process.pid}.tmp`;
+    try {
+      await fs.mkdir(path.dirname(STORE_PATH), { recursive: true });
+      // Snapshot taken when the write runs, so it includes every change queued before it
+      await fs.writeFile(tempPath, JSON.stringify(Object.fromEntries(data)), 'utf-8');
+      await fs.rename(tempPath, STORE_PATH);
+    } catch (error: any) {
+      await fs.rm(tempPath, { force: true }).catch(() => {});
+      if (!persistFailed) {
+        console.warn(`[Cache] Could not persist ${STORE_PATH}, keeping the cache in memory: ${error?.message || error}`);
+        persistFailed = true;
+      }
+    }
+  });
+}
+
+function metricsFor(agentType: AgentType): CacheMetrics {
+  let entry = metrics.get(agentType);
+  if (!entry) {
+    entry = { hits: 0, misses: 0, bypassed: 0, savedTokens: 0, savedUsd: 0 };
+    metrics.set(agentType, entry);
+  }
+  return entry;
+}
+
+/**
+ * Whitespace-insensitive text: line endings, trailing spaces and outer blank lines
+ */
+function normalizeText(text: string): string {
+  return text.replace(/\r\n?/g, '\n').replace(/[ \t]+$/gm, '').trim();
+}
+
+function normalizeMessage(m: Message) {
+  const content = typeof m.content === 'string'
+    ? normalizeText(m.content)
+    : m.content.map((part) => (part.type === 'text' ? { ...part, text: normalizeText(part.text || '') } : part));
+  return { role: m.role, content, images: m.images, toolCalls: m.toolCalls, toolCallId: m.toolCallId };
+}
+
+/**
+ * Cache key for a structured request
+ */
+export function getCacheKey(messages: Message[], config: LLMConfig, options: StructuredOutputOptions): string {
+  return createHash('sha256')
+    .update(JSON.stringify({
+      model: config.model,
+      temperature: config.temperature,
+      maxTokens: config.maxTokens,
+      tools: config.tools,
+      toolChoice: config.toolChoice,
+      responseFormat: config.responseFormat,
+      structured: { name: options.name, schema: options.schema, mode: options.mode },
+      messages: messages.map(normalizeMessage),
+    }))
+    .digest('hex');
+}
+
+async function getEntry(key: string): Promise<CacheEntry | undefined> {
+  const data = await loadEntries();
+  const entry = data.get(key);
+  if (entry && entry.expiresAt <= Date.now()) {
+    data.delete(key);
+    await saveEntries(data);
+    return undefined;
+  }
+  return entry;
+}
+
+async function setEntry(key: string, entry: CacheEntry): Promise<void> {
+  const data = await loadEntries();
+  const now = Date.now();
+  for (const [existingKey, existing] of data) {
+    if (existing.expiresAt <= now) data.delete(existingKey);
+  }
+  data.delete(key); // Re-insert so the newest entry is last
+  data.set(key, entry);
+  // Maps iterate in insertion order, so the first keys are the oldest
+  for (const oldest of data.keys()) {
+    if (data.size <= MAX_ENTRIES) break;
+    data.delete(oldest);
+  }
+  await saveEntries(data);
+}
+
+/**
+ * callStructured served from the cache when the agent type has caching
+ * enabled. Hits come back with `cached: true` and no usage, so nothing is
+ * spent; with `bypass` the model is called and the cache refreshed. Replies
+ * that never validate throw StructuredOutputError and are not stored.
+ */
+export async function callStructuredCached<T = any>(
+  agentType: AgentType,
+  provider: LLMProvider,
+  messages: Message[],
+  config: LLMConfig,
+  options: StructuredOutputOptions,
+  cacheOptions: { bypass?: boolean } = {}
+): Promise<StructuredResult<T>> {
+  const ttlHours = getCacheTtlHours(agentType);
+  if (ttlHours === 0) return callStructured<T>(provider, messages, config, options);
+
+  const key = getCacheKey(messages, config, options);
+  const agentMetrics = metricsFor(agentType);
+
+  if (cacheOptions.bypass) {
+    agentMetrics.bypassed++;
+  } else {
+    const entry = await getEntry(key);
+    if (entry && entry.data !== undefined) {
+      agentMetrics.hits++;
+      if (entry.response.usage) {
+        agentMetrics.savedTokens += entry.response.usage.totalTokens;
+        agentMetrics.savedUsd += calculateOpenRouterCost(entry.response.usage, entry.model);
+      }
+      return {
+        data: entry.data as T,
+        response: { ...entry.response, usage: undefined, cached: true },
+        mode: entry.mode ?? options.mode ?? 'prompt',
+        attempts: 0,
+      };
+    }
+    agentMetrics.misses++;
+  }
+
+  const result = await callStructured<T>(provider, messages, config, options);
+  const now = Date.now();
+  await setEntry(key, {
+    agentType,
+    model: config.model,
+    response: result.response,
+    data: result.data,
+    mode: result.mode,
+    createdAt: now,
+    expiresAt: now + ttlHours * 60 * 60 * 1000,
+  });
+  return result;
+}
+
+/**
+ * Enabled agent types, stored entries and hit/miss metrics
+ */
+export async function getCacheStats(): Promise<CacheStats> {
+  const ttlHours: Partial<Record<AgentType, number>> = {};
+  for (const agentType of CACHE_AGENT_TYPES) {
+    const hours = getCacheTtlHours(agentType);
+    if (hours > 0) ttlHours[agentType] = hours;
+  }
+  const now = Date.now();
+  const live = Array.from((await loadEntries()).values()).filter((entry) => entry.expiresAt > now);
+  return {
+    ttlHours,
+    entries: live.length,
+    metrics: Object.fromEntries(Array.from(metrics.entries()).map(([agentType, m]) => [agentType, { ...m }])),
+  };
+}
+
+/**
+ * Remove cached responses (all, or one agent type's); returns how many were removed
+ */
+export async function clearResponseCache(agentType?: AgentType): Promise<number> {
+  const data = await loadEntries();
+  let removed = 0;
+  for (const [key, entry] of data) {
+    if (agentType && entry.agentType !== agentType) continue;
+    data.delete(key);
+    removed++;
+  }
+  await saveEntries(data);
+  return removed;
+}
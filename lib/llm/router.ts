@@ -1,6 +1,19 @@
 import { Message } from './types';
 import { getAvailableProviders, getBestAvailableProvider } from './key-checker';
 import { getOpenRouterModelId } from './openrouter-models';
+import {
+  refreshModelCatalog,
+  getCatalogModel,
+  supportsVision,
+  getContextLength,
+  applyCatalogPricing,
+} from './model-catalog';
+import { applyBudget, BudgetStatus } from './budget';
+import { avoidOpenCircuits } from './health';
+import { getAgentFallbackChain, getAgentTypeForMode } from './agent-router';
+import { getTaskRule, getRuleConfigs } from './routing-policy';
+import { getLocalCatalogModels, getModelProvider, LOCAL_MODEL_PREFIX } from './local-models';
+import { classifyRequest, ClassifierMethod, TaskClassification } from './classifier';
 
 export type TaskType =
   | 'web_search'
@@ -17,100 +30,24 @@ export type TaskType =
   | 'general';
 
 export interface ModelConfig {
-  provider: 'groq' | 'kimi' | 'anthropic' | 'perplexity' | 'openai' | 'gemini' | 'openrouter';
+  provider: 'groq' | 'kimi' | 'anthropic' | 'perplexity' | 'openai' | 'gemini' | 'openrouter' | 'local';
   model: string;
   maxTokens: number;
   temperature: number;
   costPer1M: number;
 }
 
-const ROUTING_TABLE: Record<TaskType, ModelConfig> = {
-  web_search: {
-    provider: 'openrouter',
-    model: 'perplexity/sonar', // Perplexity Sonar via OpenRouter
-    maxTokens: 4096,
-    temperature: 0.7,
-    costPer1M: 0.2,
-  },
-  deep_research: {
-    provider: 'openrouter',
-    model: 'perplexity/sonar-pro-search', // Perplexity Pro Search for deep research via OpenRouter
-    maxTokens: 8192, // More tokens for comprehensive research
-    temperature: 0.3, // Lower temperature for more factual, comprehensive responses
-    costPer1M: 15,
-  },
-  code_generation: {
-    provider: 'openrouter',
-    model: 'groq/llama-3.3-70b-versatile', // Groq via OpenRouter
-    maxTokens: 8192,
-    temperature: 0.3,
-    costPer1M: 0.27,
-  },
-  code_editing: {
-    provider: 'openrouter',
-    model: 'anthropic/claude-3.5-sonnet', // Claude Sonnet 4.5 via OpenRouter
-    maxTokens: 8192,
-    temperature: 0.5,
-    costPer1M: 3,
-  },
-  reasoning: {
-    provider: 'openrouter',
-    model: 'moonshotai/kimi-k2-turbo-preview', // Kimi K2 via OpenRouter
-    maxTokens: 4096,
-    temperature: 0.8,
-    costPer1M: 1.2,
-  },
-  quick_qa: {
-    provider: 'openrouter',
-    model: 'groq/llama-3.1-8b-instant', // Groq via OpenRouter
-    maxTokens: 2048,
-    temperature: 0.7,
-    costPer1M: 0.05,
-  },
-  creative_writing: {
-    provider: 'openrouter',
-    model: 'anthropic/claude-3.5-sonnet', // Claude Sonnet 4.5 via OpenRouter
-    maxTokens: 8192,
-    temperature: 1.0,
-    costPer1M: 3,
-  },
-  data_analysis: {
-    provider: 'openrouter',
-    model: 'moonshotai/kimi-k2-turbo-preview', // Kimi K2 via OpenRouter
-    maxTokens: 4096,
-    temperature: 0.3,
-    costPer1M: 1.2,
-  },
-  long_context: {
-    provider: 'openrouter',
-    model: 'anthropic/claude-3.5-sonnet', // Claude Sonnet 4.5 via OpenRouter
-    maxTokens: 8192,
-    temperature: 0.7,
-    costPer1M: 3,
-  },
-  vision: {
-    provider: 'openrouter',
-    model: 'anthropic/claude-3.5-haiku', // Claude Haiku via OpenRouter (cheaper for vision)
-    maxTokens: 4096,
-    temperature: 0.7,
-    costPer1M: 0.8, // Haiku: $0.80/1M input, $4/1M output
-  },
-  study: {
-    provider: 'openrouter',
-    model: 'moonshotai/kimi-k2-turbo-preview', // Kimi K2 via OpenRouter
-    maxTokens: 8192,
-    temperature: 0.7,
-    costPer1M: 1.2,
-  },
-  general: {
-    provider: 'openrouter',
-    model: 'groq/llama-3.1-8b-instant', // Groq via OpenRouter (fast and cheap)
-    maxTokens: 4096,
-    temperature: 0.7,
-    costPer1M: 0.05,
-  },
-};
+/**
+ * Model config for a task type from the routing policy (lib/llm/routing-policy.ts)
+ */
+function getTaskConfig(taskType: TaskType, context: RouteRequestContext): ModelConfig {
+  return getRuleConfigs(getTaskRule(taskType, context))[0];
+}
 
+/**
+ * Keyword rules for the task type
+ * Last resort of the classifier (lib/llm/classifier.ts)
+ */
 export async function classifyTask(
   userMessage: string,
   hasImages: boolean = false,
@@ -198,7 +135,7 @@ export async function classifyTask(
  * Get fallback model config for a provider
  */
 function getFallbackConfig(
-  provider: 'groq' | 'kimi' | 'anthropic' | 'perplexity' | 'openai' | 'gemini' | 'openrouter'
+  provider: 'groq' | 'kimi' | 'anthropic' | 'perplexity' | 'openai' | 'gemini' | 'openrouter' | 'local'
 ): ModelConfig {
   const fallbacks: Record<string, ModelConfig> = {
     openrouter: {
@@ -243,6 +180,13 @@ function getFallbackConfig(
       temperature: 0.7,
       costPer1M: 1.2,
     },
+    local: {
+      provider: 'local',
+      model: getLocalCatalogModels()[0]?.id || `${LOCAL_MODEL_PREFIX}default`,
+      maxTokens: 4096,
+      temperature: 0.7,
+      costPer1M: 0,
+    },
     perplexity: {
       provider: 'perplexity',
       model: 'llama-3.1-sonar-large-128k-online',
@@ -283,17 +227,76 @@ function getConfigWithFallback(
   return getFallbackConfig('groq');
 }
 
+export interface RouteRequestContext {
+  hasImages?: boolean;
+  hasCode?: boolean;
+  fileCount?: number;
+  userOverride?: string; // Manual model selection
+  mode?: 'primary' | 'coding' | 'study'; // Chat mode
+  deepWebSearch?: boolean; // Force Perplexity for web search/research
+  budget?: BudgetStatus; // Steps down to cheaper models near the monthly limit
+}
+
+export interface RouteResult {
+  config: ModelConfig;
+  taskType: TaskType;
+  confidence: number; // Classifier confidence in taskType
+  classifier: ClassifierMethod; // 'rules' when routing overrode the classified type
+}
+
 export async function routeRequest(
   messages: Message[],
-  context: {
-    hasImages?: boolean;
-    hasCode?: boolean;
-    fileCount?: number;
-    userOverride?: string; // Manual model selection
-    mode?: 'primary' | 'coding' | 'study'; // Chat mode
-    deepWebSearch?: boolean; // Force Perplexity for web search/research
-  } = {}
-): Promise<{ config: ModelConfig; taskType: TaskType }> {
+  context: RouteRequestContext = {}
+): Promise<RouteResult> {
+  await refreshModelCatalog();
+  const route = await selectRoute(messages, context);
+
+  // Conversations too long for the routed model go to the long-context model
+  if (!context.userOverride && !fitsContextWindow(route.config, messages)) {
+    route.config = getTaskConfig('long_context', context);
+    route.taskType = 'long_context';
+    route.confidence = 1;
+    route.classifier = 'rules';
+  }
+
+  const config = applyCatalogPricing(applyBudget(route.config, context.budget, context.hasImages));
+  if (context.userOverride) {
+    // An explicit model choice is kept; the chat route still tries it last if its circuit is open
+    return { ...route, config };
+  }
+
+  const alternatives = [
+    ...getRuleConfigs(getTaskRule(route.taskType, context)).slice(1),
+    ...getAgentFallbackChain(getAgentTypeForMode(context.mode), context),
+  ].map((alt) => applyBudget(alt, context.budget, context.hasImages));
+  return { ...route, config: avoidOpenCircuits(config, alternatives) };
+}
+
+/**
+ * Whether the conversation (chars / 4) plus the reply fit the model's context window
+ */
+function fitsContextWindow(config: ModelConfig, messages: Message[]): boolean {
+  const contextLength = getContextLength(config.model);
+  if (!contextLength) return true;
+  const promptTokens = Math.ceil(JSON.stringify(messages).length / 4);
+  return promptTokens + config.maxTokens <= contextLength;
+}
+
+/**
+ * Attach the classification to a route, or mark it as decided by routing rules
+ * when the routed task type differs from the classified one
+ */
+function toRouteResult(config: ModelConfig, taskType: TaskType, classification: TaskClassification): RouteResult {
+  if (taskType === classification.taskType) {
+    return { config, taskType, confidence: classification.confidence, classifier: classification.method };
+  }
+  return { config, taskType, confidence: 1, classifier: 'rules' };
+}
+
+async function selectRoute(
+  messages: Message[],
+  context: RouteRequestContext
+): Promise<RouteResult> {
   // Extract text from last message (handle multimodal content)
   const lastMessageObj = messages[messages.length - 1];
   let lastMessage = '';
@@ -308,47 +311,68 @@ export async function routeRequest(
   }
   const available = getAvailableProviders();
 
-  // OpenRouter is now the primary provider - require it
-  if (!available.openrouter) {
+  // OpenRouter is now the primary provider - require it (or a local endpoint)
+  if (!available.openrouter && !available.local) {
     throw new Error(
       'OPEN_ROUTER_KEY is required. Please add it to your environment variables. ' +
       'OpenRouter provides unified access to all models (Anthropic, Kimi, Groq, Perplexity, OpenAI, etc.) ' +
-      'with a single API key. Get your key at https://openrouter.ai'
+      'with a single API key. Get your key at https://openrouter.ai ' +
+      '(or set LOCAL_LLM_BASE_URL to use a self-hosted model)'
     );
   }
   
   const useOpenRouter = true; // Always use OpenRouter when available
 
-  let taskType = await classifyTask(
-    lastMessage,
-    context.hasImages,
-    context.hasCode,
-    context.fileCount || 0,
-    messages.length
-  );
+  const classification = await classifyRequest(lastMessage, {
+    hasImages: context.hasImages,
+    hasCode: context.hasCode,
+    fileCount: context.fileCount || 0,
+    conversationLength: messages.length,
+    budget: context.budget,
+  });
+  let taskType = classification.taskType;
 
   // User can manually override
   if (context.userOverride) {
+    // Picker values are catalog IDs (e.g. 'anthropic/claude-3.5-sonnet', 'local/llama3.1:8b')
+    const catalogModel = getCatalogModel(context.userOverride);
+    const catalogProvider = catalogModel && getModelProvider(catalogModel.id);
+    const needsVision = context.hasImages || (context.fileCount && context.fileCount > 0);
+    if (catalogModel && catalogProvider && available[catalogProvider] &&
+        (!needsVision || supportsVision(catalogModel.id))) {
+      return toRouteResult(
+        {
+          provider: catalogProvider,
+          model: catalogModel.id,
+          maxTokens: Math.min(4096, catalogModel.contextLength || 4096),
+          temperature: 0.7,
+          costPer1M: catalogModel.pricing.input,
+        },
+        context.hasImages ? 'vision' : 'general',
+        classification
+      );
+    }
+
     const [provider, model] = context.userOverride.split('/');
-    const overrideProvider = provider as 'groq' | 'kimi' | 'anthropic' | 'perplexity' | 'openai' | 'gemini' | 'openrouter';
+    const overrideProvider = provider as 'groq' | 'kimi' | 'anthropic' | 'perplexity' | 'openai' | 'gemini' | 'openrouter' | 'local';
     
     // CRITICAL: Prevent using non-vision models with images or files
-    // Kimi K2, Groq, and Perplexity do NOT support images/file extraction
-    // Only Claude and OpenAI support vision
+    // Image support comes from the model catalog's input modalities
     if ((context.hasImages || (context.fileCount && context.fileCount > 0)) && 
-        (overrideProvider === 'groq' || overrideProvider === 'perplexity' || overrideProvider === 'kimi' || overrideProvider === 'gemini')) {
+        !supportsVision(getOpenRouterModelId(context.userOverride))) {
       // Auto-switch to Claude Haiku (cheapest) or OpenAI for vision
       // Always use OpenRouter for vision tasks
-      return {
-        config: {
+      return toRouteResult(
+        {
           provider: 'openrouter',
           model: 'anthropic/claude-3.5-haiku', // OpenRouter model ID
           maxTokens: 4096,
           temperature: 0.7,
           costPer1M: 0.8,
         },
-        taskType: context.hasImages ? 'vision' : 'long_context',
-      };
+        context.hasImages ? 'vision' : 'long_context',
+        classification
+      );
     }
     
     // Check if override provider is available
@@ -359,30 +383,30 @@ export async function routeRequest(
       if (overrideProvider === 'openrouter' && model) {
         finalModel = getOpenRouterModelId(model);
       } else if (overrideProvider === 'openrouter' && !model) {
-        // Get preferred config for task type
-        const preferredConfig = ROUTING_TABLE[taskType];
-        // Use default model for task type via OpenRouter
-        finalModel = getOpenRouterModelId(preferredConfig.model);
+        // Use the policy's model for the task type via OpenRouter
+        finalModel = getTaskConfig(taskType, context).model;
       }
       
-      return {
-        config: {
+      return toRouteResult(
+        {
           provider: overrideProvider,
           model: finalModel,
           maxTokens: 4096,
           temperature: 0.7,
           costPer1M: getFallbackConfig(overrideProvider).costPer1M,
         },
-        taskType: context.hasImages ? 'vision' : 'general',
-      };
+        context.hasImages ? 'vision' : 'general',
+        classification
+      );
     } else {
       // Fallback to best available
       const fallback = getBestAvailableProvider(overrideProvider, available);
       if (fallback) {
-        return {
-          config: getFallbackConfig(fallback),
-          taskType: context.hasImages ? 'vision' : 'general',
-        };
+        return toRouteResult(
+          getFallbackConfig(fallback),
+          context.hasImages ? 'vision' : 'general',
+          classification
+        );
       }
     }
   }
@@ -399,63 +423,26 @@ export async function routeRequest(
                                taskType === 'web_search' || taskType === 'deep_research';
     
     if (isSearchOrResearch) {
-      // Use OpenRouter with Perplexity models for web search/research
-      return {
-        config: {
-          provider: 'openrouter',
-          model: taskType === 'deep_research' ? 'perplexity/sonar-pro-search' : 'perplexity/sonar',
-          maxTokens: 8192,
-          temperature: 0.3,
-          costPer1M: 5,
-        },
-        taskType: taskType === 'deep_research' ? 'deep_research' : 'web_search',
-      };
+      // The policy routes these to Perplexity when deep web search is on
+      taskType = taskType === 'deep_research' ? 'deep_research' : 'web_search';
+      return toRouteResult(getTaskConfig(taskType, context), taskType, classification);
     }
   }
 
-  // CRITICAL: If images or files are present, MUST use Claude via OpenRouter
-  // Kimi K2, Groq, and Perplexity do NOT support images/file extraction
-  // Claude 3.5 Sonnet is the preferred choice for vision tasks
+  // CRITICAL: If images or files are present, MUST use a vision model
+  // (the policy's vision or long-context model)
   if (context.hasImages || (context.fileCount && context.fileCount > 0)) {
-    const visionConfig: ModelConfig = {
-      provider: 'openrouter',
-      model: 'anthropic/claude-3.5-sonnet', // OpenRouter model ID
-      maxTokens: 8192,
-            temperature: 0.7,
-            costPer1M: 3,
-          };
-      
-      return {
-        config: visionConfig,
-      taskType: context.hasImages ? 'vision' : 'long_context',
-    };
+    taskType = context.hasImages ? 'vision' : 'long_context';
+    return toRouteResult(getTaskConfig(taskType, context), taskType, classification);
   }
 
-  // In coding mode, prefer coding-optimized models
-  if (context.mode === 'coding') {
-    // Override routing for coding mode - prefer Claude for code tasks
-    if (taskType === 'code_generation' || taskType === 'code_editing') {
-      const codingConfig = {
-        provider: 'openrouter' as const,
-        model: 'anthropic/claude-3.5-sonnet', // OpenRouter model ID
-        maxTokens: 8192,
-        temperature: 0.3,
-        costPer1M: 3,
-      };
-      
-        return {
-          config: codingConfig,
-          taskType,
-        };
-    }
-  }
-
-  const preferredConfig = ROUTING_TABLE[taskType];
+  // Conditions in the policy cover mode-specific choices (e.g. Claude for code in coding mode)
+  const preferredConfig = getTaskConfig(taskType, context);
   
   // If OpenRouter is available, convert to OpenRouter model IDs
   let config = getConfigWithFallback(preferredConfig, available);
   
-  if (useOpenRouter && available.openrouter) {
+  if (useOpenRouter && available.openrouter && config.provider !== 'local') {
     // Convert to OpenRouter provider and model ID
     const openRouterModelId = getOpenRouterModelId(config.model);
     config = {
@@ -469,9 +456,6 @@ export async function routeRequest(
   
   // All routing now goes through OpenRouter - no direct provider fallbacks needed
 
-  return {
-    config,
-    taskType,
-  };
+  return toRouteResult(config, taskType, classification);
 }
 
@@ -0,0 +1,382 @@
+/**
+ * Routing Policy
+ *
+ * Declarative model assignments used by routeRequest (per TaskType) and
+ * routeAgentToOptimalLLM (per AgentType). Each entry is a list of rules; the
+ * first rule whose conditions match the request wins, and the last rule of
+ * every list must be unconditional.
+ *
+ * Defaults are defined below. Saved changes replace whole rule lists and are
+ * kept in a JSON file (ROUTING_POLICY_PATH, default .data/routing-policy.json)
+ * that is re-read when it changes, so edits from the settings panel
+ * (/api/routing-policy) or by hand apply without a redeploy. The file is
+ * checked at most every few seconds, not on every routing decision.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { TaskType, ModelConfig } from './router';
+import type { AgentType } from './agent-router';
+import { getCatalogModel, getModelPricing, resolveModelId, supportsVision } from './model-catalog';
+import { getModelProvider } from './local-models';
+import { validateJsonSchema, formatSchemaErrors, JSONSchema, SchemaValidationError } from '@/lib/utils/json-schema';
+
+export type ChatMode = 'primary' | 'coding' | 'study';
+
+export const TASK_TYPES: TaskType[] = [
+  'web_search', 'deep_research', 'code_generation', 'code_editing', 'reasoning', 'quick_qa',
+  'creative_writing', 'data_analysis', 'long_context', 'vision', 'study', 'general',
+];
+
+export const ROUTING_AGENT_TYPES: AgentType[] = ['chat', 'resume', 'cover-letter', 'extract', 'code', 'study'];
+
+/**
+ * All conditions present must hold for a rule to match
+ */
+export interface RouteConditions {
+  taskTypes?: TaskType[];
+  modes?: ChatMode[];
+  hasImages?: boolean;
+  minFileCount?: number;
+  complexityAbove?: number; // 0-1, from estimateCodingComplexity
+  deepWebSearch?: boolean;
+}
+
+export interface RouteRule {
+  when?: RouteConditions;
+  model: string; // OpenRouter model ID or catalog alias
+  fallbacks: string[]; // Tried in order when the model fails
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface RoutingPolicy {
+  tasks: Record<TaskType, RouteRule[]>;
+  agents: Record<AgentType, RouteRule[]>;
+}
+
+/**
+ * Request facts the conditions are checked against
+ */
+export interface RouteMatchContext {
+  taskType?: TaskType;
+  mode?: ChatMode;
+  hasImages?: boolean;
+  fileCount?: number;
+  complexity?: number;
+  deepWebSearch?: boolean;
+}
+
+/**
+ * Saved changes: null restores the default rules
+ */
+export interface RoutingPolicyChanges {
+  tasks?: Partial<Record<TaskType, RouteRule[] | null>>;
+  agents?: Partial<Record<AgentType, RouteRule[] | null>>;
+}
+
+const SONNET = 'anthropic/claude-3.5-sonnet';
+const GPT_4O = 'openai/gpt-4o';
+
+export const DEFAULT_ROUTING_POLICY: RoutingPolicy = {
+  tasks: {
+    web_search: [
+      { when: { deepWebSearch: true }, model: 'perplexity/sonar', fallbacks: [], temperature: 0.3, maxTokens: 8192 },
+      { model: 'perplexity/sonar', fallbacks: [], temperature: 0.7, maxTokens: 4096 },
+    ],
+    deep_research: [
+      { model: 'perplexity/sonar-pro-search', fallbacks: [], temperature: 0.3, maxTokens: 8192 },
+    ],
+    code_generation: [
+      { when: { modes: ['coding'] }, model: SONNET, fallbacks: [], temperature: 0.3, maxTokens: 8192 },
+      { model: 'groq/llama-3.3-70b-versatile', fallbacks: [], temperature: 0.3, maxTokens: 8192 },
+    ],
+    code_editing: [
+      { when: { modes: ['coding'] }, model: SONNET, fallbacks: [], temperature: 0.3, maxTokens: 8192 },
+      { model: SONNET, fallbacks: [], temperature: 0.5, maxTokens: 8192 },
+    ],
+    reasoning: [{ model: 'moonshotai/kimi-k2-turbo-preview', fallbacks: [], temperature: 0.8, maxTokens: 4096 }],
+    quick_qa: [{ model: 'groq/llama-3.1-8b-instant', fallbacks: [], temperature: 0.7, maxTokens: 2048 }],
+    creative_writing: [{ model: SONNET, fallbacks: [], temperature: 1.0, maxTokens: 8192 }],
+    data_analysis: [{ model: 'moonshotai/kimi-k2-turbo-preview', fallbacks: [], temperature: 0.3, maxTokens: 4096 }],
+    long_context: [{ model: SONNET, fallbacks: [], temperature: 0.7, maxTokens: 8192 }],
+    vision: [{ model: SONNET, fallbacks: [GPT_4O], temperature: 0.7, maxTokens: 8192 }],
+    study: [{ model: 'moonshotai/kimi-k2-turbo-preview', fallbacks: [], temperature: 0.7, maxTokens: 8192 }],
+    general: [{ model: 'groq/llama-3.1-8b-instant', fallbacks: [], temperature: 0.7, maxTokens: 4096 }],
+  },
+  agents: {
+    chat: [
+      // Research goes to Perplexity: Pro Search for deep research, Sonar Pro for web search
+      {
+        when: { taskTypes: ['deep_research'] },
+        model: 'perplexity/sonar-pro-search',
+        fallbacks: [SONNET, GPT_4O],
+        temperature: 0.3,
+        maxTokens: 8192,
+      },
+      { when: { deepWebSearch: true }, model: 'perplexity/sonar-pro', fallbacks: [SONNET, GPT_4O], temperature: 0.7, maxTokens: 4096 },
+      { when: { taskTypes: ['web_search'] }, model: 'perplexity/sonar-pro', fallbacks: [SONNET, GPT_4O], temperature: 0.7, maxTokens: 4096 },
+      { model: SONNET, fallbacks: [GPT_4O], temperature: 0.7, maxTokens: 8192 },
+    ],
+    resume: [{ model: SONNET, fallbacks: [GPT_4O], temperature: 0.3, maxTokens: 8192 }],
+    'cover-letter': [{ model: SONNET, fallbacks: [GPT_4O], temperature: 0.7, maxTokens: 8192 }],
+    extract: [{ model: GPT_4O, fallbacks: [SONNET], temperature: 0.1, maxTokens: 4096 }],
+    code: [
+      { when: { deepWebSearch: true }, model: 'perplexity/sonar-pro', fallbacks: [SONNET, GPT_4O], temperature: 0.7, maxTokens: 4096 },
+      // Complex coding tasks go to Opus
+      { when: { complexityAbove: 0.7 }, model: 'anthropic/claude-opus-4', fallbacks: [SONNET, GPT_4O], temperature: 0.3, maxTokens: 8192 },
+      { model: SONNET, fallbacks: [GPT_4O], temperature: 0.3, maxTokens: 8192 },
+    ],
+    study: [
+      { when: { deepWebSearch: true }, model: 'perplexity/sonar-pro', fallbacks: [SONNET, GPT_4O], temperature: 0.7, maxTokens: 4096 },
+      { model: SONNET, fallbacks: [GPT_4O], temperature: 0.7, maxTokens: 8192 },
+    ],
+  },
+};
+
+const STORE_PATH = process.env.ROUTING_POLICY_PATH || path.join(process.cwd(), '.data', 'routing-policy.json');
+
+let saved: RoutingPolicyChanges = {};
+let savedMtime: number | null = null;
+let checkedAt = 0;
+const RELOAD_CHECK_MS = 2000; // Hand edits apply within this long
+let persistFailed = false;
+let candidate: RoutingPolicyChanges | null = null;
+
+/**
+ * Re-read the policy file when it has changed on disk (checked every RELOAD_CHECK_MS unless forced)
+ * An invalid file (e.g. a bad hand edit) is ignored in favour of the last known policy
+ */
+function loadSaved(force = false): RoutingPolicyChanges {
+  const now = Date.now();
+  if (!force && now - checkedAt < RELOAD_CHECK_MS) {
+    return saved;
+  }
+  checkedAt = now;
+  try {
+    const mtime = fs.statSync(STORE_PATH).mtimeMs;
+    if (mtime !== savedMtime) {
+      savedMtime = mtime;
+      const validation = validateRoutingPolicyChanges(JSON.parse(fs.readFileSync(STORE_PATH, 'utf-8')));
+      if (validation.valid) {
+        saved = validation.value;
+      } else {
+        console.warn(`[Routing Policy] Ignoring invalid ${STORE_PATH}: ${formatSchemaErrors(validation.errors)}`);
+      }
+    }
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      console.warn(`[Routing Policy] Could not read ${STORE_PATH}, using last known policy: ${error?.message || error}`);
+    }
+  }
+  return saved;
+}
+
+/**
+ * Effective policy: defaults with saved rule lists applied
+ */
+export function getRoutingPolicy(): RoutingPolicy {
+  const changes = candidate ? mergeChanges(loadSaved(), candidate) : loadSaved();
+  return {
+    tasks: { ...DEFAULT_ROUTING_POLICY.tasks, ...(changes.tasks as Partial<Record<TaskType, RouteRule[]>>) },
+    agents: { ...DEFAULT_ROUTING_POLICY.agents, ...(changes.agents as Partial<Record<AgentType, RouteRule[]>>) },
+  };
+}
+
+function matches(conditions: RouteConditions | undefined, context: RouteMatchContext): boolean {
+  if (!conditions) return true;
+  const { taskTypes, modes, hasImages, minFileCount, complexityAbove, deepWebSearch } = conditions;
+  if (taskTypes && (!context.taskType || !taskTypes.includes(context.taskType))) return false;
+  if (modes && !modes.includes(context.mode || 'primary')) return false;
+  if (hasImages !== undefined && !!context.hasImages !== hasImages) return false;
+  if (minFileCount !== undefined && (context.fileCount || 0) < minFileCount) return false;
+  if (complexityAbove !== undefined && (context.complexity ?? 0) <= complexityAbove) return false;
+  if (deepWebSearch !== undefined && !!context.deepWebSearch !== deepWebSearch) return false;
+  return true;
+}
+
+function selectRule(rules: RouteRule[], context: RouteMatchContext): RouteRule {
+  return rules.find((rule) => matches(rule.when, context)) || rules[rules.length - 1];
+}
+
+export function getTaskRule(taskType: TaskType, context: RouteMatchContext = {}): RouteRule {
+  const { tasks } = getRoutingPolicy();
+  return selectRule(tasks[taskType] || tasks.general, { ...context, taskType });
+}
+
+export function getAgentRule(agentType: AgentType, context: RouteMatchContext = {}): RouteRule {
+  const { agents } = getRoutingPolicy();
+  return selectRule(agents[agentType] || agents.chat, context);
+}
+
+/**
+ * Model configs for a rule: its model followed by its fallbacks
+ */
+export function getRuleConfigs(rule: RouteRule): ModelConfig[] {
+  return [rule.model, ...rule.fallbacks].map((model) => {
+    const id = resolveModelId(model);
+    return {
+      provider: getModelProvider(id),
+      model: id,
+      maxTokens: rule.maxTokens,
+      temperature: rule.temperature,
+      costPer1M: getModelPricing(id)?.input ?? 0,
+    };
+  });
+}
+
+const CONDITIONS_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    taskTypes: { type: 'array', items: { type: 'string', enum: TASK_TYPES }, minItems: 1 },
+    modes: { type: 'array', items: { type: 'string', enum: ['primary', 'coding', 'study'] }, minItems: 1 },
+    hasImages: { type: 'boolean' },
+    minFileCount: { type: 'integer', minimum: 0 },
+    complexityAbove: { type: 'number', minimum: 0, maximum: 1 },
+    deepWebSearch: { type: 'boolean' },
+  },
+  additionalProperties: false,
+};
+
+const RULES_SCHEMA: JSONSchema = {
+  type: ['array', 'null'],
+  minItems: 1,
+  items: {
+    type: 'object',
+    properties: {
+      when: CONDITIONS_SCHEMA,
+      model: { type: 'string', minLength: 1 },
+      fallbacks: { type: 'array', items: { type: 'string', minLength: 1 }, default: [] },
+      temperature: { type: 'number', minimum: 0, maximum: 2 },
+      maxTokens: { type: 'integer', minimum: 1 },
+    },
+    required: ['model', 'temperature', 'maxTokens'],
+    additionalProperties: false,
+  },
+};
+
+const POLICY_CHANGES_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    tasks: {
+      type: 'object',
+      properties: Object.fromEntries(TASK_TYPES.map((taskType) => [taskType, RULES_SCHEMA])),
+      additionalProperties: false,
+    },
+    agents: {
+      type: 'object',
+      properties: Object.fromEntries(ROUTING_AGENT_TYPES.map((agentType) => [agentType, RULES_SCHEMA])),
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+};
+
+/**
+ * Check rules against the model catalog: models must be known, fit max tokens
+ * in their context window and see images when the rule requires images
+ */
+function validateRules(
+  rules: RouteRule[],
+  rulesPath: string,
+  errors: SchemaValidationError[],
+  needsVision: boolean = false
+): void {
+  rules.forEach((rule, i) => {
+    const rulePath = `${rulesPath}[${i}]`;
+    if (rule.when && i === rules.length - 1) {
+      errors.push({ path: `${rulePath}.when`, message: 'the last rule must not have conditions' });
+    }
+
+    for (const [modelPath, model] of [
+      [`${rulePath}.model`, rule.model],
+      ...rule.fallbacks.map((fallback, j) => [`${rulePath}.fallbacks[${j}]`, fallback]),
+    ]) {
+      const entry = getCatalogModel(model);
+      if (!entry) {
+        errors.push({ path: modelPath, message: `unknown model "${model}"` });
+        continue;
+      }
+      if (entry.contextLength && rule.maxTokens > entry.contextLength) {
+        errors.push({ path: `${rulePath}.maxTokens`, message: `exceeds the ${entry.contextLength}-token context of ${entry.id}` });
+      }
+      if ((needsVision || rule.when?.hasImages) && !supportsVision(model)) {
+        errors.push({ path: modelPath, message: `${entry.id} does not accept images` });
+      }
+    }
+  });
+}
+
+/**
+ * Validate policy changes; returns the changes with defaults applied
+ */
+export function validateRoutingPolicyChanges(body: any): {
+  valid: boolean;
+  errors: SchemaValidationError[];
+  value: RoutingPolicyChanges;
+} {
+  const result = validateJsonSchema<RoutingPolicyChanges>(POLICY_CHANGES_SCHEMA, body);
+  if (!result.valid) return result;
+
+  const errors: SchemaValidationError[] = [];
+  for (const section of ['tasks', 'agents'] as const) {
+    for (const [key, rules] of Object.entries(result.value[section] || {})) {
+      if (rules) validateRules(rules, `${section}.${key}`, errors, section === 'tasks' && key === 'vision');
+    }
+  }
+  return { valid: errors.length === 0, errors, value: result.value };
+}
+
+/**
+ * Apply changes on top of saved ones (null removes the saved rule list)
+ */
+function mergeChanges(base: RoutingPolicyChanges, changes: RoutingPolicyChanges): RoutingPolicyChanges {
+  const next: RoutingPolicyChanges = {
+    tasks: { ...base.tasks },
+    agents: { ...base.agents },
+  };
+
+  for (const section of ['tasks', 'agents'] as const) {
+    const target = next[section] as Record<string, RouteRule[] | null>;
+    for (const [key, rules] of Object.entries(changes[section] || {})) {
+      if (rules === null) {
+        delete target[key];
+      } else {
+        // Store canonical IDs so the policy doesn't depend on aliases
+        target[key] = rules.map((rule) => ({
+          ...rule,
+          model: resolveModelId(rule.model),
+          fallbacks: rule.fallbacks.map(resolveModelId),
+        }));
+      }
+    }
+  }
+  return next;
+}
+
+/**
+ * Route with validated changes applied on top of the saved policy, without
+ * saving them (used by the routing evaluation in lib/eval); null clears them
+ */
+export function setCandidateRoutingPolicy(changes: RoutingPolicyChanges | null): void {
+  candidate = changes;
+}
+
+/**
+ * Save validated changes (null restores a default rule list)
+ */
+export async function updateRoutingPolicy(changes: RoutingPolicyChanges): Promise<RoutingPolicy> {
+  const next = mergeChanges(loadSaved(true), changes);
+  saved = next;
+  try {
+    await fs.promises.mkdir(path.dirname(STORE_PATH), { recursive: true });
+    await fs.promises.writeFile(STORE_PATH, JSON.stringify(next, null, 2), 'utf-8');
+    savedMtime = fs.statSync(STORE_PATH).mtimeMs;
+  } catch (error: any) {
+    if (!persistFailed) {
+      console.warn(`[Routing Policy] Could not persist ${STORE_PATH}, keeping policy in memory: ${error?.message || error}`);
+      persistFailed = true;
+    }
+  }
+  return getRoutingPolicy();
+}
@@ -0,0 +1,125 @@
+/**
+ * Structured Agent Calls
+ *
+ * One structured-output request (see ./structured-output) for an agent such
+ * as resume, cover letter or extraction: routed within the agent's budget,
+ * tried on the routed model and then its fallback chain, with health and
+ * spend recorded for every attempt and results served from the response cache
+ * when the agent has it enabled (see ./response-cache).
+ */
+
+import { providers } from './providers';
+import type { Message } from './types';
+import type { AgentType } from './agent-router';
+import { routeAgentToOptimalLLM, getAgentFallbackChain } from './agent-router';
+import { getBudgetStatus, recordSpend, getBudgetErrorBody } from './budget';
+import { classifyLLMError, isRetryableError } from './fallback';
+import { recordSuccess, recordFailure } from './health';
+import { callStructuredCached } from './response-cache';
+import { AllModelsFailedError, BudgetExceededError, StructuredOutputError } from './errors';
+import type { StructuredOutputOptions } from './structured-output';
+
+export interface StructuredAgentOptions {
+  maxTokens: number; // Used when the routed model sets no limit
+  budgetOverride?: boolean; // The user confirmed sending past the monthly cap
+  bypassCache?: boolean;
+  logTag: string; // Prefix of warnings, e.g. 'Resume Optimize'
+}
+
+export interface StructuredAgentResult<T> {
+  data: T;
+  model: string;
+  cached: boolean;
+  triedModels: string[];
+}
+
+/**
+ * Run a structured request on the agent's model, falling back down its chain
+ * Throws BudgetExceededError at the monthly cap and AllModelsFailedError when
+ * no model produced valid data; auth, credit and budget errors stop the chain
+ */
+export async function runStructuredAgent<T = any>(
+  agentType: AgentType,
+  messages: Message[],
+  structured: StructuredOutputOptions,
+  options: StructuredAgentOptions
+): Promise<StructuredAgentResult<T>> {
+  // Near the monthly limit this steps down to cheaper models; at the cap it throws
+  const budget = await getBudgetStatus(agentType, options.budgetOverride === true);
+  const config = routeAgentToOptimalLLM(agentType, { budget });
+  const configs = [config, ...getAgentFallbackChain(agentType, { budget })];
+
+  const triedModels: string[] = [];
+  let lastError: unknown = null;
+
+  for (const modelConfig of configs) {
+    const model = modelConfig.model;
+    if (triedModels.includes(model)) continue;
+    triedModels.push(model);
+
+    const startedAt = Date.now();
+    try {
+      // Policy rules may point at a local model; everything else goes through OpenRouter
+      const provider = providers[modelConfig.provider] || providers.openrouter;
+      const result = await callStructuredCached<T>(agentType, provider, messages, {
+        model,
+        temperature: modelConfig.temperature,
+        maxTokens: modelConfig.maxTokens || options.maxTokens,
+      }, structured, { bypass: options.bypassCache === true });
+      if (!result.response.cached) {
+        recordSuccess(modelConfig.provider, model, Date.now() - startedAt);
+      }
+      await recordSpend(agentType, model, result.response.usage);
+      return { data: result.data, model, cached: !!result.response.cached, triedModels };
+    } catch (error: any) {
+      lastError = error;
+      const errorMessage = error?.message || String(error);
+      const errorKind = classifyLLMError(error);
+      recordFailure(modelConfig.provider, model, errorKind, Date.now() - startedAt, errorMessage);
+      // Invalid replies were still paid for
+      if (error instanceof StructuredOutputError) {
+        await recordSpend(agentType, model, error.usage);
+      }
+
+      // Auth, credit and budget errors would fail the same way on the next model
+      if (!isRetryableError(errorKind)) {
+        console.warn(`[${options.logTag}] ${model} failed (${errorKind}): ${errorMessage}`);
+        break;
+      }
+      console.warn(`[${options.logTag}] ${model} failed (${errorKind}): ${errorMessage}, trying next model...`);
+    }
+  }
+
+  throw new AllModelsFailedError(triedModels, lastError);
+}
+
+/**
+ * HTTP status and JSON body for an error from runStructuredAgent
+ * @param action - What failed, e.g. 'optimize resume'
+ */
+export function getStructuredAgentErrorResponse(
+  error: unknown,
+  action: string
+): { status: number; body: Record<string, unknown> } {
+  if (error instanceof BudgetExceededError) {
+    return { status: 402, body: getBudgetErrorBody(error) };
+  }
+
+  const cause = error instanceof AllModelsFailedError ? error.lastError : error;
+  const triedModels = error instanceof AllModelsFailedError ? error.triedModels : undefined;
+  const message = error instanceof Error ? error.message : String(error);
+
+  switch (classifyLLMError(cause)) {
+    case 'auth':
+      return {
+        status: 401,
+        body: { error: 'API key authentication failed. Please check your API keys in environment variables.', details: message },
+      };
+    case 'rate_limit':
+      return { status: 429, body: { error: 'Rate limit exceeded. Please try again in a few moments.', details: message } };
+    case 'quota':
+      return { status: 402, body: { error: 'Provider quota/funding depleted. Please check your account balance.', details: message } };
+    default:
+      return { status: 500, body: { error: `Failed to ${action}. ${message}`, triedModels } };
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Structured Output
+ *
+ * JSON replies that follow a JSON Schema, on top of LLMProvider.call. The
+ * schema reaches the model in the strongest form it supports:
+ * - native: `response_format: json_schema` (providers with supportsResponseFormat,
+ *   models flagged supportsStructuredOutputs in the catalog)
+ * - tool: a single forced tool call whose parameters are the schema
+ * - prompt: the schema in the system prompt, JSON extracted from the reply
+ *
+ * Every reply is validated (lib/utils/json-schema). Invalid replies are sent
+ * back with the validation errors for up to STRUCTURED_OUTPUT_MAX_REPAIRS
+ * (default 2) repair attempts before a StructuredOutputError is thrown.
+ */
+
+import type { LLMProvider } from './providers';
+import { Message, LLMConfig, LLMResponse, ToolCall } from './types';
+import { StructuredOutputError } from './errors';
+import { supportsStructuredOutputs, supportsTools } from './model-catalog';
+import { validateJsonSchema, formatSchemaErrors, JSONSchema, SchemaValidationError } from '@/lib/utils/json-schema';
+
+export type StructuredOutputMode = 'native' | 'tool' | 'prompt';
+
+export interface StructuredOutputOptions {
+  name: string; // Schema and tool name, e.g. 'personal_info'
+  description?: string; // Tool description in tool mode
+  schema: JSONSchema;
+  maxRepairs?: number;
+  mode?: StructuredOutputMode; // Defaults to the strongest mode the model supports
+}
+
+export interface StructuredResult<T> {
+  data: T; // Validated reply with schema defaults applied
+  response: LLMResponse; // Last response, with usage summed over all attempts
+  mode: StructuredOutputMode;
+  attempts: number;
+}
+
+const DEFAULT_MAX_REPAIRS = Number(process.env.STRUCTURED_OUTPUT_MAX_REPAIRS ?? 2);
+
+/**
+ * Strongest structured output mode the provider and model support
+ */
+export function getStructuredOutputMode(provider: LLMProvider, model: string): StructuredOutputMode {
+  if (provider.supportsResponseFormat && supportsStructuredOutputs(model)) return 'native';
+  if (provider.supportsTools && supportsTools(model)) return 'tool';
+  return 'prompt';
+}
+
+/**
+ * Parse a JSON object from a reply, tolerating code fences and surrounding prose
+ */
+function parseJsonReply(text: string): { value?: any; error?: string } {
+  const trimmed = text.trim();
+  if (!trimmed) return { error: 'reply was empty' };
+
+  const candidates = [
+    trimmed,
+    trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/)?.[1],
+    trimmed.match(/\{[\s\S]*\}/)?.[0],
+  ];
+  let error = 'reply was not valid JSON';
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return { value: JSON.parse(candidate) };
+    } catch (e: any) {
+      error = `reply was not valid JSON (${e?.message || e})`;
+    }
+  }
+  return { error };
+}
+
+/**
+ * Add the schema instruction to the system prompt (prompt mode)
+ */
+function withSchemaInstruction(messages: Message[], schema: JSONSchema): Message[] {
+  const instruction =
+    'Reply with a single JSON object that matches this JSON Schema. ' +
+    `Do not wrap it in markdown or add any other text.\n${JSON.stringify(schema)}`;
+
+  const systemIndex = messages.findIndex((m) => m.role === 'system' && typeof m.content === 'string');
+  if (systemIndex === -1) return [{ role: 'system', content: instruction }, ...messages];
+  return messages.map((m, i) => (i === systemIndex ? { ...m, content: `${m.content}\n\n${instruction}` } : m));
+}
+
+function addUsage(total: LLMResponse['usage'], usage: LLMResponse['usage']): LLMResponse['usage'] {
+  if (!usage) return total;
+  if (!total) return { ...usage };
+  const cacheReadTokens = (total.cacheReadTokens || 0) + (usage.cacheReadTokens || 0);
+  const cacheWriteTokens = (total.cacheWriteTokens || 0) + (usage.cacheWriteTokens || 0);
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+    ...(cacheReadTokens > 0 && { cacheReadTokens }),
+    ...(cacheWriteTokens > 0 && { cacheWriteTokens }),
+  };
+}
+
+/**
+ * Messages asking the model to fix an invalid reply
+ * A forced tool call is answered with a tool result, anything else with a user turn
+ */
+function repairMessages(response: LLMResponse, toolCall: ToolCall | undefined, problem: string): Message[] {
+  const feedback = `Your reply did not match the required JSON Schema: ${problem}.`;
+  if (toolCall) {
+    return [
+      { role: 'assistant', content: response.content, toolCalls: [toolCall] },
+      { role: 'tool', toolCallId: toolCall.id, content: `${feedback} Call ${toolCall.name} again with corrected arguments.` },
+    ];
+  }
+  return [
+    { role: 'assistant', content: response.content || ' ' },
+    { role: 'user', content: `${feedback} Reply again with the corrected JSON.` },
+  ];
+}
+
+/**
+ * Call the model for a JSON reply matching `options.schema`
+ * Provider errors propagate unchanged; replies that never validate throw StructuredOutputError
+ */
+export async function callStructured<T = any>(
+  provider: LLMProvider,
+  messages: Message[],
+  config: LLMConfig,
+  options: StructuredOutputOptions
+): Promise<StructuredResult<T>> {
+  const mode = options.mode ?? getStructuredOutputMode(provider, config.model);
+  const maxRepairs = Math.max(0, options.maxRepairs ?? DEFAULT_MAX_REPAIRS);
+
+  const callConfig: LLMConfig = { ...config, stream: false };
+  if (mode === 'native') {
+    callConfig.responseFormat = { name: options.name, schema: options.schema };
+  } else if (mode === 'tool') {
+    callConfig.tools = [{
+      type: 'function',
+      function: {
+        name: options.name,
+        description: options.description || `Return the ${options.name.replace(/_/g, ' ')} as structured data`,
+        parameters: options.schema,
+      },
+    }];
+    callConfig.toolChoice = options.name;
+  }
+
+  let conversation = mode === 'prompt' ? withSchemaInstruction(messages, options.schema) : messages;
+  let usage: LLMResponse['usage'];
+  let errors: SchemaValidationError[] = [];
+  let raw = '';
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const response = await provider.call(conversation, callConfig);
+    usage = addUsage(usage, response.usage);
+
+    // Models that ignore the forced tool sometimes answer with the JSON as text
+    const toolCall = mode === 'tool' ? response.toolCalls?.find((call) => call.name === options.name) : undefined;
+    raw = toolCall ? toolCall.arguments : response.content;
+
+    const parsed = parseJsonReply(raw);
+    if (parsed.error === undefined) {
+      const validation = validateJsonSchema<T>(options.schema, parsed.value);
+      if (validation.valid) {
+        return { data: validation.value, response: { ...response, usage }, mode, attempts: attempt };
+      }
+      errors = validation.errors;
+    } else {
+      errors = [{ path: '', message: parsed.error }];
+    }
+
+    const problem = formatSchemaErrors(errors);
+    console.warn(`[Structured Output] ${config.model} ${options.name} reply invalid (attempt ${attempt}, ${mode}): ${problem}`);
+    conversation = [...conversation, ...repairMessages(response, toolCall, problem)];
+  }
+
+  throw new StructuredOutputError(
+    provider.name,
+    `${config.model} did not return valid ${options.name} JSON after ${maxRepairs + 1} attempts: ${formatSchemaErrors(errors)}`,
+    { errors, raw, attempts: maxRepairs + 1, usage }
+  );
+}
@@ -1,7 +1,40 @@
 export interface Message {
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   content: string | Array<{ type: 'text' | 'image_url' | 'image'; text?: string; image_url?: { url: string }; source?: { type: string; media_type: string; data: string } }>;
   images?: string[]; // Base64 images for convenience
+  toolCalls?: ToolCall[]; // Tool calls requested by the assistant in this turn
+  toolCallId?: string; // For role 'tool': the call this message answers
+  cacheBreakpoint?: boolean; // Ends a stable prefix; providers with prompt caching cache everything up to here
+}
+
+/**
+ * A function call requested by the model
+ * `arguments` is the raw JSON string as produced by the model
+ */
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+/**
+ * Tool schema exposed to the model (OpenAI function-calling format)
+ */
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+  };
+}
+
+/**
+ * JSON Schema the reply must follow (OpenAI `response_format: json_schema`)
+ */
+export interface ResponseFormat {
+  name: string;
+  schema: Record<string, any>;
 }
 
 export interface LLMConfig {
@@ -9,6 +42,10 @@ export interface LLMConfig {
   temperature: number;
   maxTokens: number;
   stream?: boolean;
+  tools?: ToolDefinition[]; // Only honoured by providers with supportsTools
+  toolChoice?: string; // Name of a tool in `tools` the model must call
+  responseFormat?: ResponseFormat; // Only honoured by providers with supportsResponseFormat
+  signal?: AbortSignal; // Cancels the request, including a stream in progress
 }
 
 export interface LLMResponse {
@@ -17,6 +54,18 @@ export interface LLMResponse {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
+    cacheReadTokens?: number; // Prompt tokens served from the provider's prompt cache (part of promptTokens)
+    cacheWriteTokens?: number; // Prompt tokens written to the prompt cache (part of promptTokens)
   };
+  toolCalls?: ToolCall[];
+  cached?: boolean; // Served from the response cache; no usage, nothing spent
 }
 
+/**
+ * Items yielded by streamCall
+ * Plain strings are content deltas; objects carry usage or completed tool calls
+ */
+export type StreamChunk =
+  | string
+  | { usage: LLMResponse['usage'] }
+  | { toolCalls: ToolCall[] };
@@ -8,6 +8,8 @@
  * - Maintain core functionality while improving tone
  */
 
+import { CITATION_INSTRUCTIONS, formatSourceHeading } from '@/lib/utils/citations';
+
 /**
  * CHAT AGENT - Perplexity Pro / Claude Sonnet 4.5
  * 
@@ -61,7 +63,7 @@ When someone asks a question:
 - Presenting opinion as fact
 - Long summaries that discourage reading the original sources
 
-**Communication Style**: Direct, informative, curious. Treat each query as a mini research project. Ask clarifying questions when the query is ambiguous.${ragContext ? `\n\nRelevant context from uploaded documents:\n${ragContext.map((chunk: any, i: number) => `\n[Document ${i + 1}: ${chunk.documentName}]\n${chunk.text}`).join('\n')}` : ''}${toolResults ? `\n\n[Tool Results]:\n${JSON.stringify(toolResults, null, 2)}` : ''}${personalInfoContext ? `\n\n${personalInfoContext}` : ''}${memoryContext ? `\n\n${memoryContext}` : ''}`;
+**Communication Style**: Direct, informative, curious. Treat each query as a mini research project. Ask clarifying questions when the query is ambiguous.${personalInfoContext ? `\n\n${personalInfoContext}` : ''}${memoryContext ? `\n\n${memoryContext}` : ''}${ragContext && ragContext.length > 0 ? `\n\nRelevant context from uploaded documents. ${CITATION_INSTRUCTIONS}\n${ragContext.map((chunk: any, i: number) => `\n${formatSourceHeading(chunk, i)}\n${chunk.text}`).join('\n')}` : ''}${toolResults ? `\n\n[Tool Results]:\n${JSON.stringify(toolResults, null, 2)}` : ''}`;
   }
 
   // Claude Sonnet 4.5 optimized prompt for general chat and reasoning
@@ -78,27 +80,6 @@ When users need code run, you automatically execute it in a sandbox.
 
 Be conversational, helpful, and concise. Match ChatGPT's tone and quality.`;
 
-  // Add context
-  if (ragContext && ragContext.length > 0) {
-    basePrompt += '\n\nRelevant context from uploaded documents:\n';
-    ragContext.forEach((chunk: any, index: number) => {
-      basePrompt += `\n[Document ${index + 1}: ${chunk.documentName}]\n${chunk.text}\n`;
-    });
-  }
-
-  if (toolResults && Object.keys(toolResults).length > 0) {
-    basePrompt += '\n\n[Tool Results]:\n';
-    basePrompt += JSON.stringify(toolResults, null, 2);
-  }
-
-  if (personalInfoContext) {
-    basePrompt += personalInfoContext;
-  }
-
-  if (memoryContext) {
-    basePrompt += memoryContext;
-  }
-
   // Task-specific additions
   switch (taskType) {
     case 'code_generation':
@@ -112,6 +93,27 @@ Be conversational, helpful, and concise. Match ChatGPT's tone and quality.`;
       break;
   }
 
+  // Add context, most stable first so the prompt prefix can be cached across turns
+  if (personalInfoContext) {
+    basePrompt += personalInfoContext;
+  }
+
+  if (memoryContext) {
+    basePrompt += memoryContext;
+  }
+
+  if (ragContext && ragContext.length > 0) {
+    basePrompt += `\n\nRelevant context from uploaded documents. ${CITATION_INSTRUCTIONS}\n`;
+    ragContext.forEach((chunk: any, index: number) => {
+      basePrompt += `\n${formatSourceHeading(chunk, index)}\n${chunk.text}\n`;
+    });
+  }
+
+  if (toolResults && Object.keys(toolResults).length > 0) {
+    basePrompt += '\n\n[Tool Results]:\n';
+    basePrompt += JSON.stringify(toolResults, null, 2);
+  }
+
   return basePrompt;
 }
 
@@ -520,7 +522,7 @@ Skip preambles like "As an AI assistant"—just help solve the problem.
 
 **Core philosophy**: You can maintain focus for 30+ hours on complex tasks. Use that strength. Don't rush. Think through the problem deeply, plan carefully, then implement with precision.
 
-${ragContext && ragContext.length > 0 ? `\n\n[Relevant Code Context from Uploaded Files]:\n${ragContext.map((chunk: any, i: number) => `\n[File ${i + 1}: ${chunk.documentName}]\n${chunk.text}`).join('\n')}` : ''}${toolResults && Object.keys(toolResults).length > 0 ? `\n\n[Tool Execution Results]:\n${JSON.stringify(toolResults, null, 2)}` : ''}`;
+${ragContext && ragContext.length > 0 ? `\n\n[Relevant Code Context from Uploaded Files]:\n${CITATION_INSTRUCTIONS}\n${ragContext.map((chunk: any, i: number) => `\n${formatSourceHeading(chunk, i)}\n${chunk.text}`).join('\n')}` : ''}${toolResults && Object.keys(toolResults).length > 0 ? `\n\n[Tool Execution Results]:\n${JSON.stringify(toolResults, null, 2)}` : ''}`;
 }
 
 /**
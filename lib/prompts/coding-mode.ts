@@ -4,6 +4,8 @@
  * Reference: https://github.com/x1xhlol/system-prompts-and-models-of-ai-tools
  */
 
+import { CITATION_INSTRUCTIONS, formatSourceHeading } from '@/lib/utils/citations';
+
 export const CODING_MODE_PROMPTS = {
   /**
    * Main coding assistant prompt (inspired by Cursor, Devin AI, and best practices)
@@ -175,9 +177,9 @@ export function getCodingPrompt(
 
   // Add RAG context
   if (ragContext && ragContext.length > 0) {
-    prompt += '\n\n[Relevant Code Context from Uploaded Files]:\n';
+    prompt += `\n\n[Relevant Code Context from Uploaded Files]:\n${CITATION_INSTRUCTIONS}\n`;
     ragContext.forEach((chunk: any, index: number) => {
-      prompt += `\n[File ${index + 1}: ${chunk.documentName}]\n${chunk.text}\n`;
+      prompt += `\n${formatSourceHeading(chunk, index)}\n${chunk.text}\n`;
     });
   }
 
@@ -4,6 +4,8 @@
  * Combines: EELC Persona + Claude's Research + Technical Implementation
  */
 
+import { CITATION_INSTRUCTIONS, formatSourceHeading } from '@/lib/utils/citations';
+
 export const STUDY_MODE_PROMPTS = {
   /**
    * Main Study Mode Prompt - Elite Engineering Learning Coach (EELC)
@@ -414,9 +416,9 @@ ${errorLog.slice(0, 5).map((error, idx) =>
 
   // Add RAG context (study materials)
   if (ragContext && ragContext.length > 0) {
-    prompt += '\n\n[RELEVANT STUDY MATERIALS FROM UPLOADED FILES]:\n';
+    prompt += `\n\n[RELEVANT STUDY MATERIALS FROM UPLOADED FILES]:\n${CITATION_INSTRUCTIONS}\n`;
     ragContext.forEach((chunk: any, index: number) => {
-      prompt += `\n[Source ${index + 1}: ${chunk.documentName || 'Document'}]\n${chunk.text}\n`;
+      prompt += `\n${formatSourceHeading(chunk, index)}\n${chunk.text}\n`;
     });
   }
 
@@ -609,7 +611,7 @@ Use your background knowledge about:
 - Prerequisite knowledge needed
 - Typical learning curves for the subject
 
-${ragContext && ragContext.length > 0 ? `\n\n## PROVIDED STUDY MATERIALS\n\nThe user has provided the following materials. Analyze them and incorporate key concepts into the study plan:\n\n${ragContext.map((chunk: any, i: number) => `\n[Source ${i + 1}: ${chunk.documentName || 'Document'}]\n${chunk.text.substring(0, 1000)}${chunk.text.length > 1000 ? '...' : ''}\n`).join('\n')}\n\nPrioritize concepts from these materials in your study plan.` : ''}
+${ragContext && ragContext.length > 0 ? `\n\n## PROVIDED STUDY MATERIALS\n\nThe user has provided the following materials. Analyze them and incorporate key concepts into the study plan. ${CITATION_INSTRUCTIONS}\n\n${ragContext.map((chunk: any, i: number) => `\n${formatSourceHeading(chunk, i)}\n${chunk.text.substring(0, 1000)}${chunk.text.length > 1000 ? '...' : ''}\n`).join('\n')}\n\nPrioritize concepts from these materials in your study plan.` : ''}
 
 ## Final Instructions
 
@@ -0,0 +1,385 @@
+/**
+ * Code Execution Backends
+ *
+ * Pluggable executors behind the code_interpreter tool:
+ * - local: runs Python/JavaScript in a subprocess on this server with
+ *   CPU, memory, wall-clock, output, filesystem and network limits
+ * - e2b: hosted sandbox at e2b.dev (requires E2B_API_KEY)
+ *
+ * Selection via CODE_EXECUTOR=local|e2b. When unset, E2B is used if its key
+ * is configured. The local backend is opt-in because it runs model-written
+ * code on the host: it is a best-effort sandbox, not a container.
+ */
+
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+export type CodeLanguage = 'python' | 'javascript';
+
+export interface CodeExecutionRequest {
+  language: CodeLanguage;
+  code: string;
+}
+
+export interface GeneratedFile {
+  name: string;
+  mimeType: string;
+  size: number;
+  data?: string; // Base64, omitted when the file exceeds the size limit
+}
+
+export interface CodeExecutionResult {
+  backend: string;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  files: GeneratedFile[];
+  durationMs: number;
+}
+
+export interface CodeExecutor {
+  name: string;
+  languages: CodeLanguage[];
+  isAvailable: () => boolean;
+  execute: (request: CodeExecutionRequest) => Promise<CodeExecutionResult>;
+}
+
+/**
+ * Limits for the local executor (overridable via environment)
+ */
+export interface LocalSandboxLimits {
+  wallClockMs: number;
+  cpuSeconds: number;
+  memoryMB: number;
+  maxFileSizeMB: number;
+  maxOutputBytes: number;
+  maxReturnedFileBytes: number;
+}
+
+function getLocalLimits(): LocalSandboxLimits {
+  const env = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+  return {
+    wallClockMs: env('CODE_EXECUTOR_TIMEOUT_MS', 15000),
+    cpuSeconds: env('CODE_EXECUTOR_CPU_SECONDS', 10),
+    memoryMB: env('CODE_EXECUTOR_MEMORY_MB', 512),
+    maxFileSizeMB: env('CODE_EXECUTOR_MAX_FILE_MB', 20),
+    maxOutputBytes: 64 * 1024,
+    maxReturnedFileBytes: 2 * 1024 * 1024,
+  };
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.html': 'text/html',
+  '.pdf': 'application/pdf',
+};
+
+const PYTHON_BOOTSTRAP = '_sandbox.py';
+const NODE_BOOTSTRAP = '_sandbox.js';
+
+/**
+ * Python bootstrap: confines file access to the working directory (stdlib and
+ * site-packages stay readable), blocks subprocesses, network sockets and ctypes
+ * (which could call libc's system() directly), runs the user script and saves
+ * any open matplotlib figures as PNGs on exit
+ */
+function getPythonBootstrap(workDir: string, scriptName: string): string {
+  return `import sys, os, atexit, runpy
+_WORKDIR = os.path.realpath(${JSON.stringify(workDir)})
+_READ_ROOTS = tuple({os.path.realpath(p) for p in (sys.prefix, sys.base_prefix, sys.exec_prefix, *sys.path) if p}) + ('/usr/share', '/etc/fonts', '/dev/null', '/dev/urandom')
+
+def _save_figures():
+    try:
+        plt = sys.modules.get('matplotlib.pyplot')
+        if plt is None:
+            return
+        for i, num in enumerate(plt.get_fignums()):
+            plt.figure(num).savefig(os.path.join(_WORKDIR, f'plot_{i + 1}.png'))
+    except Exception as e:
+        print(f'[sandbox] could not save figures: {e}', file=sys.stderr)
+
+atexit.register(_save_figures)
+
+import socket as _socket
+_AF_UNIX = getattr(_socket, 'AF_UNIX', None)
+_BLOCKED_MODULES = ('ctypes', '_ctypes')
+
+def _audit(event, args):
+    if event == 'open':
+        target, mode, flags = args
+        if isinstance(target, int) or target is None:
+            return
+        real = os.path.realpath(os.fsdecode(target))
+        if mode is not None:
+            writing = any(c in str(mode) for c in 'wax+')
+        else:
+            writing = bool(flags & (os.O_WRONLY | os.O_RDWR | os.O_CREAT))
+        if real == _WORKDIR or real.startswith(_WORKDIR + os.sep):
+            return
+        if not writing and real.startswith(_READ_ROOTS):
+            return
+        raise PermissionError(f'sandbox: access to {real} is not allowed')
+    if event == 'import' and args[0].split('.')[0] in _BLOCKED_MODULES:
+        raise ImportError(f'sandbox: importing {args[0]} is not allowed', name=args[0])
+    if event.startswith('ctypes.'):
+        raise PermissionError(f'sandbox: {event} is not allowed')
+    if event == 'socket.__new__' and args[1] != _AF_UNIX:
+        raise PermissionError('sandbox: network sockets are not allowed')
+    if event in ('subprocess.Popen', 'os.system', 'os.exec', 'os.posix_spawn', 'os.fork', 'os.forkpty',
+                 'socket.connect', 'socket.bind', 'socket.sendto', 'socket.sendmsg'):
+        raise PermissionError(f'sandbox: {event} is not allowed')
+
+sys.addaudithook(_audit)
+del _audit
+runpy.run_path(${JSON.stringify(scriptName)}, run_name='__main__')
+`;
+}
+
+/**
+ * Node preload: blocks sockets (net, tls, http and fetch all connect through
+ * net.Socket) and UDP. File access and subprocesses are already confined by
+ * Node's permission model, which has no network scope
+ */
+function getNodeBootstrap(): string {
+  return `'use strict';
+const net = require('net');
+const dgram = require('dgram');
+const deny = (what) => function () {
+  throw Object.assign(new Error('sandbox: ' + what + ' is not allowed'), { code: 'ERR_ACCESS_DENIED' });
+};
+net.Socket.prototype.connect = deny('socket.connect');
+net.Server.prototype.listen = deny('socket.bind');
+dgram.Socket.prototype.bind = deny('socket.bind');
+dgram.Socket.prototype.send = deny('socket.connect');
+`;
+}
+
+/**
+ * Build the command line for a language, wrapped in ulimit for CPU, file-size and memory limits
+ * Node reserves large virtual address ranges, so its memory cap limits the data
+ * segment (heap and Buffers; about 100 MB is needed to start) instead of ulimit -v
+ */
+function buildCommand(
+  language: CodeLanguage,
+  workDir: string,
+  scriptName: string,
+  limits: LocalSandboxLimits
+): string[] {
+  const ulimits = [
+    `ulimit -t ${limits.cpuSeconds}`,
+    `ulimit -f ${limits.maxFileSizeMB * 1024}`,
+  ];
+
+  if (language === 'python') {
+    ulimits.push(`ulimit -v ${limits.memoryMB * 1024}`);
+    const python = process.env.CODE_EXECUTOR_PYTHON || 'python3';
+    return ['/bin/sh', '-c', `${ulimits.join('; ')}; exec "$0" -I "$1"`, python, PYTHON_BOOTSTRAP];
+  }
+
+  ulimits.push(`ulimit -d ${limits.memoryMB * 1024}`);
+  const node = process.env.CODE_EXECUTOR_NODE || process.execPath;
+  return [
+    '/bin/sh',
+    '-c',
+    `${ulimits.join('; ')}; exec "$0" --no-warnings --max-old-space-size=${limits.memoryMB} --experimental-permission --allow-fs-read="$1" --allow-fs-write="$1" --require "$2" "$3"`,
+    node,
+    workDir,
+    path.join(workDir, NODE_BOOTSTRAP),
+    path.join(workDir, scriptName),
+  ];
+}
+
+/**
+ * Collect files the program wrote into its working directory
+ */
+async function collectGeneratedFiles(
+  workDir: string,
+  scriptName: string,
+  limits: LocalSandboxLimits
+): Promise<GeneratedFile[]> {
+  const entries = await fs.readdir(workDir, { withFileTypes: true });
+  const files: GeneratedFile[] = [];
+
+  for (const entry of entries) {
+    if (!entry.isFile() || entry.name === scriptName || entry.name === PYTHON_BOOTSTRAP || entry.name === NODE_BOOTSTRAP) continue;
+    const filePath = path.join(workDir, entry.name);
+    const stat = await fs.stat(filePath);
+    const file: GeneratedFile = {
+      name: entry.name,
+      mimeType: MIME_TYPES[path.extname(entry.name).toLowerCase()] || 'application/octet-stream',
+      size: stat.size,
+    };
+    if (stat.size <= limits.maxReturnedFileBytes) {
+      file.data = (await fs.readFile(filePath)).toString('base64');
+    }
+    files.push(file);
+  }
+
+  return files;
+}
+
+/**
+ * Local subprocess executor
+ */
+export const localExecutor: CodeExecutor = {
+  name: 'local',
+  languages: ['python', 'javascript'],
+  isAvailable: () => process.env.CODE_EXECUTOR === 'local' && process.platform !== 'win32',
+  execute: async ({ language, code }) => {
+    const limits = getLocalLimits();
+    const workDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'shilo-sandbox-')));
+    const scriptName = language === 'python' ? 'main.py' : 'main.js';
+    const startedAt = Date.now();
+
+    try {
+      await fs.writeFile(path.join(workDir, scriptName), code, 'utf-8');
+      if (language === 'python') {
+        await fs.writeFile(path.join(workDir, PYTHON_BOOTSTRAP), getPythonBootstrap(workDir, scriptName), 'utf-8');
+      } else {
+        await fs.writeFile(path.join(workDir, NODE_BOOTSTRAP), getNodeBootstrap(), 'utf-8');
+      }
+      const [command, ...args] = buildCommand(language, workDir, scriptName, limits);
+
+      return await new Promise<CodeExecutionResult>((resolve, reject) => {
+        // Minimal environment: never leak API keys to user code
+        const child = spawn(command, args, {
+          cwd: workDir,
+          env: {
+            PATH: '/usr/local/bin:/usr/bin:/bin',
+            HOME: workDir,
+            TMPDIR: workDir,
+            MPLBACKEND: 'Agg',
+            MPLCONFIGDIR: workDir,
+            PYTHONDONTWRITEBYTECODE: '1',
+            NODE_ENV: 'production',
+            NODE_OPTIONS: '',
+          },
+          stdio: ['ignore', 'pipe', 'pipe'],
+          detached: true, // Own process group so the whole tree can be killed
+        });
+
+        let stdout = '';
+        let stderr = '';
+        let timedOut = false;
+        const append = (current: string, chunk: Buffer) =>
+          current.length >= limits.maxOutputBytes
+            ? current
+            : (current + chunk.toString('utf-8')).slice(0, limits.maxOutputBytes);
+
+        child.stdout.on('data', (chunk: Buffer) => { stdout = append(stdout, chunk); });
+        child.stderr.on('data', (chunk: Buffer) => { stderr = append(stderr, chunk); });
+
+        const timer = setTimeout(() => {
+          timedOut = true;
+          try {
+            process.kill(-child.pid!, 'SIGKILL');
+          } catch {
+            child.kill('SIGKILL');
+          }
+        }, limits.wallClockMs);
+
+        child.on('error', (error) => {
+          clearTimeout(timer);
+          reject(error);
+        });
+
+        child.on('close', async (exitCode, signal) => {
+          clearTimeout(timer);
+          if (signal === 'SIGXCPU' || (exitCode === 152 && !timedOut)) {
+            stderr += `\n[sandbox] CPU time limit of ${limits.cpuSeconds}s exceeded`;
+          } else if (signal === 'SIGKILL' && !timedOut) {
+            // The kernel's hard CPU limit and the OOM killer both end the process with SIGKILL
+            stderr += `\n[sandbox] Killed: CPU time limit of ${limits.cpuSeconds}s or memory limit of ${limits.memoryMB}MB exceeded`;
+          }
+          if (timedOut) {
+            stderr += `\n[sandbox] Wall-clock limit of ${limits.wallClockMs}ms exceeded`;
+          }
+          try {
+            resolve({
+              backend: 'local',
+              stdout,
+              stderr,
+              exitCode,
+              timedOut,
+              files: await collectGeneratedFiles(workDir, scriptName, limits),
+              durationMs: Date.now() - startedAt,
+            });
+          } catch (error) {
+            reject(error);
+          }
+        });
+      });
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  },
+};
+
+/**
+ * E2B hosted sandbox executor
+ */
+export const e2bExecutor: CodeExecutor = {
+  name: 'e2b',
+  languages: ['python', 'javascript'],
+  isAvailable: () => !!process.env.E2B_API_KEY,
+  execute: async ({ language, code }) => {
+    const startedAt = Date.now();
+    const response = await fetch('https://api.e2b.dev/v1/sandboxes', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${process.env.E2B_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        language,
+        code,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`E2B API error: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    return {
+      backend: 'e2b',
+      stdout: result.stdout || '',
+      stderr: result.stderr || '',
+      exitCode: result.exit_code ?? null,
+      timedOut: false,
+      files: [],
+      durationMs: Date.now() - startedAt,
+    };
+  },
+};
+
+const executors: Record<string, CodeExecutor> = {
+  local: localExecutor,
+  e2b: e2bExecutor,
+};
+
+/**
+ * Get the configured code executor, or null if code execution is disabled
+ */
+export function getCodeExecutor(): CodeExecutor | null {
+  const configured = process.env.CODE_EXECUTOR;
+  if (configured) {
+    const executor = executors[configured];
+    return executor && executor.isAvailable() ? executor : null;
+  }
+  return e2bExecutor.isAvailable() ? e2bExecutor : null;
+}
@@ -1,8 +1,63 @@
+import type { ToolCall, ToolDefinition } from '@/lib/llm/types';
+import type { FileData } from '@/lib/types/api';
+import { JSONSchema, SchemaValidationError, validateJsonSchema, formatSchemaErrors } from '@/lib/utils/json-schema';
+import { getCodeExecutor } from './code-executor';
+import { fetchPublicUrl } from './public-url';
+
 export interface Tool {
   name: string;
   description: string;
-  parameters: Record<string, string>;
-  execute: (params: any, context?: any) => Promise<any>;
+  parameters: JSONSchema & { type: 'object' }; // Validated (and defaults applied) before execute runs
+  execute: (params: any, context?: ToolContext) => Promise<any>;
+  isAvailable?: () => boolean; // Hidden from the model when this returns false
+  requiresFiles?: boolean; // Only offered when the user attached files
+  toModelResult?: (result: any) => any; // Trim a result before it is sent back to the model
+}
+
+/**
+ * Request-scoped data tools can read but the model cannot forge
+ * Files are the user's uploads; they are never read from server paths
+ */
+export interface ToolContext {
+  files: FileData[];
+}
+
+/**
+ * Resolve an attached file by name (falls back to the first attachment)
+ * Attachments arrive as data URLs from the client, or as public http(s) URLs
+ */
+async function readAttachedFile(
+  context: ToolContext | undefined,
+  fileName?: string
+): Promise<{ buffer: Buffer; mimeType: string; name: string } | null> {
+  const files = context?.files || [];
+  const file = fileName
+    ? files.find((f) => f.name === fileName) || files.find((f) => f.name?.toLowerCase() === fileName.toLowerCase())
+    : files[0];
+  if (!file) return null;
+
+  let mimeType = file.type || 'application/octet-stream';
+  const raw = file.data || file.content;
+
+  if (raw) {
+    // Handle base64 data URL format (data:type;base64,...)
+    if (raw.startsWith('data:') && raw.includes(',')) {
+      const [prefix, base64Data] = raw.split(',', 2);
+      const mimeMatch = prefix.match(/data:([^;]+)/);
+      if (mimeMatch) {
+        mimeType = mimeMatch[1];
+      }
+      return { buffer: Buffer.from(base64Data, 'base64'), mimeType, name: file.name };
+    }
+    return { buffer: Buffer.from(raw, 'utf-8'), mimeType, name: file.name };
+  }
+
+  if (file.url) {
+    const response = await fetchPublicUrl(file.url);
+    return { buffer: Buffer.from(await response.arrayBuffer()), mimeType, name: file.name };
+  }
+
+  return null;
 }
 
 /**
@@ -12,10 +67,16 @@ const webSearchTool: Tool = {
   name: 'web_search',
   description: 'Search the web for current information, news, facts, or real-time data',
   parameters: {
-    query: 'string - the search query',
-    num_results: 'number - how many results to return (default: 5)',
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'The search query', minLength: 1 },
+      num_results: { type: 'integer', description: 'How many results to return', minimum: 1, maximum: 20, default: 5 },
+    },
+    required: ['query'],
+    additionalProperties: false,
   },
-  execute: async ({ query, num_results = 5 }) => {
+  isAvailable: () => !!process.env.BRAVE_SEARCH_API_KEY,
+  execute: async ({ query, num_results }) => {
     const apiKey = process.env.BRAVE_SEARCH_API_KEY;
     if (!apiKey) {
       // Return empty results instead of throwing error
@@ -58,46 +119,38 @@ const parseFileTool: Tool = {
   name: 'parse_file',
   description: 'Extract and read text content from various file formats (PDF, DOCX, PPTX, TXT, MD, CSV, XLSX, JSON, images)',
   parameters: {
-    file_path: 'string - path to file or file data',
-    file_type: 'string - MIME type of the file (optional)',
+    type: 'object',
+    properties: {
+      file_name: { type: 'string', description: 'Name of an attached file to read (defaults to the first attachment)' },
+      file_path: {
+        type: 'string',
+        description: 'http(s) URL of a remote file to download instead of an attachment',
+        pattern: '^https?://',
+      },
+    },
+    additionalProperties: false,
   },
-  execute: async ({ file_path, file_data, file_type }, context) => {
+  requiresFiles: true,
+  execute: async ({ file_name, file_path }, context) => {
     // Get file buffer
     let buffer: Buffer;
-    let mimeType = file_type || 'application/octet-stream';
+    let mimeType = 'application/octet-stream';
     let fileName = 'file';
 
-    if (file_data) {
-      // Handle base64 data URL format (data:type;base64,...)
-      let base64Data = file_data;
-      
-      if (typeof file_data === 'string' && file_data.includes(',')) {
-        // Extract MIME type and base64 part
-        const parts = file_data.split(',');
-        const dataUrlPrefix = parts[0];
-        base64Data = parts[1];
-        
-        // Extract MIME type from data URL
-        const mimeMatch = dataUrlPrefix.match(/data:([^;]+)/);
-        if (mimeMatch) {
-          mimeType = mimeMatch[1];
-        }
-      }
-      
-      try {
-        buffer = Buffer.from(base64Data, 'base64');
-      } catch (error) {
-        throw new Error(`Failed to decode base64: ${error}`);
-      }
-    } else if (file_path?.startsWith('http')) {
-      const response = await fetch(file_path);
+    if (file_path) {
+      // Only public remote URLs - the model must never be able to read server paths or internal hosts
+      const response = await fetchPublicUrl(file_path);
       buffer = Buffer.from(await response.arrayBuffer());
-    } else if (file_path) {
-      const fs = await import('fs');
-      buffer = fs.readFileSync(file_path);
+      mimeType = response.headers.get('content-type')?.split(';')[0] || mimeType;
       fileName = file_path;
     } else {
-      throw new Error('No file data or path provided');
+      const attached = await readAttachedFile(context, file_name);
+      if (!attached) {
+        throw new Error(file_name ? `No attached file named "${file_name}"` : 'No attached file to read');
+      }
+      buffer = attached.buffer;
+      mimeType = attached.mimeType;
+      fileName = attached.name || fileName;
     }
 
     // Parse based on file type
@@ -238,11 +291,28 @@ const analyzeCsvTool: Tool = {
   name: 'analyze_csv',
   description: 'Parse and analyze CSV data, get column info and statistics',
   parameters: {
-    csv_data: 'string - CSV content or file path',
+    type: 'object',
+    properties: {
+      file_name: { type: 'string', description: 'Name of an attached CSV file' },
+      csv_data: { type: 'string', description: 'Raw CSV content, when not analyzing an attachment' },
+    },
+    additionalProperties: false,
   },
-  execute: async ({ csv_data }) => {
+  requiresFiles: true,
+  execute: async ({ file_name, csv_data }, context) => {
     const Papa = await import('papaparse');
 
+    if (!csv_data) {
+      const attached = await readAttachedFile(
+        context,
+        file_name || context?.files.find((f) => f.type === 'text/csv' || f.name?.toLowerCase().endsWith('.csv'))?.name
+      );
+      if (!attached) {
+        return { error: 'No CSV data or attached CSV file provided' };
+      }
+      csv_data = attached.buffer.toString('utf-8');
+    }
+
     const parsed = Papa.parse(csv_data, {
       header: true,
       dynamicTyping: true,
@@ -281,53 +351,45 @@ const analyzeCsvTool: Tool = {
 };
 
 /**
- * Code Interpreter Tool - Execute Python code (using E2B or similar)
+ * Code Interpreter Tool - Execute Python or JavaScript via the configured executor
+ * (local subprocess sandbox or E2B, see code-executor.ts)
  */
 const codeInterpreterTool: Tool = {
   name: 'code_interpreter',
-  description: 'Execute Python code in a sandbox and return results',
+  description: 'Execute Python or JavaScript code in a sandbox and return stdout, stderr, exit code and any files it writes to the working directory (matplotlib figures are saved as PNGs automatically)',
   parameters: {
-    code: 'string - Python code to execute',
+    type: 'object',
+    properties: {
+      code: { type: 'string', description: 'Source code to execute', minLength: 1 },
+      language: { type: 'string', enum: ['python', 'javascript'], description: 'Language of the code', default: 'python' },
+    },
+    required: ['code'],
+    additionalProperties: false,
   },
-  execute: async ({ code }) => {
-    const apiKey = process.env.E2B_API_KEY;
-    if (!apiKey) {
-      // Fallback: return error message
+  isAvailable: () => getCodeExecutor() !== null,
+  execute: async ({ code, language }) => {
+    const executor = getCodeExecutor();
+    if (!executor) {
       return {
-        error: 'E2B_API_KEY not configured. Code execution requires E2B API.',
-        note: 'You can set up E2B at https://e2b.dev',
+        error: 'Code execution is not configured. Set CODE_EXECUTOR=local or E2B_API_KEY.',
       };
     }
+    if (!executor.languages.includes(language)) {
+      return { error: `The ${executor.name} executor does not support ${language}` };
+    }
 
     try {
-      const response = await fetch('https://api.e2b.dev/v1/sandboxes', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          language: 'python',
-          code,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`E2B API error: ${response.statusText}`);
-      }
-
-      const result = await response.json();
-      return {
-        output: result.stdout,
-        error: result.stderr,
-        exitCode: result.exit_code,
-      };
+      return await executor.execute({ language, code });
     } catch (error) {
       return {
         error: `Code execution failed: ${String(error)}`,
       };
     }
   },
+  // File contents go to the client only; the model just needs to know they exist
+  toModelResult: (result) => result?.files
+    ? { ...result, files: result.files.map(({ data, ...file }: any) => file) }
+    : result,
 };
 
 /**
@@ -337,11 +399,16 @@ const fetchWebpageTool: Tool = {
   name: 'fetch_webpage',
   description: 'Fetch and extract text content from a webpage',
   parameters: {
-    url: 'string - URL to fetch',
+    type: 'object',
+    properties: {
+      url: { type: 'string', description: 'http(s) URL of the page to fetch', pattern: '^https?://' },
+    },
+    required: ['url'],
+    additionalProperties: false,
   },
   execute: async ({ url }) => {
     try {
-      const response = await fetch(url, {
+      const response = await fetchPublicUrl(url, {
         headers: {
           'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
         },
@@ -386,152 +453,88 @@ export const tools: Tool[] = [
 ];
 
 /**
- * Detect which tools are required based on user message and files
+ * Tool schemas the model may call for this request
+ * File tools are only offered when attachments are present
  */
-export async function detectRequiredTools(
-  userMessage: string,
-  files: any[] = []
-): Promise<string[]> {
-  const requiredTools: string[] = [];
-
-  // Web search detection
-  const searchTriggers = [
-    'search', 'look up', 'find', 'latest', 'current', 'news', 'today',
-    'weather', 'price', 'stock', 'trending', 'happening now'
-  ];
-  if (searchTriggers.some((trigger) => userMessage.toLowerCase().includes(trigger))) {
-    requiredTools.push('web_search');
-  }
+export function getToolDefinitions(context: ToolContext): ToolDefinition[] {
+  return tools
+    .filter((tool) => !tool.isAvailable || tool.isAvailable())
+    .filter((tool) => !tool.requiresFiles || context.files.length > 0)
+    .map((tool) => ({
+      type: 'function' as const,
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+}
 
-  // File parsing (PDF, DOCX, PPTX, TXT, MD, CSV, XLSX, JSON, images)
-  const supportedFileTypes = [
-    'application/pdf',
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'application/msword',
-    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-    'application/vnd.ms-powerpoint',
-    'text/plain',
-    'text/markdown',
-    'text/csv',
-    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-    'application/vnd.ms-excel',
-    'application/json',
-  ];
-  
-  const supportedExtensions = ['.pdf', '.docx', '.doc', '.pptx', '.ppt', '.txt', '.md', '.csv', '.xlsx', '.xls', '.json'];
-  
-  if (files.some((f) => {
-    const fileName = (f.name || '').toLowerCase();
-    return supportedFileTypes.includes(f.type) || 
-           supportedExtensions.some(ext => fileName.endsWith(ext)) ||
-           f.type?.startsWith('image/');
-  })) {
-    requiredTools.push('parse_file');
-  }
+/**
+ * Structured error returned when tool arguments fail schema validation
+ */
+export interface ToolValidationError {
+  error: string;
+  tool: string;
+  validationErrors: SchemaValidationError[];
+}
 
-  // CSV analysis
-  if (files.some((f) => f.type === 'text/csv') || userMessage.includes('.csv')) {
-    requiredTools.push('analyze_csv');
+/**
+ * Validate arguments against a tool's schema and run it
+ * Entry point for any caller (model tool calls or direct invocation)
+ */
+export async function invokeTool(
+  toolName: string,
+  params: unknown,
+  context: ToolContext
+): Promise<any> {
+  const tool = tools.find((t) => t.name === toolName);
+  if (!tool) {
+    return { error: `Unknown tool: ${toolName}` };
   }
-
-  // Code execution (only if E2B key is available)
-  if ((userMessage.includes('```python') || /run|execute this code|run code/i.test(userMessage)) 
-      && process.env.E2B_API_KEY) {
-    requiredTools.push('code_interpreter');
+  if (tool.isAvailable && !tool.isAvailable()) {
+    return { error: `Tool ${toolName} is not configured on this server` };
   }
 
-  // Webpage fetching
-  const urlRegex = /https?:\/\/[^\s]+/i;
-  if (urlRegex.test(userMessage) && !requiredTools.includes('web_search')) {
-    requiredTools.push('fetch_webpage');
+  const validation = validateJsonSchema(tool.parameters, params ?? {});
+  if (!validation.valid) {
+    const validationError: ToolValidationError = {
+      error: `Invalid arguments for ${toolName}: ${formatSchemaErrors(validation.errors)}`,
+      tool: toolName,
+      validationErrors: validation.errors,
+    };
+    return validationError;
   }
 
-  return requiredTools;
+  try {
+    return await tool.execute(validation.value, context);
+  } catch (error) {
+    return { error: String(error) };
+  }
 }
 
 /**
- * Execute tools and return results
+ * Execute a single tool call requested by the model
+ * Errors are returned as { error } so the model can see and recover from them
  */
-export async function executeTools(
-  toolNames: string[],
-  context: any
-): Promise<Record<string, any>> {
-  const results: Record<string, any> = {};
-
-  for (const toolName of toolNames) {
-    const tool = tools.find((t) => t.name === toolName);
-    if (!tool) continue;
-
-    try {
-      const params = extractToolParams(toolName, context);
-      const result = await tool.execute(params, context);
-      results[toolName] = result;
-    } catch (error) {
-      results[toolName] = { error: String(error) };
-    }
+export async function executeToolCall(
+  call: ToolCall,
+  context: ToolContext
+): Promise<any> {
+  let params: unknown;
+  try {
+    params = call.arguments ? JSON.parse(call.arguments) : {};
+  } catch (error) {
+    return { error: `Invalid JSON arguments for ${call.name}: ${String(error)}` };
   }
 
-  return results;
+  return invokeTool(call.name, params, context);
 }
 
 /**
- * Extract tool parameters from context
+ * Shape a tool result for the model's context (e.g. drop base64 file payloads)
  */
-function extractToolParams(toolName: string, context: any): any {
-  switch (toolName) {
-    case 'web_search':
-      return { query: context.userMessage, num_results: 5 };
-    case 'parse_file':
-      // Find any supported file
-      const supportedFile = context.files?.find((f: any) => {
-        const fileName = (f.name || '').toLowerCase();
-        const supportedTypes = [
-          'application/pdf',
-          'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-          'application/msword',
-          'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-          'application/vnd.ms-powerpoint',
-          'text/plain',
-          'text/markdown',
-          'text/csv',
-          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-          'application/vnd.ms-excel',
-          'application/json',
-        ];
-        const supportedExtensions = ['.pdf', '.docx', '.doc', '.pptx', '.ppt', '.txt', '.md', '.csv', '.xlsx', '.xls', '.json'];
-        return supportedTypes.includes(f.type) || 
-               supportedExtensions.some(ext => fileName.endsWith(ext)) ||
-               f.type?.startsWith('image/');
-      });
-      
-      if (supportedFile?.data) {
-        return { file_data: supportedFile.data, file_type: supportedFile.type };
-      }
-      if (supportedFile?.content) {
-        return { file_data: supportedFile.content, file_type: supportedFile.type };
-      }
-      return { file_path: supportedFile?.path || supportedFile?.url, file_type: supportedFile?.type };
-    case 'parse_pdf':
-      // Legacy support - delegate to parse_file
-      const pdfFile = context.files?.find((f: any) => f.type === 'application/pdf');
-      if (pdfFile?.data) {
-        return { file_data: pdfFile.data, file_type: 'application/pdf' };
-      }
-      if (pdfFile?.content) {
-        return { file_data: pdfFile.content, file_type: 'application/pdf' };
-      }
-      return { file_path: pdfFile?.path || pdfFile?.url, file_type: 'application/pdf' };
-    case 'analyze_csv':
-      const csvFile = context.files?.find((f: any) => f.type === 'text/csv');
-      return { csv_data: csvFile?.content || csvFile?.data };
-    case 'code_interpreter':
-      const codeMatch = context.userMessage.match(/```python\n([\s\S]*?)```/);
-      return { code: codeMatch?.[1] || context.code || '' };
-    case 'fetch_webpage':
-      const urlMatch = context.userMessage.match(/https?:\/\/[^\s]+/);
-      return { url: urlMatch?.[0] || '' };
-    default:
-      return {};
-  }
+export function toModelToolResult(toolName: string, result: any): any {
+  const tool = tools.find((t) => t.name === toolName);
+  return tool?.toModelResult ? tool.toModelResult(result) : result;
 }
-
@@ -0,0 +1,80 @@
+/**
+ * Public URL fetching for tools
+ *
+ * URLs handed to tools come from the model or the request body, so they are
+ * limited to http(s) on public hosts: loopback, private, link-local (cloud
+ * metadata) and other reserved addresses are refused, both for the host name
+ * as resolved and for every redirect hop.
+ */
+
+import { promises as dns } from 'dns';
+import net from 'net';
+
+const MAX_REDIRECTS = 5;
+
+/**
+ * Whether an IPv4 or IPv6 address is loopback, private, link-local or otherwise not public
+ */
+function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split('.').map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224
+    );
+  }
+  const lower = address.toLowerCase();
+  const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  return (
+    lower === '::' ||
+    lower === '::1' ||
+    /^f[cd]/.test(lower) || // Unique local
+    /^fe[89ab]/.test(lower) || // Link-local
+    /^ff/.test(lower) // Multicast
+  );
+}
+
+/**
+ * Throw unless `url` is http(s) and its host resolves only to public addresses
+ */
+export async function assertPublicUrl(url: string): Promise<URL> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid URL: ${url}`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('Only http(s) URLs can be fetched');
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(host) ? [host] : (await dns.lookup(host, { all: true })).map((entry) => entry.address);
+  if (host.toLowerCase() === 'localhost' || addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error(`Refusing to fetch ${parsed.hostname}: not a public host`);
+  }
+  return parsed;
+}
+
+/**
+ * fetch() for a public http(s) URL, checking every redirect target as well
+ */
+export async function fetchPublicUrl(url: string, init: RequestInit = {}): Promise<Response> {
+  let current = url;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    await assertPublicUrl(current);
+    const response = await fetch(current, { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+    current = new URL(location, current).toString();
+  }
+  throw new Error(`Too many redirects fetching ${url}`);
+}
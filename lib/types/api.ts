@@ -18,14 +18,20 @@ export interface FileData {
   name: string;
   data?: string;
   content?: string;
-  path?: string;
-  url?: string;
+  url?: string; // Public http(s) URL, fetched when there is no data
 }
 
 export interface RAGChunk {
   documentName: string;
   text: string;
-  score?: number;
+  source?: string; // Citation label, e.g. "Lecture 5 › Fourier Series › p.12"
+  section?: string[]; // Heading path, outermost first
+  page?: number;
+  score?: number; // Final relevance: rerankScore when reranked, otherwise fusedScore
+  lexicalScore?: number; // BM25
+  vectorScore?: number; // Cosine similarity
+  fusedScore?: number; // Reciprocal rank fusion of the keyword and vector rankings
+  rerankScore?: number; // Reranker relevance (0-1)
 }
 
 export interface ToolResult {
@@ -41,6 +47,8 @@ export interface ChatRequestBody {
   deepWebSearch?: boolean;
   personalInfoContext?: string;
   memoryContext?: string;
+  ragContext?: RAGChunk[]; // Retrieved in the browser (documents live in IndexedDB); reranked by the route
+  budgetOverride?: boolean; // Send even though the monthly budget is exhausted
 }
 
 
@@ -0,0 +1,24 @@
+/**
+ * Client helper for the server-side monthly budget
+ * When a request is refused because the budget is exhausted (HTTP 402 with
+ * `budgetExceeded`), ask the user and resend with an explicit override
+ */
+export async function fetchWithBudgetOverride(
+  url: string,
+  buildInit: (budgetOverride: boolean) => RequestInit
+): Promise<Response> {
+  const response = await fetch(url, buildInit(false));
+  if (response.status !== 402) {
+    return response;
+  }
+
+  try {
+    const error = await response.clone().json();
+    if (error.budgetExceeded && confirm(`${error.error}\n\nSend this request anyway?`)) {
+      return fetch(url, buildInit(true));
+    }
+  } catch {
+    // Not a budget refusal - let the caller handle the response
+  }
+  return response;
+}
@@ -1,3 +1,51 @@
+import type { DocumentChunk } from '@/lib/db';
+
+/**
+ * A parsed document ready for chunking
+ */
+export interface ChunkSource {
+  text: string;
+  format?: 'markdown' | 'text'; // markdown: # headings, | tables | and fenced code
+  pages?: string[]; // PDF text per page, in order (replaces `text`)
+}
+
+/**
+ * A chunk before it is embedded and stored
+ */
+export interface TextChunk {
+  text: string;
+  metadata: {
+    page?: number; // First PDF page of the chunk (1-based)
+    pageEnd?: number; // Last page, when the chunk continues onto later pages
+    section?: string[]; // Heading path, outermost first
+  };
+}
+
+interface Block {
+  kind: 'heading' | 'paragraph' | 'table' | 'code';
+  text: string;
+  level?: number; // Headings: smaller is outer
+  page?: number;
+  continued?: boolean; // Later piece of a split paragraph
+}
+
+// Tables and code are kept whole up to this many times the chunk size
+const MAX_ATOMIC_FACTOR = 2;
+// PDF headings: "Lecture 5", "Chapter 2: Waves", "3 Methods", "1.2 Fourier Series"
+const NAMED_HEADING = /^(chapter|lecture|section|part|unit|module|week)\s+\d+\b/i;
+const NUMBERED_HEADING = /^(\d{1,2}(?:\.\d{1,2}){1,3}\.?|\d{1,2})\s+[A-Z]/; // Not years ("2019 Report")
+const MAX_HEADING_CHARS = 80;
+const MAX_HEADING_WORDS = 10;
+// Words a title-case heading may leave lowercase
+const MINOR_WORDS = new Set(['a', 'an', 'and', 'as', 'at', 'by', 'for', 'from', 'in', 'into', 'of', 'on', 'or', 'the', 'to', 'vs', 'via', 'with']);
+
+/**
+ * Numbering of the last numbered PDF heading, carried across pages
+ */
+interface HeadingState {
+  lastNumber?: number[];
+}
+
 /**
  * Chunk text intelligently with overlap
  * @param text - The text to chunk
@@ -42,3 +90,315 @@ export function chunkText(
   return chunks.filter((chunk) => chunk.length > 0);
 }
 
+/**
+ * Heading text without markdown emphasis, code or link syntax
+ */
+function cleanHeading(text: string): string {
+  return text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`]/g, '')
+    .trim();
+}
+
+/**
+ * Whether every word but minor ones ("of", "the") starts with a capital or a non-letter
+ */
+function isTitleCase(text: string): boolean {
+  return text.split(/\s+/).every((word) => MINOR_WORDS.has(word.toLowerCase()) || !/^[a-z]/.test(word));
+}
+
+/**
+ * Whether `number` follows `last` in an outline: 2 after 1, 1.3 after 1.2,
+ * 2.1 after 2, 3 after 2.4; without a previous heading only 1 or 1.1 start one
+ */
+function continuesNumbering(last: number[] | undefined, number: number[]): boolean {
+  if (!last) return number.every((part) => part === 1);
+  if (number.length === last.length + 1) {
+    return number[number.length - 1] === 1 && last.every((part, i) => part === number[i]);
+  }
+  if (number.length > last.length) return false;
+  const depth = number.length - 1;
+  return number[depth] === last[depth] + 1 && number.slice(0, depth).every((part, i) => part === last[i]);
+}
+
+/**
+ * Level of a numbered or named heading line in a PDF, or null for body text
+ * Named headings ("Lecture 5") sit above numbered ones; "1.2" is below "1".
+ * A numbered line like "3 Students attended the lab" only counts if it is in
+ * title case or continues the numbering of the previous heading
+ */
+function plainHeadingLevel(line: string, state: HeadingState): number | null {
+  if (line.length > MAX_HEADING_CHARS || line.split(/\s+/).length > MAX_HEADING_WORDS) return null;
+  if (/[.,;:!?]$/.test(line)) return null;
+  if (NAMED_HEADING.test(line)) {
+    state.lastNumber = undefined; // Numbering restarts in each lecture or chapter
+    return 0;
+  }
+  const numbered = line.match(NUMBERED_HEADING);
+  if (!numbered) return null;
+  const number = numbered[1].replace(/\.$/, '').split('.').map(Number);
+  if (!isTitleCase(line.slice(numbered[1].length).trim()) && !continuesNumbering(state.lastNumber, number)) return null;
+  state.lastNumber = number;
+  return number.length;
+}
+
+/**
+ * Turn headings with no text under them, before the next heading at the same
+ * or an outer level or the end, into paragraphs so their text is kept
+ * (e.g. "2019 Annual Report" alone at the end of a page)
+ */
+function keepEmptyHeadings(blocks: Block[]): Block[] {
+  return blocks.map((block, i) => {
+    if (block.kind !== 'heading') return block;
+    for (const next of blocks.slice(i + 1)) {
+      if (next.kind !== 'heading') return block;
+      if (next.level! <= block.level!) break;
+    }
+    return { kind: 'paragraph', text: block.text, page: block.page };
+  });
+}
+
+/**
+ * Split text into headings, paragraphs, tables and fenced code
+ */
+function parseBlocks(
+  text: string,
+  headings: 'markdown' | 'numbered' | 'none',
+  page?: number,
+  state: HeadingState = {}
+): Block[] {
+  const blocks: Block[] = [];
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const endParagraph = () => {
+    const body = paragraph.join('\n').trim();
+    if (body) blocks.push({ kind: 'paragraph', text: body, page });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    const fence = trimmed.match(/^(```|~~~)/);
+    if (fence) {
+      endParagraph();
+      const code = [line];
+      while (++i < lines.length) {
+        code.push(lines[i]);
+        if (lines[i].trim().startsWith(fence[1])) break;
+      }
+      blocks.push({ kind: 'code', text: code.join('\n'), page });
+      continue;
+    }
+
+    if (/^\|.*\|$/.test(trimmed)) {
+      endParagraph();
+      const rows = [trimmed];
+      while (i + 1 < lines.length && /^\|.*\|$/.test(lines[i + 1].trim())) rows.push(lines[++i].trim());
+      blocks.push({ kind: 'table', text: rows.join('\n'), page });
+      continue;
+    }
+
+    const markdownHeading = headings === 'markdown' ? trimmed.match(/^(#{1,6})\s+(.+?)\s*#*$/) : null;
+    const plainLevel = headings === 'numbered' && trimmed ? plainHeadingLevel(trimmed, state) : null;
+    if (markdownHeading || plainLevel !== null) {
+      endParagraph();
+      blocks.push({
+        kind: 'heading',
+        text: cleanHeading(markdownHeading ? markdownHeading[2] : trimmed),
+        level: markdownHeading ? markdownHeading[1].length : plainLevel!,
+        page,
+      });
+      continue;
+    }
+
+    if (trimmed === '') {
+      endParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  endParagraph();
+  return blocks;
+}
+
+/**
+ * Split a table or code block too long to keep whole, between rows or lines
+ * Table pieces repeat the header row; code pieces are re-fenced
+ */
+function splitAtomic(block: Block, maxChars: number): Block[] {
+  const lines = block.text.split('\n');
+  let head: string[] = [];
+  let tail: string[] = [];
+  let body = lines;
+  if (block.kind === 'table') {
+    const hasSeparator = /^\|[\s:|-]+\|$/.test(lines[1] || '');
+    head = lines.slice(0, hasSeparator ? 2 : 1);
+    body = lines.slice(head.length);
+  } else {
+    const closed = lines.length > 1 && /^(```|~~~)/.test(lines[lines.length - 1].trim());
+    head = [lines[0]];
+    tail = [closed ? lines[lines.length - 1] : lines[0].trim().slice(0, 3)];
+    body = lines.slice(1, closed ? -1 : undefined);
+  }
+
+  const pieces: Block[] = [];
+  let current: string[] = [];
+  let length = 0;
+  const frame = [...head, ...tail].join('\n').length;
+  for (const line of body) {
+    if (current.length > 0 && frame + length + line.length + 1 > maxChars) {
+      pieces.push({ ...block, text: [...head, ...current, ...tail].join('\n') });
+      current = [];
+      length = 0;
+    }
+    current.push(line);
+    length += line.length + 1;
+  }
+  if (current.length > 0) pieces.push({ ...block, text: [...head, ...current, ...tail].join('\n') });
+  return pieces;
+}
+
+/**
+ * Split a paragraph too long for one chunk into runs of whole sentences
+ * Sentences longer than `maxChars` fall back to `chunkText`
+ */
+function splitParagraph(text: string, maxChars: number): string[] {
+  const sentences = text.match(/[^.!?]+(?:[.!?]+(?=\s|$)|$)\s*/g) || [text];
+  const pieces: string[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    if (sentence.length > maxChars) {
+      if (current.trim()) pieces.push(current.trim());
+      pieces.push(...chunkText(sentence, Math.floor(maxChars / 4), 0));
+      current = '';
+    } else if (current.length + sentence.length > maxChars) {
+      pieces.push(current.trim());
+      current = sentence;
+    } else {
+      current += sentence;
+    }
+  }
+  if (current.trim()) pieces.push(current.trim());
+  return pieces;
+}
+
+/**
+ * End of a paragraph to repeat at the start of the next chunk, from a sentence start
+ */
+function overlapTail(text: string, maxChars: number): string {
+  if (maxChars <= 0) return '';
+  if (text.length <= maxChars) return text;
+  const tail = text.slice(-maxChars);
+  const sentenceEnd = tail.search(/[.!?]\s+\S/);
+  return sentenceEnd >= 0 ? tail.slice(sentenceEnd + 1).trim() : '';
+}
+
+/**
+ * Chunk a document along its structure
+ * - markdown and DOCX split at headings, and every chunk records its heading
+ *   path (`metadata.section`); PDFs use numbered and "Lecture N" headings
+ * - PDF chunks record the page they start on (and end on, if later)
+ * - tables and fenced code are never split unless longer than twice the chunk size,
+ *   then only between rows (repeating the header) or lines
+ * - paragraphs are packed up to the chunk size, with about `overlap` tokens of
+ *   the previous chunk repeated; longer paragraphs are split between sentences
+ * @param chunkSize - Target chunk size in tokens (approximate)
+ * @param overlap - Overlap size in tokens (approximate)
+ */
+export function chunkDocument(source: ChunkSource, chunkSize: number = 500, overlap: number = 100): TextChunk[] {
+  const maxChars = chunkSize * 4;
+  const overlapChars = overlap * 4;
+
+  const headingState: HeadingState = {};
+  const blocks = keepEmptyHeadings(
+    source.pages
+      ? source.pages.flatMap((pageText, index) => parseBlocks(pageText, 'numbered', index + 1, headingState))
+      : parseBlocks(source.text, source.format === 'markdown' ? 'markdown' : 'none')
+  );
+
+  const chunks: TextChunk[] = [];
+  const headingPath: Array<{ text: string; level: number }> = [];
+  let current: Block[] = [];
+  let length = 0;
+
+  const flush = (carryOverlap: boolean) => {
+    if (current.length === 0) return;
+    const pages = current.map((block) => block.page).filter((page): page is number => page !== undefined);
+    const section = headingPath.map((heading) => heading.text);
+    chunks.push({
+      text: current.map((block, i) => (i === 0 ? '' : block.continued ? ' ' : '\n\n') + block.text).join(''),
+      metadata: {
+        ...(pages.length > 0 ? { page: Math.min(...pages) } : {}),
+        ...(pages.length > 0 && Math.max(...pages) > Math.min(...pages) ? { pageEnd: Math.max(...pages) } : {}),
+        ...(section.length > 0 ? { section } : {}),
+      },
+    });
+
+    // Repeat the end of the chunk's prose in the next one (never tables or code)
+    const carried: Block[] = [];
+    let carriedLength = 0;
+    for (let i = current.length - 1; carryOverlap && i >= 0 && current[i].kind === 'paragraph'; i--) {
+      const text = overlapTail(current[i].text, overlapChars - carriedLength);
+      if (!text) break;
+      carried.unshift({ ...current[i], text });
+      carriedLength += text.length;
+      if (text.length < current[i].text.length) break;
+    }
+    current = carried;
+    length = carriedLength;
+  };
+
+  const add = (block: Block) => {
+    if (length > 0 && length + block.text.length + 2 > maxChars) flush(true);
+    // A carried overlap never pushes a table or code block over the limit on its own
+    if (length > 0 && length + block.text.length + 2 > maxChars) {
+      current = [];
+      length = 0;
+    }
+    current.push(block);
+    length += block.text.length + 2;
+  };
+
+  for (const block of blocks) {
+    if (block.kind === 'heading') {
+      flush(false);
+      while (headingPath.length > 0 && headingPath[headingPath.length - 1].level >= block.level!) headingPath.pop();
+      headingPath.push({ text: block.text, level: block.level! });
+    } else if (block.kind === 'paragraph') {
+      // Pieces leave room for the overlap carried into their chunk
+      const pieces = block.text.length > maxChars ? splitParagraph(block.text, maxChars - overlapChars) : [block.text];
+      pieces.forEach((text, i) => add({ ...block, text, continued: i > 0 }));
+    } else {
+      const pieces = block.text.length > maxChars * MAX_ATOMIC_FACTOR ? splitAtomic(block, maxChars) : [block];
+      pieces.forEach(add);
+    }
+  }
+  flush(false);
+
+  return chunks;
+}
+
+/**
+ * Citation label for a chunk, e.g. "Lecture 5 › Fourier Series › p.12"
+ * The document name is left out of the path when the first heading repeats it
+ */
+export function formatChunkSource(documentName: string, metadata?: DocumentChunk['metadata']): string {
+  const title = documentName.replace(/\.[^./]+$/, '');
+  const section = metadata?.section || [];
+  const parts = [title, ...(section[0]?.toLowerCase() === title.toLowerCase() ? section.slice(1) : section)];
+  if (metadata?.page) {
+    parts.push(metadata.pageEnd ? `pp.${metadata.page}-${metadata.pageEnd}` : `p.${metadata.page}`);
+  }
+  return parts.join(' › ');
+}
+
+/**
+ * Text a chunk is embedded and keyword-indexed by: its heading path, then its text
+ */
+export function getChunkSearchText(chunk: Pick<DocumentChunk, 'text' | 'metadata'>): string {
+  const section = chunk.metadata?.section;
+  return section && section.length > 0 ? `${section.join(' › ')}\n\n${chunk.text}` : chunk.text;
+}
@@ -0,0 +1,97 @@
+/**
+ * Citations
+ *
+ * RAG chunks and web search results are numbered in the prompt and the model
+ * cites them inline as [1] or [2, 3]. The numbered sources are streamed to the
+ * client ('sources' event) and stored on the assistant message, so the markers
+ * can be rendered as footnotes and citations of unknown numbers flagged.
+ *
+ * Document chunks are numbered 1..n in prompt order; web results continue
+ * after them in the order the searches ran.
+ */
+
+export interface CitationSource {
+  id: number; // The number the model cites
+  kind: 'document' | 'web';
+  title: string; // Breadcrumb for chunks, page title for web results
+  text: string; // Chunk text or result snippet
+  documentName?: string;
+  page?: number;
+  url?: string;
+}
+
+/**
+ * A piece of message text, either plain or a citation marker
+ */
+export type CitationPart = string | { ids: number[] };
+
+export const CITATION_INSTRUCTIONS =
+  'Sources are numbered. When you use one, cite its number in square brackets right after the claim, e.g. [1] or [2, 3]. Only cite numbers of sources you were given and never make up a citation.';
+
+// [1], [2, 3] or [1][2]; not indexing (arr[0]) or links ([1](url))
+const CITATION_PATTERN = /(?<!\w)\[(\d{1,3}(?:\s*,\s*\d{1,3})*)\](?!\()/g;
+
+/**
+ * Prompt heading of a numbered RAG chunk, e.g. "[1] Lecture 5 › Fourier Series › p.12"
+ */
+export function formatSourceHeading(chunk: { source?: string; documentName?: string }, index: number): string {
+  return `[${index + 1}] ${chunk.source || chunk.documentName || 'Document'}`;
+}
+
+/**
+ * Citable sources for the RAG chunks of a prompt
+ */
+export function getDocumentSources(
+  ragContext: Array<{ documentName: string; text: string; source?: string; page?: number }>
+): CitationSource[] {
+  return ragContext.map((chunk, index) => ({
+    id: index + 1,
+    kind: 'document',
+    title: chunk.source || chunk.documentName,
+    text: chunk.text,
+    documentName: chunk.documentName,
+    page: chunk.page,
+  }));
+}
+
+/**
+ * Number web search results after the existing sources
+ * @returns The result with an `id` on each entry, for the model, and the new sources
+ */
+export function numberWebResults(result: any, sources: CitationSource[]): { result: any; added: CitationSource[] } {
+  if (!Array.isArray(result?.results) || result.results.length === 0) {
+    return { result, added: [] };
+  }
+
+  let nextId = sources.reduce((max, source) => Math.max(max, source.id), 0) + 1;
+  const added: CitationSource[] = [];
+  const results = result.results.map((entry: any) => {
+    const id = nextId++;
+    added.push({
+      id,
+      kind: 'web',
+      title: entry.title || entry.url,
+      text: entry.description || '',
+      url: entry.url,
+    });
+    return { id, ...entry };
+  });
+
+  return { result: { ...result, results, citation: CITATION_INSTRUCTIONS }, added };
+}
+
+/**
+ * Split text into plain runs and citation markers
+ */
+export function splitCitations(text: string): CitationPart[] {
+  const parts: CitationPart[] = [];
+  let last = 0;
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) parts.push(text.slice(last, index));
+    parts.push({ ids: match[1].split(',').map((id) => parseInt(id, 10)) });
+    last = index + match[0].length;
+  }
+  if (last < text.length) parts.push(text.slice(last));
+  return parts;
+}
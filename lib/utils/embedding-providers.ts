@@ -0,0 +1,159 @@
+/**
+ * Embedding Providers
+ *
+ * Server-side backends that turn text into vectors for RAG and the embedding
+ * classifier. Pick one with EMBEDDING_PROVIDER:
+ * - openai: OpenAI's API (OPENAI_API_KEY; OPENAI_EMBEDDING_MODEL, default
+ *   text-embedding-3-small)
+ * - compatible: any OpenAI-compatible /embeddings endpoint, e.g. OpenRouter,
+ *   Ollama or text-embeddings-inference (EMBEDDING_BASE_URL, EMBEDDING_MODEL;
+ *   EMBEDDING_API_KEY if the endpoint needs one)
+ * - local: a small ONNX model run on the CPU with transformers.js
+ *   (LOCAL_EMBEDDING_MODEL, default Xenova/all-MiniLM-L6-v2). The weights are
+ *   downloaded from Hugging Face on first use and cached in .data/models
+ *   (LOCAL_EMBEDDING_CACHE_DIR)
+ *
+ * Without EMBEDDING_PROVIDER, OpenAI is used when OPENAI_API_KEY is set and the
+ * local model otherwise, so RAG works without any key.
+ *
+ * Vectors from different models can't be compared, so every provider names its
+ * model as `<provider>/<model>` and chunks store the name with their embedding.
+ */
+
+import path from 'path';
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+
+export type EmbeddingProviderName = 'openai' | 'compatible' | 'local';
+
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  model: string; // `<provider>/<model>`, stored on chunks
+  isAvailable(): boolean;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_OPENAI_MODEL = 'text-embedding-3-small';
+const DEFAULT_LOCAL_MODEL = 'Xenova/all-MiniLM-L6-v2';
+const LOCAL_BATCH_SIZE = 32; // Texts per forward pass, bounds memory on long documents
+const LOCAL_RETRY_MS = 5 * 60 * 1000; // A failed model load (e.g. offline) isn't retried sooner
+
+/**
+ * Call an OpenAI-compatible /embeddings endpoint
+ * Rejected credentials disable embeddings (empty vectors) instead of failing the caller
+ */
+async function requestEmbeddings(baseUrl: string, apiKey: string | undefined, model: string, texts: string[]): Promise<number[][]> {
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/embeddings`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify({ model, input: texts }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    if (response.status === 401 || response.status === 403) {
+      console.warn(`[Embeddings] ${baseUrl} rejected the API key - embeddings disabled`);
+      return texts.map(() => []);
+    }
+    throw new Error(`Embeddings API error: ${response.statusText} - ${error}`);
+  }
+
+  const data = await response.json();
+  // Entries carry their input position; some endpoints don't keep the order
+  return (data.data as Array<{ index?: number; embedding: number[] }>)
+    .map((item, i) => ({ index: item.index ?? i, embedding: item.embedding }))
+    .sort((a, b) => a.index - b.index)
+    .map((item) => item.embedding);
+}
+
+function createOpenAIProvider(): EmbeddingProvider {
+  const model = process.env.OPENAI_EMBEDDING_MODEL || DEFAULT_OPENAI_MODEL;
+  return {
+    name: 'openai',
+    model: `openai/${model}`,
+    isAvailable: () => !!process.env.OPENAI_API_KEY,
+    embed: (texts) => requestEmbeddings(OPENAI_BASE_URL, process.env.OPENAI_API_KEY, model, texts),
+  };
+}
+
+function createCompatibleProvider(): EmbeddingProvider {
+  const model = process.env.EMBEDDING_MODEL || '';
+  return {
+    name: 'compatible',
+    model: `compatible/${model}`,
+    isAvailable: () => !!process.env.EMBEDDING_BASE_URL && !!model,
+    embed: (texts) => requestEmbeddings(process.env.EMBEDDING_BASE_URL!, process.env.EMBEDDING_API_KEY, model, texts),
+  };
+}
+
+// Loaded once per process; a failed load is remembered for LOCAL_RETRY_MS so
+// requests fail fast instead of each downloading and loading the model again
+let localPipeline: Promise<FeatureExtractionPipeline> | null = null;
+let localFailure: { error: unknown; at: number } | null = null;
+
+function loadLocalPipeline(model: string): Promise<FeatureExtractionPipeline> {
+  if (!localPipeline && localFailure && Date.now() - localFailure.at < LOCAL_RETRY_MS) {
+    return Promise.reject(localFailure.error);
+  }
+  if (!localPipeline) {
+    localFailure = null;
+    localPipeline = (async () => {
+      const { pipeline, env } = await import('@huggingface/transformers');
+      env.cacheDir = process.env.LOCAL_EMBEDDING_CACHE_DIR || path.join(process.cwd(), '.data', 'models');
+      // pipeline()'s full overloads are too complex for the type checker
+      const createPipeline = pipeline as unknown as (
+        task: 'feature-extraction',
+        model: string,
+        options: { dtype: 'q8' }
+      ) => Promise<FeatureExtractionPipeline>;
+      return createPipeline('feature-extraction', model, { dtype: 'q8' });
+    })();
+    localPipeline.catch((error) => {
+      localPipeline = null;
+      localFailure = { error, at: Date.now() };
+      console.warn(`[Embeddings] Loading ${model} failed, retrying in ${LOCAL_RETRY_MS / 60000} min: ${error?.message || error}`);
+    });
+  }
+  return localPipeline;
+}
+
+function createLocalProvider(): EmbeddingProvider {
+  const model = process.env.LOCAL_EMBEDDING_MODEL || DEFAULT_LOCAL_MODEL;
+  return {
+    name: 'local',
+    model: `local/${model}`,
+    isAvailable: () => true,
+    embed: async (texts) => {
+      const extractor = await loadLocalPipeline(model);
+      const embeddings: number[][] = [];
+      for (let i = 0; i < texts.length; i += LOCAL_BATCH_SIZE) {
+        const output = await extractor(texts.slice(i, i + LOCAL_BATCH_SIZE), { pooling: 'mean', normalize: true });
+        embeddings.push(...(output.tolist() as number[][]));
+      }
+      return embeddings;
+    },
+  };
+}
+
+const factories: Record<EmbeddingProviderName, () => EmbeddingProvider> = {
+  openai: createOpenAIProvider,
+  compatible: createCompatibleProvider,
+  local: createLocalProvider,
+};
+
+/**
+ * The configured embedding provider (EMBEDDING_PROVIDER, else OpenAI with a key, else local)
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const configured = process.env.EMBEDDING_PROVIDER?.trim();
+  if (configured && configured in factories) {
+    return factories[configured as EmbeddingProviderName]();
+  }
+  if (configured) {
+    console.warn(`[Embeddings] Unknown EMBEDDING_PROVIDER "${configured}", expected openai, compatible or local`);
+  }
+  return process.env.OPENAI_API_KEY ? createOpenAIProvider() : createLocalProvider();
+}
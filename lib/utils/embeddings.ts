@@ -1,54 +1,45 @@
 /**
- * Generate embeddings using OpenAI API
- * NOTE: Client-side embeddings (@xenova/transformers) removed due to webpack bundling issues
- * OpenAI API is required for embeddings (set OPENAI_API_KEY in .env.local)
+ * Generate embeddings with the configured embedding provider
+ * (lib/utils/embedding-providers.ts: OpenAI, an OpenAI-compatible endpoint, or
+ * a local CPU model when no key is set)
+ * - Server-side: calls the provider directly
+ * - Client-side: calls our /api/embeddings endpoint (keeps API keys and model weights on the server)
  */
 
 /**
- * Generate embeddings using OpenAI API
- * - Server-side: Calls OpenAI API directly (faster, no extra HTTP hop)
- * - Client-side: Calls our /api/embeddings endpoint (keeps API key secure)
+ * Embeddings of a batch of texts and the model that produced them
  */
-async function generateOpenAIEmbeddings(texts: string[]): Promise<number[][]> {
+export interface EmbeddingBatch {
+  embeddings: number[][];
+  model: string; // `<provider>/<model>`, '' when embeddings are disabled
+  dimension: number; // 0 when embeddings are disabled
+}
+
+function toBatch(embeddings: number[][], model: string): EmbeddingBatch {
+  const dimension = embeddings.find((embedding) => embedding.length > 0)?.length ?? 0;
+  return { embeddings, model: dimension > 0 ? model : '', dimension };
+}
+
+/**
+ * Embed texts, labelled with the model that produced the vectors
+ */
+export async function embedTexts(texts: string[]): Promise<EmbeddingBatch> {
   // Check if we're on the server (Node.js) or client (browser)
   const isServer = typeof window === 'undefined';
 
   if (isServer) {
-    // Server-side: Call OpenAI API directly
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
+    const { getEmbeddingProvider } = await import('./embedding-providers');
+    const provider = getEmbeddingProvider();
+    if (!provider.isAvailable()) {
       // RAG is optional - gracefully return empty embeddings instead of throwing
-      console.warn('OPENAI_API_KEY not set - embeddings disabled. RAG features will not work.');
-      return texts.map(() => []); // Return empty embeddings
+      console.warn(`[Embeddings] The ${provider.name} embedding provider is not configured - embeddings disabled`);
+      return toBatch(texts.map(() => []), provider.model);
     }
 
     try {
-      const response = await fetch('https://api.openai.com/v1/embeddings', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          model: 'text-embedding-3-small',
-          input: texts,
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        // If authentication error, return empty embeddings instead of throwing
-        if (response.status === 401 || response.status === 403) {
-          console.warn('OpenAI API authentication failed - embeddings disabled');
-          return texts.map(() => []);
-        }
-        throw new Error(`OpenAI API error: ${response.statusText} - ${error}`);
-      }
-
-      const data = await response.json();
-      return data.data.map((item: any) => item.embedding);
+      return toBatch(await provider.embed(texts), provider.model);
     } catch (error) {
-      console.error('OpenAI embedding error (server-side):', error);
+      console.error(`Embedding error (${provider.model}):`, error);
       throw error;
     }
   } else {
@@ -68,22 +59,34 @@ async function generateOpenAIEmbeddings(texts: string[]): Promise<number[][]> {
       }
 
       const data = await response.json();
-      return data.embeddings;
+      return toBatch(data.embeddings, data.model);
     } catch (error) {
-      console.error('OpenAI embedding error (client-side):', error);
+      console.error('Embedding error (client-side):', error);
       throw error;
     }
   }
 }
 
+/**
+ * Model new embeddings are produced with (`<provider>/<model>`)
+ */
+export async function getActiveEmbeddingModel(): Promise<string> {
+  if (typeof window === 'undefined') {
+    const { getEmbeddingProvider } = await import('./embedding-providers');
+    return getEmbeddingProvider().model;
+  }
+
+  const response = await fetch('/api/embeddings');
+  if (!response.ok) throw new Error(`API error: ${response.statusText}`);
+  const data = await response.json();
+  return data.model;
+}
 
 /**
- * Generate embeddings for texts using OpenAI API
- * OpenAI API key is required (set OPENAI_API_KEY in .env.local)
+ * Generate embeddings for texts
  */
 export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
-  // Use OpenAI API (required - no fallback)
-  return await generateOpenAIEmbeddings(texts);
+  return (await embedTexts(texts)).embeddings;
 }
 
 /**
@@ -93,4 +96,3 @@ export async function generateEmbedding(text: string): Promise<number[]> {
   const embeddings = await generateEmbeddings([text]);
   return embeddings[0];
 }
-
@@ -0,0 +1,157 @@
+/**
+ * Minimal JSON Schema support
+ * Covers the subset used by tool parameters and structured outputs:
+ * type, properties, required, additionalProperties, items, enum, default,
+ * minimum/maximum, minLength/maxLength, pattern and minItems/maxItems
+ */
+
+export type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JSONSchema;
+  enum?: Array<string | number | boolean | null>;
+  default?: any;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string; // Regular expression the string must match (unanchored)
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface SchemaValidationError {
+  path: string; // e.g. "num_results" or "items[2].name"; empty for the root
+  message: string;
+}
+
+export interface SchemaValidationResult<T = any> {
+  valid: boolean;
+  errors: SchemaValidationError[];
+  value: T; // Input with defaults applied
+}
+
+function typeOf(value: any): JSONSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JSONSchemaType;
+}
+
+function matchesType(value: any, type: JSONSchemaType): boolean {
+  const actual = typeOf(value);
+  // Every integer is also a number
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function validateNode(
+  schema: JSONSchema,
+  value: any,
+  path: string,
+  errors: SchemaValidationError[]
+): any {
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push({ path, message: `expected ${types.join(' | ')}, got ${typeOf(value)}` });
+      return value;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({ path, message: `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ path, message: `must match /${schema.pattern}/` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path, message: `must have at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ path, message: `must have at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      return value.map((item, i) => validateNode(schema.items!, item, joinPath(path, i), errors));
+    }
+    return value;
+  }
+
+  if (typeOf(value) === 'object' && (schema.properties || schema.required)) {
+    const result: Record<string, any> = { ...value };
+    const properties = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (result[key] === undefined && properties[key]?.default === undefined) {
+        errors.push({ path: joinPath(path, key), message: 'is required' });
+      }
+    }
+
+    for (const [key, propertySchema] of Object.entries(properties)) {
+      if (result[key] === undefined) {
+        if (propertySchema.default !== undefined) {
+          result[key] = propertySchema.default;
+        }
+        continue;
+      }
+      result[key] = validateNode(propertySchema, result[key], joinPath(path, key), errors);
+    }
+
+    if (schema.additionalProperties === false) {
+      for (const key of Object.keys(result)) {
+        if (!(key in properties)) {
+          errors.push({ path: joinPath(path, key), message: 'is not an allowed property' });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Validate a value against a schema, applying defaults for missing properties
+ */
+export function validateJsonSchema<T = any>(schema: JSONSchema, value: any): SchemaValidationResult<T> {
+  const errors: SchemaValidationError[] = [];
+  const result = validateNode(schema, value, '', errors);
+  return { valid: errors.length === 0, errors, value: result };
+}
+
+/**
+ * Format validation errors as a single readable line
+ */
+export function formatSchemaErrors(errors: SchemaValidationError[]): string {
+  return errors.map((e) => (e.path ? `${e.path} ${e.message}` : e.message)).join('; ');
+}
@@ -0,0 +1,193 @@
+/**
+ * Lexical Index
+ *
+ * BM25 over DocumentChunk.text, so exact matches on identifiers, course codes
+ * and formula names are found even when their embeddings aren't close. An
+ * inverted index persisted in IndexedDB (db.lexicalIndex postings, one row per
+ * term and chunk; db.lexicalIndexDocs and db.lexicalIndexMeta for lengths):
+ * - terms are lowercased words and numbers without accents or stopwords; no
+ *   stemming, so names and codes only match as written
+ * - identifiers like "MATH-201", "CS101" or "v2.1" are indexed whole and as
+ *   their parts, so "CS 101" and "cs-101" still match "CS101"
+ * - a chunk's heading path is indexed with its text, so section titles match
+ * - chunks are added as documents are uploaded and removed with their document
+ *
+ * Chunks stored before the index existed are indexed on the first search.
+ */
+
+import { db, DocumentChunk, LexicalIndexDoc, LexicalPosting } from '@/lib/db';
+import { getChunkSearchText } from './chunking';
+
+export interface LexicalMatch {
+  chunkId: number;
+  score: number; // BM25
+  rare: boolean; // Matched a term found in few chunks (RARE_TERM_RATIO), e.g. a course code
+}
+
+const META_ID = 'bm25';
+const K1 = 1.2; // Term frequency saturation
+const B = 0.75; // Length normalization
+const RARE_TERM_RATIO = 0.05; // At most this share of chunks contain a rare term (at least one chunk)
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'how', 'i', 'if',
+  'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their', 'then',
+  'there', 'these', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'which', 'who', 'why', 'will', 'with',
+  'you', 'your',
+]);
+
+// Index writes run one at a time, so the corpus statistics stay consistent
+let writes: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const result = writes.then(task);
+  writes = result.catch(() => {});
+  return result;
+}
+
+function isTerm(part: string): boolean {
+  return !STOPWORDS.has(part) && (part.length > 1 || /\d/.test(part));
+}
+
+/**
+ * Index terms of a text, in order
+ */
+export function tokenize(text: string): string[] {
+  const words = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .match(/[a-z0-9]+(?:[._/-][a-z0-9]+)*/g) || [];
+
+  const terms: string[] = [];
+  for (const word of words) {
+    const parts = word.match(/[a-z]+|[0-9]+/g) || [];
+    if (parts.length > 1) terms.push(word);
+    terms.push(...parts.filter(isTerm));
+  }
+  return terms;
+}
+
+/**
+ * Remove chunks' postings and take them out of the corpus statistics
+ */
+async function removeEntries(docs: LexicalIndexDoc[]): Promise<void> {
+  if (docs.length === 0) return;
+  const chunkIds = docs.map((doc) => doc.chunkId);
+  await db.lexicalIndex.where('chunkId').anyOf(chunkIds).delete();
+  await db.lexicalIndexDocs.bulkDelete(chunkIds);
+
+  const meta = await db.lexicalIndexMeta.get(META_ID);
+  if (meta) {
+    await db.lexicalIndexMeta.put({
+      id: META_ID,
+      chunks: Math.max(0, meta.chunks - docs.length),
+      totalLength: Math.max(0, meta.totalLength - docs.reduce((sum, doc) => sum + doc.length, 0)),
+    });
+  }
+}
+
+async function indexChunks(chunks: DocumentChunk[]): Promise<void> {
+  const docs: LexicalIndexDoc[] = [];
+  const postings: LexicalPosting[] = [];
+  for (const chunk of chunks) {
+    const terms = tokenize(getChunkSearchText({ ...chunk, text: chunk.text || '' }));
+    const counts = new Map<string, number>();
+    terms.forEach((term) => counts.set(term, (counts.get(term) || 0) + 1));
+
+    docs.push({ chunkId: chunk.id!, documentId: chunk.documentId, length: terms.length });
+    counts.forEach((tf, term) => {
+      postings.push({ term, chunkId: chunk.id!, documentId: chunk.documentId, tf, length: terms.length });
+    });
+  }
+
+  await db.transaction('rw', db.lexicalIndex, db.lexicalIndexDocs, db.lexicalIndexMeta, async () => {
+    // Re-indexing a chunk replaces its postings
+    const existing = await db.lexicalIndexDocs.bulkGet(docs.map((doc) => doc.chunkId));
+    await removeEntries(existing.filter((doc): doc is LexicalIndexDoc => !!doc));
+
+    await db.lexicalIndex.bulkPut(postings);
+    await db.lexicalIndexDocs.bulkPut(docs);
+    const meta = await db.lexicalIndexMeta.get(META_ID);
+    await db.lexicalIndexMeta.put({
+      id: META_ID,
+      chunks: (meta?.chunks || 0) + docs.length,
+      totalLength: (meta?.totalLength || 0) + docs.reduce((sum, doc) => sum + doc.length, 0),
+    });
+  });
+}
+
+/**
+ * Add stored chunks (with their db.chunks ids) to the index
+ */
+export function addChunksToLexicalIndex(chunks: DocumentChunk[]): Promise<void> {
+  return serialized(() => indexChunks(chunks.filter((chunk) => chunk.id !== undefined)));
+}
+
+/**
+ * Remove a document's chunks from the index
+ */
+export function removeDocumentFromLexicalIndex(documentId: string): Promise<void> {
+  return serialized(() =>
+    db.transaction('rw', db.lexicalIndex, db.lexicalIndexDocs, db.lexicalIndexMeta, async () => {
+      await removeEntries(await db.lexicalIndexDocs.where('documentId').equals(documentId).toArray());
+    })
+  );
+}
+
+/**
+ * Index chunks the index is missing and drop entries whose chunk is gone
+ */
+function syncIndex(): Promise<void> {
+  return serialized(async () => {
+    const [chunkCount, docCount] = await Promise.all([db.chunks.count(), db.lexicalIndexDocs.count()]);
+    if (chunkCount === docCount) return;
+
+    const chunkIds = (await db.chunks.toCollection().primaryKeys()) as number[];
+    const stored = new Set(chunkIds);
+    const docs = await db.lexicalIndexDocs.toArray();
+    const indexed = new Set(docs.map((doc) => doc.chunkId));
+
+    await db.transaction('rw', db.lexicalIndex, db.lexicalIndexDocs, db.lexicalIndexMeta, async () => {
+      await removeEntries(docs.filter((doc) => !stored.has(doc.chunkId)));
+    });
+
+    const missing = chunkIds.filter((id) => !indexed.has(id));
+    const chunks = (await db.chunks.bulkGet(missing)).filter((chunk): chunk is DocumentChunk => !!chunk);
+    if (chunks.length > 0) await indexChunks(chunks);
+  });
+}
+
+/**
+ * Top-k chunks by BM25 score for a query, best first
+ * Only chunks containing at least one query term are returned
+ */
+export async function searchLexicalIndex(query: string, k: number): Promise<LexicalMatch[]> {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0) return [];
+
+  await syncIndex();
+  const meta = await db.lexicalIndexMeta.get(META_ID);
+  if (!meta || meta.chunks === 0) return [];
+  const averageLength = meta.totalLength / meta.chunks || 1;
+
+  const postings = await db.lexicalIndex.where('term').anyOf(terms).toArray();
+  const documentFrequency = new Map<string, number>();
+  postings.forEach((posting) => documentFrequency.set(posting.term, (documentFrequency.get(posting.term) || 0) + 1));
+
+  const maxRareFrequency = Math.max(1, Math.floor(meta.chunks * RARE_TERM_RATIO));
+  const matches = new Map<number, LexicalMatch>();
+  for (const posting of postings) {
+    const df = documentFrequency.get(posting.term)!;
+    const idf = Math.log(1 + (meta.chunks - df + 0.5) / (df + 0.5));
+    const tf = (posting.tf * (K1 + 1)) / (posting.tf + K1 * (1 - B + (B * posting.length) / averageLength));
+    const match = matches.get(posting.chunkId) || { chunkId: posting.chunkId, score: 0, rare: false };
+    match.score += idf * tf;
+    match.rare ||= df <= maxRareFrequency;
+    matches.set(posting.chunkId, match);
+  }
+
+  return Array.from(matches.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k);
+}
@@ -2,9 +2,13 @@
  * File parsing utilities - supports multiple formats
  */
 
+import type { TextChunk } from './chunking';
+
 export interface ParsedFile {
   text: string;
+  format?: 'markdown' | 'text';
   pages?: number;
+  pageTexts?: string[];
   info?: any;
   metadata?: any;
   isImage?: boolean;
@@ -49,7 +53,14 @@ export async function parsePDF(file: File): Promise<string> {
 export async function processFile(
   file: File,
   documentId: string
-): Promise<{ chunks: string[]; embeddings: number[][]; isImage?: boolean; imageData?: string }> {
+): Promise<{
+  chunks: TextChunk[];
+  embeddings: number[][];
+  embeddingModel?: string;
+  embeddingDimension?: number;
+  isImage?: boolean;
+  imageData?: string;
+}> {
   // Parse file
   const parsed = await parseFile(file);
 
@@ -63,15 +74,15 @@ export async function processFile(
     };
   }
 
-  // Chunk text
-  const { chunkText } = await import('./chunking');
-  const chunks = chunkText(parsed.text, 500, 100);
+  // Chunk along headings, pages, tables and code
+  const { chunkDocument, getChunkSearchText } = await import('./chunking');
+  const chunks = chunkDocument({ text: parsed.text, format: parsed.format, pages: parsed.pageTexts }, 500, 100);
 
-  // Generate embeddings
-  const { generateEmbeddings } = await import('./embeddings');
-  const embeddings = await generateEmbeddings(chunks);
+  // Generate embeddings (with each chunk's heading path)
+  const { embedTexts } = await import('./embeddings');
+  const { embeddings, model, dimension } = await embedTexts(chunks.map(getChunkSearchText));
 
-  return { chunks, embeddings };
+  return { chunks, embeddings, embeddingModel: model || undefined, embeddingDimension: dimension || undefined };
 }
 
 /**
@@ -83,7 +94,7 @@ export async function processPDF(
 ): Promise<{ chunks: string[]; embeddings: number[][] }> {
   const result = await processFile(file, documentId);
   return {
-    chunks: result.chunks,
+    chunks: result.chunks.map((chunk) => chunk.text),
     embeddings: result.embeddings,
   };
 }
@@ -0,0 +1,83 @@
+/**
+ * Re-embedding
+ *
+ * Chunks only match queries embedded with the same model. After the embedding
+ * provider or model changes (or for chunks stored while embeddings were
+ * unavailable), the library is mixed: older chunks are only found by keyword
+ * search until they are re-embedded with the active model.
+ */
+
+import { db, DocumentChunk } from '@/lib/db';
+import { embedTexts, getActiveEmbeddingModel } from './embeddings';
+import { addChunksToVectorIndex } from './vector-index';
+import { getChunkSearchText } from './chunking';
+
+export interface EmbeddingStatus {
+  model: string; // Active embedding model
+  total: number;
+  stale: number; // Chunks without an embedding from the active model
+  models: Record<string, number>; // Chunks per embedding model ('' for none)
+}
+
+const BATCH_SIZE = 64;
+
+async function getStaleChunkIds(model: string): Promise<number[]> {
+  const current = new Set((await db.chunks.where('embeddingModel').equals(model).primaryKeys()) as number[]);
+  const all = (await db.chunks.toCollection().primaryKeys()) as number[];
+  return all.filter((id) => !current.has(id));
+}
+
+/**
+ * Which embedding models the stored chunks come from
+ */
+export async function getEmbeddingStatus(): Promise<EmbeddingStatus> {
+  const model = await getActiveEmbeddingModel();
+  const total = await db.chunks.count();
+
+  const models: Record<string, number> = {};
+  const labelled = (await db.chunks.orderBy('embeddingModel').uniqueKeys()) as string[];
+  for (const name of labelled) {
+    models[name] = await db.chunks.where('embeddingModel').equals(name).count();
+  }
+  const unlabelled = total - Object.values(models).reduce((sum, count) => sum + count, 0);
+  if (unlabelled > 0) models[''] = unlabelled;
+
+  return { model, total, stale: total - (models[model] || 0), models };
+}
+
+/**
+ * Re-embed every chunk that isn't embedded with the active model
+ * @returns Number of chunks re-embedded
+ */
+export async function reembedChunks(onProgress?: (done: number, total: number) => void): Promise<number> {
+  const model = await getActiveEmbeddingModel();
+  const ids = await getStaleChunkIds(model);
+  onProgress?.(0, ids.length);
+
+  let done = 0;
+  for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+    const chunks = (await db.chunks.bulkGet(ids.slice(i, i + BATCH_SIZE))).filter(
+      (chunk): chunk is DocumentChunk => !!chunk
+    );
+    const batch = await embedTexts(chunks.map(getChunkSearchText));
+    if (batch.model !== model) {
+      throw new Error(
+        batch.model ? `Embedding model changed to ${batch.model} while re-embedding` : 'Embeddings are unavailable'
+      );
+    }
+
+    const updated = chunks.map((chunk, index) => ({
+      ...chunk,
+      embedding: batch.embeddings[index],
+      embeddingModel: batch.model,
+      embeddingDimension: batch.dimension,
+    }));
+    await db.chunks.bulkPut(updated);
+    // An index of the old model is rebuilt on the next search instead
+    await addChunksToVectorIndex(updated);
+
+    done += chunks.length;
+    onProgress?.(done, ids.length);
+  }
+  return done;
+}
@@ -1,13 +1,36 @@
 import { db, DocumentChunk } from '@/lib/db';
-import { generateEmbedding } from './embeddings';
+import { embedTexts } from './embeddings';
+import {
+  searchVectorIndex,
+  addChunksToVectorIndex,
+  removeDocumentFromVectorIndex,
+  VectorSearchOptions,
+} from './vector-index';
+import { searchLexicalIndex, addChunksToLexicalIndex, removeDocumentFromLexicalIndex } from './lexical-index';
+import { formatChunkSource } from './chunking';
+import type { RAGChunk } from '@/lib/types/api';
+
+/**
+ * A retrieved chunk with the scores behind its rank
+ */
+export interface ScoredChunk extends DocumentChunk {
+  lexicalScore: number; // BM25, 0 when no query term matched
+  vectorScore: number; // Cosine similarity, 0 without embeddings
+  fusedScore: number; // Reciprocal rank fusion of both rankings
+}
+
+// Reciprocal rank fusion constant; larger values flatten the gap between ranks
+const RRF_K = 60;
+// Each ranking contributes this many times the requested chunks to the fusion
+const CANDIDATE_FACTOR = 4;
+// Keyword matches without a comparable embedding need this share of the best BM25 score
+const MIN_KEYWORD_SCORE_RATIO = 0.5;
 
 /**
  * Calculate cosine similarity between two vectors
  */
 function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) {
-    throw new Error('Vectors must have the same length');
-  }
+  if (a.length !== b.length || a.length === 0) return 0;
 
   let dotProduct = 0;
   let normA = 0;
@@ -19,51 +42,117 @@ function cosineSimilarity(a: number[], b: number[]): number {
     normB += b[i] * b[i];
   }
 
-  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB) || 1);
+}
+
+/**
+ * Add stored chunks (with their db.chunks ids) to the lexical and vector indexes
+ */
+export async function indexChunks(chunks: DocumentChunk[]): Promise<void> {
+  await Promise.all([addChunksToLexicalIndex(chunks), addChunksToVectorIndex(chunks)]);
+}
+
+/**
+ * Remove a document's chunks from the lexical and vector indexes
+ */
+export async function removeDocumentFromIndexes(documentId: string): Promise<void> {
+  await Promise.all([removeDocumentFromLexicalIndex(documentId), removeDocumentFromVectorIndex(documentId)]);
 }
 
 /**
- * Search for relevant document chunks using semantic search
+ * Search for relevant document chunks using hybrid search: BM25 keyword
+ * matches and embedding similarity, fused with reciprocal rank fusion
  * @param query - The search query
  * @param limit - Maximum number of results to return
- * @param threshold - Minimum similarity threshold (0-1)
+ * @param threshold - Minimum similarity (0-1), waived for chunks matching a rare query term
+ *   (see lexical-index.ts); chunks that can't be compared by embedding need a strong BM25 score instead
+ * @param options - Vector index recall/latency settings (lists to probe)
  */
 export async function searchRelevantChunks(
   query: string,
   limit: number = 5,
-  threshold: number = 0.5
-): Promise<DocumentChunk[]> {
+  threshold: number = 0.5,
+  options: VectorSearchOptions = {}
+): Promise<ScoredChunk[]> {
   try {
+    const candidates = limit * CANDIDATE_FACTOR;
+
+    // Nothing uploaded: don't pay for (or load a local model for) a query embedding
+    if ((await db.chunks.count()) === 0) return [];
+
     // Generate embedding for the query
-    const queryEmbedding = await generateEmbedding(query);
+    const { embeddings: [queryEmbedding], model } = await embedTexts([query]);
 
-    // If embedding is empty (OpenAI key missing), return empty results
-    if (!queryEmbedding || queryEmbedding.length === 0) {
-      console.warn('RAG search disabled: OPENAI_API_KEY not configured');
-      return [];
+    // Without embeddings (no embedding provider configured) only keyword search runs
+    const hasEmbedding = !!queryEmbedding && queryEmbedding.length > 0;
+    if (!hasEmbedding) {
+      console.warn('Semantic search disabled: no embedding provider available, using keyword search only');
     }
 
-    // Get all chunks from database
-    const allChunks = await db.chunks.toArray();
+    const [lexical, vector] = await Promise.all([
+      searchLexicalIndex(query, candidates),
+      hasEmbedding ? searchVectorIndex(queryEmbedding, model, candidates, options) : Promise.resolve([]),
+    ]);
 
-    if (allChunks.length === 0) {
-      return [];
-    }
+    const results = new Map<number, {
+      chunk?: DocumentChunk;
+      lexicalScore: number;
+      rare: boolean;
+      vectorScore?: number;
+      comparable: boolean; // Has an embedding from the query's model
+      fusedScore: number;
+    }>();
+    const resultFor = (chunkId: number) => {
+      let result = results.get(chunkId);
+      if (!result) {
+        result = { lexicalScore: 0, rare: false, comparable: false, fusedScore: 0 };
+        results.set(chunkId, result);
+      }
+      return result;
+    };
+    lexical.forEach((match, rank) => {
+      const result = resultFor(match.chunkId);
+      result.lexicalScore = match.score;
+      result.rare = match.rare;
+      result.fusedScore += 1 / (RRF_K + rank + 1);
+    });
+    vector.forEach((match, rank) => {
+      const result = resultFor(match.chunk.id!);
+      result.chunk = match.chunk;
+      result.vectorScore = match.similarity;
+      result.comparable = true;
+      result.fusedScore += 1 / (RRF_K + rank + 1);
+    });
 
-    // Calculate similarities
-    const similarities = allChunks.map((chunk) => ({
-      chunk,
-      similarity: cosineSimilarity(queryEmbedding, chunk.embedding),
-    }));
+    // Keyword-only matches still get a similarity, from their stored embedding of the same model
+    const keywordOnly = Array.from(results.entries()).filter(([, result]) => !result.chunk);
+    const loaded = await db.chunks.bulkGet(keywordOnly.map(([chunkId]) => chunkId));
+    keywordOnly.forEach(([, result], i) => {
+      const chunk = loaded[i];
+      result.chunk = chunk;
+      result.comparable = hasEmbedding && chunk?.embeddingModel === model;
+      result.vectorScore = result.comparable ? cosineSimilarity(queryEmbedding, chunk!.embedding) : 0;
+    });
 
-    // Filter by threshold and sort by similarity
-    const relevant = similarities
-      .filter((item) => item.similarity >= threshold)
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, limit)
-      .map((item) => item.chunk);
+    // A shared common word ("explain", "example") isn't enough: keyword matches
+    // still need the similarity floor unless they hit a rare term
+    const minKeywordScore = (lexical[0]?.score ?? 0) * MIN_KEYWORD_SCORE_RATIO;
+    const isRelevant = (result: { lexicalScore: number; rare: boolean; vectorScore?: number; comparable: boolean }) => {
+      if (result.comparable && result.vectorScore! >= threshold) return true;
+      if (result.lexicalScore === 0) return false;
+      return result.rare || (!result.comparable && result.lexicalScore >= minKeywordScore);
+    };
 
-    return relevant;
+    return Array.from(results.values())
+      .filter((result) => result.chunk && isRelevant(result))
+      .sort((a, b) => b.fusedScore - a.fusedScore)
+      .slice(0, limit)
+      .map(({ chunk, lexicalScore, vectorScore, fusedScore }) => ({
+        ...chunk!,
+        lexicalScore,
+        vectorScore: vectorScore ?? 0,
+        fusedScore,
+      }));
   } catch (error) {
     console.error('RAG search error:', error);
     // Return empty results instead of throwing - RAG is optional
@@ -71,6 +160,31 @@ export async function searchRelevantChunks(
   }
 }
 
+/**
+ * Chunks sent to the chat route as RAG candidates; it reranks them
+ * (RAG_RERANKER) or keeps the best 5
+ */
+export const RAG_CANDIDATES = 15;
+
+/**
+ * RAG context for a chat message, sent with the request as `ragContext`
+ * Runs in the browser, where the documents and their indexes are stored
+ */
+export async function getRAGContext(query: string, limit: number = RAG_CANDIDATES): Promise<RAGChunk[]> {
+  const chunks = await searchRelevantChunks(query, limit, 0.5);
+  return chunks.map((chunk) => ({
+    documentName: chunk.documentName,
+    text: chunk.text,
+    source: formatChunkSource(chunk.documentName, chunk.metadata),
+    section: chunk.metadata?.section,
+    page: chunk.metadata?.page,
+    score: chunk.fusedScore,
+    lexicalScore: chunk.lexicalScore,
+    vectorScore: chunk.vectorScore,
+    fusedScore: chunk.fusedScore,
+  }));
+}
+
 /**
  * Get chunks by document ID
  */
@@ -0,0 +1,176 @@
+/**
+ * Per-turn usage records
+ * Durable token/cost log for every assistant turn (IndexedDB, browser only)
+ */
+
+import { db, UsageRecord } from '@/lib/db';
+import { calculateOpenRouterCost } from '@/lib/llm/openrouter-models';
+
+export interface TurnUsage {
+  conversationId: string;
+  messageId: string;
+  model: string;
+  provider: string;
+  taskType?: string;
+  mode: 'primary' | 'coding' | 'study';
+  promptTokens: number;
+  completionTokens: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+  estimated: boolean;
+  latencyMs?: number;
+  timeToFirstTokenMs?: number;
+}
+
+/**
+ * Record usage for one assistant turn
+ * Cost uses the model's real input/output price split, with prompt-cache prices
+ */
+export async function recordUsage(turn: TurnUsage): Promise<UsageRecord> {
+  const totalTokens = turn.promptTokens + turn.completionTokens;
+  const record: UsageRecord = {
+    ...turn,
+    timestamp: Date.now(),
+    totalTokens,
+    cost: calculateOpenRouterCost({ ...turn, totalTokens }, turn.model),
+  };
+
+  record.id = (await db.usageRecords.add(record)) as number;
+  return record;
+}
+
+/**
+ * Get usage records in a time range (oldest first)
+ */
+export async function getUsageRecords(
+  since: number = 0,
+  until: number = Date.now()
+): Promise<UsageRecord[]> {
+  return db.usageRecords
+    .where('timestamp')
+    .between(since, until, true, true)
+    .toArray();
+}
+
+/**
+ * Get usage records for one conversation
+ */
+export async function getConversationUsage(conversationId: string): Promise<UsageRecord[]> {
+  return db.usageRecords.where('conversationId').equals(conversationId).sortBy('timestamp');
+}
+
+export type UsageDimension = 'model' | 'taskType' | 'mode';
+
+export interface UsageTotals {
+  cost: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  turns: number;
+}
+
+export interface UsageBucket extends UsageTotals {
+  start: number; // Start of the day (local time)
+}
+
+export interface UsageGroup extends UsageTotals {
+  key: string;
+}
+
+export interface ConversationSpend extends UsageTotals {
+  conversationId: string;
+  lastUsed: number;
+}
+
+function emptyTotals(): UsageTotals {
+  return { cost: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, turns: 0 };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): void {
+  totals.cost += record.cost;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.totalTokens += record.totalTokens;
+  totals.cacheReadTokens += record.cacheReadTokens || 0;
+  totals.cacheWriteTokens += record.cacheWriteTokens || 0;
+  totals.turns += 1;
+}
+
+function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Sum all records
+ */
+export function summarizeUsage(records: UsageRecord[]): UsageTotals {
+  const totals = emptyTotals();
+  records.forEach((record) => addRecord(totals, record));
+  return totals;
+}
+
+/**
+ * Daily totals from `since` to today, including empty days
+ */
+export function getDailyUsage(records: UsageRecord[], since: number): UsageBucket[] {
+  const buckets = new Map<number, UsageBucket>();
+  const today = startOfDay(Date.now());
+
+  for (let day = startOfDay(since); day <= today; ) {
+    buckets.set(day, { start: day, ...emptyTotals() });
+    const next = new Date(day);
+    next.setDate(next.getDate() + 1); // DST-safe day step
+    day = next.getTime();
+  }
+
+  for (const record of records) {
+    const bucket = buckets.get(startOfDay(record.timestamp));
+    if (bucket) addRecord(bucket, record);
+  }
+
+  return Array.from(buckets.values());
+}
+
+/**
+ * Totals grouped by model, task type or mode (most expensive first)
+ */
+export function groupUsage(records: UsageRecord[], dimension: UsageDimension): UsageGroup[] {
+  const groups = new Map<string, UsageGroup>();
+
+  for (const record of records) {
+    const key = record[dimension] || 'unknown';
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, ...emptyTotals() };
+      groups.set(key, group);
+    }
+    addRecord(group, record);
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens);
+}
+
+/**
+ * Most expensive conversations
+ */
+export function getTopConversations(records: UsageRecord[], limit: number = 10): ConversationSpend[] {
+  const conversations = new Map<string, ConversationSpend>();
+
+  for (const record of records) {
+    let spend = conversations.get(record.conversationId);
+    if (!spend) {
+      spend = { conversationId: record.conversationId, lastUsed: 0, ...emptyTotals() };
+      conversations.set(record.conversationId, spend);
+    }
+    addRecord(spend, record);
+    spend.lastUsed = Math.max(spend.lastUsed, record.timestamp);
+  }
+
+  return Array.from(conversations.values())
+    .sort((a, b) => b.cost - a.cost)
+    .slice(0, limit);
+}
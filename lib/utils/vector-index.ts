@@ -0,0 +1,283 @@
+/**
+ * Vector Index
+ *
+ * Approximate nearest-neighbour search over chunk embeddings, so RAG queries
+ * don't score every row in db.chunks. It is an IVF index with int8-quantized
+ * vectors, persisted in IndexedDB (db.vectorIndex, db.vectorIndexMeta):
+ * - k-means centroids split the vectors into ~sqrt(n) lists; a query scans only
+ *   the `nprobe` lists with the closest centroids. More probes give better
+ *   recall and slower queries; probing every list is an exact search
+ * - candidates are ranked on the quantized vectors, then the best few are
+ *   re-scored against the full embeddings
+ * - chunks are added as documents are uploaded and removed with their document;
+ *   the centroids are retrained whenever the index doubles or shrinks to a quarter
+ * - the index holds one embedding model; chunks embedded with another model are
+ *   kept out until they are re-embedded, and a query from a different model
+ *   rebuilds the index for that model
+ *
+ * Chunks stored before the index existed are indexed on the first search.
+ */
+
+import { db, DocumentChunk, VectorIndexEntry, VectorIndexMeta } from '@/lib/db';
+
+export interface VectorSearchOptions {
+  nprobe?: number; // Lists to scan (default DEFAULT_NPROBE)
+  candidates?: number; // Quantized matches re-scored on full embeddings (default 4 x k)
+}
+
+export interface VectorMatch {
+  chunk: DocumentChunk;
+  similarity: number; // Cosine similarity on the full embeddings
+}
+
+export const DEFAULT_NPROBE = 8;
+
+const META_ID = 'ivf';
+const UNSEARCHABLE = -1; // List of chunks without an embedding from the index's model
+const RESCORE_FACTOR = 4;
+const MAX_LISTS = 1024;
+const MAX_TRAINING_VECTORS = 2048;
+const KMEANS_ITERATIONS = 8;
+
+// Index writes run one at a time, so a retrain never interleaves with an upload
+let writes: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const result = writes.then(task);
+  writes = result.catch(() => {});
+  return result;
+}
+
+function dot(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+  const norm = Math.sqrt(dot(vector, vector)) || 1;
+  const unit = new Float32Array(vector.length);
+  for (let i = 0; i < vector.length; i++) unit[i] = vector[i] / norm;
+  return unit;
+}
+
+/**
+ * Int8 components with one scale per vector (the largest component maps to 127)
+ */
+function quantize(unit: Float32Array): { vector: Int8Array; scale: number } {
+  let max = 0;
+  for (let i = 0; i < unit.length; i++) max = Math.max(max, Math.abs(unit[i]));
+  const scale = max / 127 || 1;
+  const vector = new Int8Array(unit.length);
+  for (let i = 0; i < unit.length; i++) vector[i] = Math.round(unit[i] / scale);
+  return { vector, scale };
+}
+
+function dequantize(entry: VectorIndexEntry): Float32Array {
+  const vector = new Float32Array(entry.vector.length);
+  for (let i = 0; i < vector.length; i++) vector[i] = entry.vector[i] * entry.scale;
+  return vector;
+}
+
+/**
+ * Lists whose centroids are closest to a unit vector, best first
+ */
+function closestLists(unit: ArrayLike<number>, centroids: Float32Array[], count: number): number[] {
+  return centroids
+    .map((centroid, list) => ({ list, score: dot(unit, centroid) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count)
+    .map((item) => item.list);
+}
+
+function nearestList(unit: ArrayLike<number>, centroids: Float32Array[]): number {
+  let best = 0;
+  let bestScore = -Infinity;
+  centroids.forEach((centroid, list) => {
+    const score = dot(unit, centroid);
+    if (score > bestScore) {
+      best = list;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+/**
+ * Spherical k-means (cosine distance) over unit vectors
+ * Starts from evenly spaced samples so rebuilds are deterministic
+ */
+function trainCentroids(vectors: Float32Array[], count: number): Float32Array[] {
+  const dimension = vectors[0].length;
+  let centroids = Array.from({ length: count }, (_, i) =>
+    normalize(vectors[Math.floor((i * vectors.length) / count)])
+  );
+
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const sums = centroids.map(() => new Float32Array(dimension));
+    const sizes = new Array(count).fill(0);
+    for (const vector of vectors) {
+      const list = nearestList(vector, centroids);
+      sizes[list]++;
+      for (let i = 0; i < dimension; i++) sums[list][i] += vector[i];
+    }
+    // An empty list keeps its previous centroid
+    centroids = sums.map((sum, list) => (sizes[list] > 0 ? normalize(sum) : centroids[list]));
+  }
+  return centroids;
+}
+
+function toEntry(
+  chunk: DocumentChunk,
+  model: string | undefined,
+  dimension: number | undefined,
+  meta: VectorIndexMeta | undefined
+): VectorIndexEntry {
+  const embedding = chunk.embedding || [];
+  const unit = normalize(embedding);
+  const searchable = embedding.length > 0 && chunk.embeddingModel === model && embedding.length === dimension;
+  return {
+    chunkId: chunk.id!,
+    documentId: chunk.documentId,
+    // Until the first training every vector sits in list 0
+    list: !searchable ? UNSEARCHABLE : meta ? nearestList(unit, meta.centroids) : 0,
+    ...quantize(unit),
+  };
+}
+
+/**
+ * Retrain the centroids and reassign every vector to its nearest list
+ */
+async function train(model: string, dimension: number): Promise<void> {
+  const entries = await db.vectorIndex.where('list').aboveOrEqual(0).toArray();
+  if (entries.length === 0) {
+    await db.vectorIndexMeta.delete(META_ID);
+    return;
+  }
+
+  const step = Math.max(1, entries.length / MAX_TRAINING_VECTORS);
+  const sample: Float32Array[] = [];
+  for (let i = 0; i < entries.length; i += step) sample.push(dequantize(entries[Math.floor(i)]));
+  const lists = Math.min(MAX_LISTS, sample.length, Math.max(1, Math.round(Math.sqrt(entries.length))));
+  const centroids = trainCentroids(sample, lists);
+
+  await db.transaction('rw', db.vectorIndex, db.vectorIndexMeta, async () => {
+    await db.vectorIndex.bulkPut(entries.map((entry) => ({ ...entry, list: nearestList(dequantize(entry), centroids) })));
+    await db.vectorIndexMeta.put({ id: META_ID, model, dimension, centroids, trainedOn: entries.length });
+  });
+}
+
+/**
+ * Retrain once the index has doubled or shrunk to a quarter since the last training
+ */
+async function retrainIfStale(model: string | undefined, dimension: number | undefined): Promise<void> {
+  if (model === undefined || dimension === undefined) return;
+  const meta = await db.vectorIndexMeta.get(META_ID);
+  const indexed = await db.vectorIndex.where('list').aboveOrEqual(0).count();
+  if (meta && indexed < meta.trainedOn * 2 && indexed * 4 >= meta.trainedOn) return;
+  await train(model, dimension);
+}
+
+/**
+ * @param model - Model for a new index (default: the model of the first embedded chunk)
+ */
+async function indexChunks(chunks: DocumentChunk[], model?: string): Promise<void> {
+  const meta = await db.vectorIndexMeta.get(META_ID);
+  const indexModel = meta?.model ?? model ?? chunks.find((chunk) => chunk.embedding?.length > 0)?.embeddingModel;
+  const dimension =
+    meta?.dimension ??
+    chunks.find((chunk) => chunk.embeddingModel === indexModel && chunk.embedding?.length > 0)?.embedding.length;
+  await db.vectorIndex.bulkPut(chunks.map((chunk) => toEntry(chunk, indexModel, dimension, meta)));
+  await retrainIfStale(indexModel, dimension);
+}
+
+/**
+ * Add stored chunks (with their db.chunks ids) to the index
+ */
+export function addChunksToVectorIndex(chunks: DocumentChunk[]): Promise<void> {
+  return serialized(() => indexChunks(chunks.filter((chunk) => chunk.id !== undefined)));
+}
+
+/**
+ * Remove a document's chunks from the index
+ */
+export function removeDocumentFromVectorIndex(documentId: string): Promise<void> {
+  return serialized(async () => {
+    await db.vectorIndex.where('documentId').equals(documentId).delete();
+    const meta = await db.vectorIndexMeta.get(META_ID);
+    await retrainIfStale(meta?.model, meta?.dimension);
+  });
+}
+
+/**
+ * Index chunks the index is missing and drop entries whose chunk is gone
+ * (chunks stored before the index existed, or an upload interrupted mid-way)
+ * An index of another model than `model` is rebuilt from scratch
+ */
+function syncIndex(model: string): Promise<void> {
+  return serialized(async () => {
+    const current = await db.vectorIndexMeta.get(META_ID);
+    if (current && current.model !== model) {
+      console.warn(`[Vector Index] Rebuilding for ${model} (was ${current.model || 'unknown'})`);
+      await db.transaction('rw', db.vectorIndex, db.vectorIndexMeta, async () => {
+        await db.vectorIndex.clear();
+        await db.vectorIndexMeta.delete(META_ID);
+      });
+    }
+
+    const [chunkCount, entryCount] = await Promise.all([db.chunks.count(), db.vectorIndex.count()]);
+    if (chunkCount === entryCount) return;
+
+    const chunkIds = (await db.chunks.toCollection().primaryKeys()) as number[];
+    const entryIds = (await db.vectorIndex.toCollection().primaryKeys()) as number[];
+    const stored = new Set(chunkIds);
+    const indexed = new Set(entryIds);
+
+    const stale = entryIds.filter((id) => !stored.has(id));
+    if (stale.length > 0) await db.vectorIndex.bulkDelete(stale);
+
+    const missing = chunkIds.filter((id) => !indexed.has(id));
+    const chunks = (await db.chunks.bulkGet(missing)).filter((chunk): chunk is DocumentChunk => !!chunk);
+    if (chunks.length > 0) {
+      await indexChunks(chunks, model);
+    } else {
+      const meta = await db.vectorIndexMeta.get(META_ID);
+      await retrainIfStale(meta?.model, meta?.dimension);
+    }
+  });
+}
+
+/**
+ * Top-k chunks by cosine similarity to an embedding, best first
+ * Only chunks embedded with the query's model are searched
+ */
+export async function searchVectorIndex(
+  embedding: number[],
+  model: string,
+  k: number,
+  options: VectorSearchOptions = {}
+): Promise<VectorMatch[]> {
+  await syncIndex(model);
+  const meta = await db.vectorIndexMeta.get(META_ID);
+  if (!meta) return [];
+  if (embedding.length !== meta.dimension) {
+    console.warn(`[Vector Index] Query has ${embedding.length} dimensions, the index has ${meta.dimension}`);
+    return [];
+  }
+
+  const query = normalize(embedding);
+  const lists = closestLists(query, meta.centroids, Math.max(1, options.nprobe ?? DEFAULT_NPROBE));
+  const entries = await db.vectorIndex.where('list').anyOf(lists).toArray();
+
+  const candidates = entries
+    .map((entry) => ({ chunkId: entry.chunkId, score: dot(query, entry.vector) * entry.scale }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.candidates ?? k * RESCORE_FACTOR);
+
+  const chunks = await db.chunks.bulkGet(candidates.map((candidate) => candidate.chunkId));
+  return chunks
+    .filter((chunk): chunk is DocumentChunk => !!chunk && chunk.embeddingModel === model && chunk.embedding?.length === meta.dimension)
+    .map((chunk) => ({ chunk, similarity: dot(query, normalize(chunk.embedding)) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, k);
+}
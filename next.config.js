@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // Local embeddings (lib/utils/embedding-providers.ts) load native ONNX bindings at runtime
+    serverComponentsExternalPackages: ['@huggingface/transformers', 'onnxruntime-node', 'sharp'],
+  },
   webpack: (config, { isServer }) => {
     if (!isServer) {
       // Exclude Node.js modules from client bundle
@@ -15,6 +19,8 @@ const nextConfig = {
       config.resolve.alias = {
         ...config.resolve.alias,
         'onnxruntime-node': false,
+        // Local embeddings run on the server only
+        '@huggingface/transformers': false,
       };
 
       // Ignore ALL .node files (native bindings) - MUST be first rule
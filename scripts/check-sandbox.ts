@@ -0,0 +1,142 @@
+/**
+ * Local code sandbox regression checks
+ *
+ *   pnpm check:sandbox                                Run every check
+ *   pnpm check:sandbox --only ctypes                  Run checks whose name contains "ctypes"
+ *   pnpm check:sandbox --verbose                      Show the end of every check's output
+ *
+ * Runs known escapes through the local executor (CODE_EXECUTOR=local) and
+ * fails if any of them prints ESCAPED, or if plain programs stop working.
+ * Needs python3 on the PATH (or CODE_EXECUTOR_PYTHON); nothing leaves the
+ * machine, the network checks target the loopback and a documentation address.
+ */
+
+import type { CodeLanguage } from '@/lib/tools/code-executor';
+
+interface SandboxCheck {
+  name: string;
+  language: CodeLanguage;
+  code: string;
+  expect: 'blocked' | 'runs'; // blocked: never prints ESCAPED; runs: prints OK
+}
+
+const checks: SandboxCheck[] = [
+  { name: 'python runs', language: 'python', code: 'print("OK")', expect: 'runs' },
+  { name: 'javascript runs', language: 'javascript', code: 'console.log("OK")', expect: 'runs' },
+  {
+    name: 'python ctypes system()',
+    language: 'python',
+    code: 'import ctypes\nctypes.CDLL(None).system(b"echo ESCAPED")',
+    expect: 'blocked',
+  },
+  {
+    name: 'python _ctypes dlopen',
+    language: 'python',
+    code: 'import _ctypes\n_ctypes.dlopen(None)\nprint("ESCAPED")',
+    expect: 'blocked',
+  },
+  {
+    name: 'python subprocess',
+    language: 'python',
+    code: 'import subprocess\nsubprocess.run(["echo", "ESCAPED"])',
+    expect: 'blocked',
+  },
+  {
+    name: 'python os.system',
+    language: 'python',
+    code: 'import os\nos.system("echo ESCAPED")',
+    expect: 'blocked',
+  },
+  {
+    name: 'python write outside workdir',
+    language: 'python',
+    code: 'open("/tmp/sandbox-escape.txt", "w").write("x")\nprint("ESCAPED")',
+    expect: 'blocked',
+  },
+  {
+    name: 'python tcp connect',
+    language: 'python',
+    code: 'import socket\nsocket.create_connection(("127.0.0.1", 9), timeout=1)\nprint("ESCAPED")',
+    expect: 'blocked',
+  },
+  {
+    name: 'python udp sendto',
+    language: 'python',
+    code: 'import socket\ns = socket.socket(socket.AF_INET, socket.SOCK_DGRAM)\ns.sendto(b"x", ("192.0.2.1", 9))\nprint("ESCAPED")',
+    expect: 'blocked',
+  },
+  {
+    name: 'python memory limit',
+    language: 'python',
+    code: 'b = bytearray(1500 * 1024 * 1024)\nprint("ESCAPED")',
+    expect: 'blocked',
+  },
+  {
+    name: 'javascript child_process',
+    language: 'javascript',
+    code: 'console.log(require("child_process").execSync("echo ESCAPED").toString())',
+    expect: 'blocked',
+  },
+  {
+    name: 'javascript write outside workdir',
+    language: 'javascript',
+    code: 'require("fs").writeFileSync("/tmp/sandbox-escape.txt", "x"); console.log("ESCAPED")',
+    expect: 'blocked',
+  },
+  {
+    name: 'javascript tcp connect',
+    language: 'javascript',
+    code: 'require("net").connect(9, "127.0.0.1"); console.log("ESCAPED")',
+    expect: 'blocked',
+  },
+  {
+    name: 'javascript fetch',
+    language: 'javascript',
+    code: 'fetch("http://127.0.0.1/").then(() => console.log("ESCAPED"), (e) => console.log(String(e.cause || e)))',
+    expect: 'blocked',
+  },
+  {
+    name: 'javascript udp send',
+    language: 'javascript',
+    code: 'require("dgram").createSocket("udp4").send("x", 9, "192.0.2.1"); console.log("ESCAPED")',
+    expect: 'blocked',
+  },
+  {
+    name: 'javascript memory limit',
+    language: 'javascript',
+    code: 'const b = Buffer.alloc(1500 * 1024 * 1024); console.log("ESCAPED", b.length)',
+    expect: 'blocked',
+  },
+];
+
+async function main() {
+  process.env.CODE_EXECUTOR = 'local';
+  const { localExecutor } = await import('@/lib/tools/code-executor');
+  if (!localExecutor.isAvailable()) {
+    console.error('The local executor is not available on this platform');
+    process.exit(1);
+  }
+
+  const only = process.argv.includes('--only') ? process.argv[process.argv.indexOf('--only') + 1] : undefined;
+  let failures = 0;
+  for (const check of checks.filter((c) => !only || c.name.includes(only))) {
+    const result = await localExecutor.execute({ language: check.language, code: check.code });
+    const output = `${result.stdout}\n${result.stderr}`;
+    const passed = check.expect === 'runs' ? result.stdout.includes('OK') : !result.stdout.includes('ESCAPED');
+    if (!passed) failures++;
+    console.log(`${passed ? 'pass' : 'FAIL'}  ${check.name}`);
+    if (!passed || process.argv.includes('--verbose')) {
+      console.log(output.trim().split('\n').slice(-3).map((line) => `      ${line}`).join('\n'));
+    }
+  }
+
+  if (failures > 0) {
+    console.error(`${failures} sandbox check(s) failed`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,79 @@
+/**
+ * Offline routing evaluation
+ *
+ *   pnpm eval:routing                                 Evaluate the current policy
+ *   pnpm eval:routing --policy candidate.json         Compare with candidate changes
+ *   pnpm eval:routing --json                          Print the full report as JSON
+ *   pnpm eval:routing --min-accuracy 0.8              Exit 1 below this overall accuracy
+ *
+ * The candidate file uses the PUT /api/routing-policy body format. Providers
+ * and fetch are stubbed, so nothing leaves the machine; the classifier runs its
+ * keyword rules because its model and embedding stages need the network.
+ */
+
+import { promises as fs } from 'fs';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+/**
+ * Pin the environment so results don't depend on local keys and no request
+ * reaches a provider, the model catalog or a tool backend
+ */
+async function stubNetwork(): Promise<void> {
+  process.env.MODEL_CATALOG_SOURCE = 'snapshot';
+  process.env.TASK_CLASSIFIER = 'rules';
+  process.env.OPEN_ROUTER_KEY = process.env.OPEN_ROUTER_KEY || 'offline-eval';
+  // Every tool counts as configured
+  process.env.BRAVE_SEARCH_API_KEY = 'offline-eval';
+  process.env.CODE_EXECUTOR = 'e2b';
+  process.env.E2B_API_KEY = 'offline-eval';
+
+  globalThis.fetch = async (input: any) => {
+    throw new Error(`Network access is disabled during routing evaluation (${input?.url || input})`);
+  };
+
+  const { providers } = await import('@/lib/llm/providers');
+  for (const [name, provider] of Object.entries(providers)) {
+    provider.call = async () => {
+      throw new Error(`Provider ${name} is stubbed during routing evaluation`);
+    };
+    provider.streamCall = async function* () {
+      throw new Error(`Provider ${name} is stubbed during routing evaluation`);
+    };
+  }
+}
+
+async function main() {
+  await stubNetwork();
+  const { evaluateRouting, formatRoutingReport } = await import('@/lib/eval/routing-eval');
+  const { validateRoutingPolicyChanges } = await import('@/lib/llm/routing-policy');
+  const { formatSchemaErrors } = await import('@/lib/utils/json-schema');
+
+  let candidate;
+  const policyPath = getArg('--policy');
+  if (policyPath) {
+    const validation = validateRoutingPolicyChanges(JSON.parse(await fs.readFile(policyPath, 'utf-8')));
+    if (!validation.valid) {
+      console.error(`Invalid candidate policy ${policyPath}: ${formatSchemaErrors(validation.errors)}`);
+      process.exit(1);
+    }
+    candidate = validation.value;
+  }
+
+  const report = await evaluateRouting(undefined, candidate);
+  console.log(process.argv.includes('--json') ? JSON.stringify(report, null, 2) : formatRoutingReport(report));
+
+  const minAccuracy = Number(getArg('--min-accuracy'));
+  if (minAccuracy && report.accuracy.all < minAccuracy) {
+    console.error(`Overall accuracy ${report.accuracy.all.toFixed(3)} is below ${minAccuracy}`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});